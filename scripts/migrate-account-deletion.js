@@ -0,0 +1,86 @@
+/**
+ * Migration script to support account deletion by anonymization
+ * This script will:
+ * 1. Add the deleted value to the users status column
+ * 2. Add the deletion schedule and deletion date columns to users table
+ */
+
+const mysql = require('mysql2/promise');
+require('dotenv').config();
+
+const columns = [
+    { name: 'deletion_scheduled_at', definition: 'DATETIME NULL AFTER status_changed_at' },
+    { name: 'deleted_at', definition: 'DATETIME NULL AFTER deletion_scheduled_at' }
+];
+
+async function migrateAccountDeletion() {
+    const connection = await mysql.createConnection({
+        host: process.env.DB_HOST || 'localhost',
+        user: process.env.DB_USER || 'root',
+        password: process.env.DB_PASS || '',
+        database: process.env.DB_NAME || 'saloon_guide'
+    });
+
+    try {
+        console.log('Starting account deletion migration...');
+
+        // Step 1: Allow the deleted status
+        const [statusColumn] = await connection.execute(`
+            SELECT COLUMN_TYPE
+            FROM INFORMATION_SCHEMA.COLUMNS
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'users' AND COLUMN_NAME = 'status'
+        `, [process.env.DB_NAME || 'saloon_guide']);
+
+        if (statusColumn.length === 0) {
+            throw new Error('users.status column is missing, run migrate-account-status.js first');
+        }
+
+        if (!statusColumn[0].COLUMN_TYPE.includes("'deleted'")) {
+            console.log('Adding deleted value to status column...');
+            await connection.execute(
+                "ALTER TABLE users MODIFY COLUMN status ENUM('active', 'suspended', 'banned', 'deleted') DEFAULT 'active'"
+            );
+        } else {
+            console.log('status column already allows deleted, skipping');
+        }
+
+        // Step 2: Add each missing column
+        for (const column of columns) {
+            const [existing] = await connection.execute(`
+                SELECT COLUMN_NAME
+                FROM INFORMATION_SCHEMA.COLUMNS
+                WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'users' AND COLUMN_NAME = ?
+            `, [process.env.DB_NAME || 'saloon_guide', column.name]);
+
+            if (existing.length === 0) {
+                console.log(`Adding ${column.name} column to users table...`);
+                await connection.execute(`ALTER TABLE users ADD COLUMN ${column.name} ${column.definition}`);
+            } else {
+                console.log(`${column.name} column already exists, skipping`);
+            }
+        }
+
+        console.log('Migration completed successfully!');
+
+    } catch (error) {
+        console.error('Migration failed:', error);
+        throw error;
+    } finally {
+        await connection.end();
+    }
+}
+
+// Run migration if called directly
+if (require.main === module) {
+    migrateAccountDeletion()
+        .then(() => {
+            console.log('Migration script completed');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('Migration script failed:', error);
+            process.exit(1);
+        });
+}
+
+module.exports = { migrateAccountDeletion };
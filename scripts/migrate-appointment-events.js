@@ -0,0 +1,68 @@
+/**
+ * Migration script to start the timeline of existing appointments
+ * This script will:
+ * 1. Check that the appointment_events table exists (it is created on server start)
+ * 2. Add a booking event for every appointment that has no events yet
+ */
+
+const mysql = require('mysql2/promise');
+require('dotenv').config();
+
+async function migrateAppointmentEvents() {
+    const connection = await mysql.createConnection({
+        host: process.env.DB_HOST || 'localhost',
+        user: process.env.DB_USER || 'root',
+        password: process.env.DB_PASS || '',
+        database: process.env.DB_NAME || 'saloon_guide'
+    });
+
+    const database = process.env.DB_NAME || 'saloon_guide';
+
+    try {
+        console.log('Starting appointment events migration...');
+
+        // Step 1: The events table has to exist before it can be filled
+        const [eventsTable] = await connection.execute(`
+            SELECT TABLE_NAME
+            FROM INFORMATION_SCHEMA.TABLES
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'appointment_events'
+        `, [database]);
+
+        if (eventsTable.length === 0) {
+            throw new Error('appointment_events table is missing, start the server once to create it');
+        }
+
+        // Step 2: Every appointment was booked by its guest as pending, earlier changes were not recorded
+        const [result] = await connection.execute(`
+            INSERT INTO appointment_events (appointment_id, event_type, actor_id, actor_role, from_status, to_status, created_at)
+            SELECT a.id, 'booked', a.guest_id, 'guest', NULL, 'pending', a.created_at
+            FROM appointments a
+            WHERE NOT EXISTS (SELECT 1 FROM appointment_events e WHERE e.appointment_id = a.id)
+        `);
+
+        console.log(`Added booking events for ${result.affectedRows} appointments`);
+
+        console.log('Migration completed successfully!');
+
+    } catch (error) {
+        console.error('Migration failed:', error);
+        throw error;
+    } finally {
+        await connection.end();
+    }
+}
+
+// Run migration if called directly
+if (require.main === module) {
+    migrateAppointmentEvents()
+        .then(() => {
+            console.log('Migration script completed');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('Migration script failed:', error);
+            process.exit(1);
+        });
+}
+
+module.exports = { migrateAppointmentEvents };
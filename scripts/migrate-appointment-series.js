@@ -0,0 +1,90 @@
+/**
+ * Migration script to group appointments into recurring series
+ * This script will:
+ * 1. Check that the appointment_series table exists (it is created on server start)
+ * 2. Add the series_id column to appointments table
+ * 3. Add the foreign key from appointments to appointment_series
+ */
+
+const mysql = require('mysql2/promise');
+require('dotenv').config();
+
+async function migrateAppointmentSeries() {
+    const connection = await mysql.createConnection({
+        host: process.env.DB_HOST || 'localhost',
+        user: process.env.DB_USER || 'root',
+        password: process.env.DB_PASS || '',
+        database: process.env.DB_NAME || 'saloon_guide'
+    });
+
+    const database = process.env.DB_NAME || 'saloon_guide';
+
+    try {
+        console.log('Starting appointment series migration...');
+
+        // Step 1: The series table has to exist before appointments can reference it
+        const [seriesTable] = await connection.execute(`
+            SELECT TABLE_NAME
+            FROM INFORMATION_SCHEMA.TABLES
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'appointment_series'
+        `, [database]);
+
+        if (seriesTable.length === 0) {
+            throw new Error('appointment_series table is missing, start the server once to create it');
+        }
+
+        // Step 2: Add the series_id column
+        const [seriesColumn] = await connection.execute(`
+            SELECT COLUMN_NAME
+            FROM INFORMATION_SCHEMA.COLUMNS
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'appointments' AND COLUMN_NAME = 'series_id'
+        `, [database]);
+
+        if (seriesColumn.length === 0) {
+            console.log('Adding series_id column to appointments table...');
+            await connection.execute('ALTER TABLE appointments ADD COLUMN series_id INT NULL AFTER staff_id');
+        } else {
+            console.log('series_id column already exists, skipping');
+        }
+
+        // Step 3: Add the foreign key
+        const [foreignKey] = await connection.execute(`
+            SELECT CONSTRAINT_NAME
+            FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'appointments'
+              AND COLUMN_NAME = 'series_id' AND REFERENCED_TABLE_NAME = 'appointment_series'
+        `, [database]);
+
+        if (foreignKey.length === 0) {
+            console.log('Adding foreign key from appointments to appointment_series...');
+            await connection.execute(
+                'ALTER TABLE appointments ADD CONSTRAINT fk_appointments_series FOREIGN KEY (series_id) REFERENCES appointment_series(id) ON DELETE SET NULL'
+            );
+        } else {
+            console.log('series_id foreign key already exists, skipping');
+        }
+
+        console.log('Migration completed successfully!');
+
+    } catch (error) {
+        console.error('Migration failed:', error);
+        throw error;
+    } finally {
+        await connection.end();
+    }
+}
+
+// Run migration if called directly
+if (require.main === module) {
+    migrateAppointmentSeries()
+        .then(() => {
+            console.log('Migration script completed');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('Migration script failed:', error);
+            process.exit(1);
+        });
+}
+
+module.exports = { migrateAppointmentSeries };
@@ -0,0 +1,67 @@
+/**
+ * Migration script to add email verification to the users table
+ * This script will:
+ * 1. Add the email_verified_at column to users table
+ * 2. Mark the accounts that existed before as verified
+ *
+ * Only accounts registered after the migration have to verify their address,
+ * so existing guests and owners keep booking and creating salons.
+ */
+
+const mysql = require('mysql2/promise');
+require('dotenv').config();
+
+async function migrateEmailVerification() {
+    const connection = await mysql.createConnection({
+        host: process.env.DB_HOST || 'localhost',
+        user: process.env.DB_USER || 'root',
+        password: process.env.DB_PASS || '',
+        database: process.env.DB_NAME || 'saloon_guide'
+    });
+
+    try {
+        console.log('Starting email verification migration...');
+
+        // Step 1: Check if email_verified_at column exists and add it
+        const [columns] = await connection.execute(`
+            SELECT COLUMN_NAME
+            FROM INFORMATION_SCHEMA.COLUMNS
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'users' AND COLUMN_NAME = 'email_verified_at'
+        `, [process.env.DB_NAME || 'saloon_guide']);
+
+        if (columns.length === 0) {
+            console.log('Adding email_verified_at column to users table...');
+            await connection.execute(`ALTER TABLE users ADD COLUMN email_verified_at DATETIME NULL AFTER role_id`);
+            console.log('email_verified_at column added successfully');
+
+            // Step 2: Only done together with the column, later unverified accounts stay unverified on a re-run
+            console.log('Marking existing accounts as verified...');
+            await connection.execute('UPDATE users SET email_verified_at = created_at WHERE email_verified_at IS NULL');
+        } else {
+            console.log('email_verified_at column already exists, migration may have already been completed');
+        }
+
+        console.log('Migration completed successfully!');
+
+    } catch (error) {
+        console.error('Migration failed:', error);
+        throw error;
+    } finally {
+        await connection.end();
+    }
+}
+
+// Run migration if called directly
+if (require.main === module) {
+    migrateEmailVerification()
+        .then(() => {
+            console.log('Migration script completed');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('Migration script failed:', error);
+            process.exit(1);
+        });
+}
+
+module.exports = { migrateEmailVerification };
@@ -0,0 +1,98 @@
+/**
+ * Migration script to move external sign-in to linked identities
+ * This script will:
+ * 1. Create the new user_identities table
+ * 2. Add the password_login_enabled column to users table
+ * 3. Move any google_id values into user_identities and drop the column
+ */
+
+const mysql = require('mysql2/promise');
+require('dotenv').config();
+
+async function migrateIdentities() {
+    const connection = await mysql.createConnection({
+        host: process.env.DB_HOST || 'localhost',
+        user: process.env.DB_USER || 'root',
+        password: process.env.DB_PASS || '',
+        database: process.env.DB_NAME || 'saloon_guide'
+    });
+
+    try {
+        console.log('Starting identities migration...');
+
+        // Step 1: Create user_identities table
+        console.log('Creating user_identities table...');
+        await connection.execute(`
+            CREATE TABLE IF NOT EXISTS user_identities (
+                id INT AUTO_INCREMENT PRIMARY KEY,
+                user_id INT NOT NULL,
+                provider VARCHAR(50) NOT NULL,
+                subject VARCHAR(255) NOT NULL,
+                email VARCHAR(255),
+                linked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                last_used_at DATETIME NULL,
+                UNIQUE KEY uq_user_identities_provider_subject (provider, subject),
+                UNIQUE KEY uq_user_identities_user_provider (user_id, provider),
+                FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+            )
+        `);
+
+        // Step 2: Add password_login_enabled column
+        const [passwordColumn] = await connection.execute(`
+            SELECT COLUMN_NAME
+            FROM INFORMATION_SCHEMA.COLUMNS
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'users' AND COLUMN_NAME = 'password_login_enabled'
+        `, [process.env.DB_NAME || 'saloon_guide']);
+
+        if (passwordColumn.length === 0) {
+            console.log('Adding password_login_enabled column to users table...');
+            await connection.execute(`ALTER TABLE users ADD COLUMN password_login_enabled BOOLEAN DEFAULT TRUE AFTER password`);
+        } else {
+            console.log('password_login_enabled column already exists, skipping');
+        }
+
+        // Step 3: Move google_id values if a previous schema created the column
+        const [googleColumn] = await connection.execute(`
+            SELECT COLUMN_NAME
+            FROM INFORMATION_SCHEMA.COLUMNS
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'users' AND COLUMN_NAME = 'google_id'
+        `, [process.env.DB_NAME || 'saloon_guide']);
+
+        if (googleColumn.length > 0) {
+            console.log('Moving google_id values to user_identities...');
+            const [result] = await connection.execute(`
+                INSERT IGNORE INTO user_identities (user_id, provider, subject, email)
+                SELECT id, 'google', google_id, email FROM users WHERE google_id IS NOT NULL
+            `);
+            console.log(`${result.affectedRows} Google identities migrated`);
+
+            console.log('Removing google_id column from users table...');
+            await connection.execute(`ALTER TABLE users DROP COLUMN google_id`);
+        } else {
+            console.log('google_id column not found, nothing to move');
+        }
+
+        console.log('Migration completed successfully!');
+
+    } catch (error) {
+        console.error('Migration failed:', error);
+        throw error;
+    } finally {
+        await connection.end();
+    }
+}
+
+// Run migration if called directly
+if (require.main === module) {
+    migrateIdentities()
+        .then(() => {
+            console.log('Migration script completed');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('Migration script failed:', error);
+            process.exit(1);
+        });
+}
+
+module.exports = { migrateIdentities };
@@ -0,0 +1,67 @@
+/**
+ * Migration script to add brute-force protection to the users table
+ * This script will:
+ * 1. Add the failed login and lockout columns to users table
+ */
+
+const mysql = require('mysql2/promise');
+require('dotenv').config();
+
+const columns = [
+    { name: 'failed_login_attempts', definition: 'INT DEFAULT 0' },
+    { name: 'last_failed_login_at', definition: 'DATETIME NULL' },
+    { name: 'locked_until', definition: 'DATETIME NULL' },
+    { name: 'lock_reason', definition: 'VARCHAR(255)' }
+];
+
+async function migrateLoginProtection() {
+    const connection = await mysql.createConnection({
+        host: process.env.DB_HOST || 'localhost',
+        user: process.env.DB_USER || 'root',
+        password: process.env.DB_PASS || '',
+        database: process.env.DB_NAME || 'saloon_guide'
+    });
+
+    try {
+        console.log('Starting login protection migration...');
+
+        // Step 1: Add each missing column
+        for (const column of columns) {
+            const [existing] = await connection.execute(`
+                SELECT COLUMN_NAME
+                FROM INFORMATION_SCHEMA.COLUMNS
+                WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'users' AND COLUMN_NAME = ?
+            `, [process.env.DB_NAME || 'saloon_guide', column.name]);
+
+            if (existing.length === 0) {
+                console.log(`Adding ${column.name} column to users table...`);
+                await connection.execute(`ALTER TABLE users ADD COLUMN ${column.name} ${column.definition}`);
+            } else {
+                console.log(`${column.name} column already exists, skipping`);
+            }
+        }
+
+        console.log('Migration completed successfully!');
+
+    } catch (error) {
+        console.error('Migration failed:', error);
+        throw error;
+    } finally {
+        await connection.end();
+    }
+}
+
+// Run migration if called directly
+if (require.main === module) {
+    migrateLoginProtection()
+        .then(() => {
+            console.log('Migration script completed');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('Migration script failed:', error);
+            process.exit(1);
+        });
+}
+
+module.exports = { migrateLoginProtection };
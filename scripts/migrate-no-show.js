@@ -0,0 +1,121 @@
+/**
+ * Migration script to support no-shows and salon cancellation policies
+ * This script will:
+ * 1. Add the no_show value to the appointment status columns
+ * 2. Add the no_show_count column to users table
+ * 3. Add the booking and cancellation policy columns to saloons table
+ */
+
+const mysql = require('mysql2/promise');
+require('dotenv').config();
+
+const STATUS_ENUM = "ENUM('pending', 'confirmed', 'cancelled', 'completed', 'no_show')";
+
+const statusColumns = [
+    { table: 'appointments', name: 'status', definition: `${STATUS_ENUM} DEFAULT 'pending'` },
+    { table: 'appointment_reschedules', name: 'previous_status', definition: `${STATUS_ENUM} NOT NULL` },
+    { table: 'appointment_reschedules', name: 'new_status', definition: `${STATUS_ENUM} NOT NULL` },
+    { table: 'appointment_events', name: 'from_status', definition: `${STATUS_ENUM} NULL` },
+    { table: 'appointment_events', name: 'to_status', definition: `${STATUS_ENUM} NOT NULL` }
+];
+
+const saloonColumns = [
+    { name: 'auto_confirm_bookings', definition: 'BOOLEAN NOT NULL DEFAULT FALSE AFTER reschedule_requires_confirmation' },
+    { name: 'cancellation_cutoff_hours', definition: 'INT NOT NULL DEFAULT 0 AFTER auto_confirm_bookings' },
+    { name: 'no_show_threshold', definition: 'INT NULL AFTER cancellation_cutoff_hours' },
+    { name: 'no_show_enforcement', definition: "ENUM('require_approval', 'block') NOT NULL DEFAULT 'require_approval' AFTER no_show_threshold" }
+];
+
+async function migrateNoShow() {
+    const connection = await mysql.createConnection({
+        host: process.env.DB_HOST || 'localhost',
+        user: process.env.DB_USER || 'root',
+        password: process.env.DB_PASS || '',
+        database: process.env.DB_NAME || 'saloon_guide'
+    });
+
+    const database = process.env.DB_NAME || 'saloon_guide';
+
+    try {
+        console.log('Starting no-show migration...');
+
+        // Step 1: Allow the no_show status
+        for (const column of statusColumns) {
+            const [existing] = await connection.execute(`
+                SELECT COLUMN_TYPE
+                FROM INFORMATION_SCHEMA.COLUMNS
+                WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ? AND COLUMN_NAME = ?
+            `, [database, column.table, column.name]);
+
+            if (existing.length === 0) {
+                console.log(`${column.table}.${column.name} column is missing, skipping`);
+            } else if (!existing[0].COLUMN_TYPE.includes("'no_show'")) {
+                console.log(`Adding no_show value to ${column.table}.${column.name} column...`);
+                await connection.execute(`ALTER TABLE ${column.table} MODIFY COLUMN ${column.name} ${column.definition}`);
+            } else {
+                console.log(`${column.table}.${column.name} column already allows no_show, skipping`);
+            }
+        }
+
+        // Step 2: Add the no-show counter of guests
+        const [countColumn] = await connection.execute(`
+            SELECT COLUMN_NAME
+            FROM INFORMATION_SCHEMA.COLUMNS
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'users' AND COLUMN_NAME = 'no_show_count'
+        `, [database]);
+
+        if (countColumn.length === 0) {
+            console.log('Adding no_show_count column to users table...');
+            await connection.execute('ALTER TABLE users ADD COLUMN no_show_count INT NOT NULL DEFAULT 0 AFTER two_factor_last_used_step');
+
+            // Count the no-shows recorded before the column existed
+            await connection.execute(`
+                UPDATE users u
+                JOIN (SELECT guest_id, COUNT(*) AS total FROM appointments WHERE status = 'no_show' GROUP BY guest_id) a
+                  ON a.guest_id = u.id
+                SET u.no_show_count = a.total
+            `);
+        } else {
+            console.log('no_show_count column already exists, skipping');
+        }
+
+        // Step 3: Add each missing policy column
+        for (const column of saloonColumns) {
+            const [existing] = await connection.execute(`
+                SELECT COLUMN_NAME
+                FROM INFORMATION_SCHEMA.COLUMNS
+                WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'saloons' AND COLUMN_NAME = ?
+            `, [database, column.name]);
+
+            if (existing.length === 0) {
+                console.log(`Adding ${column.name} column to saloons table...`);
+                await connection.execute(`ALTER TABLE saloons ADD COLUMN ${column.name} ${column.definition}`);
+            } else {
+                console.log(`${column.name} column already exists, skipping`);
+            }
+        }
+
+        console.log('Migration completed successfully!');
+
+    } catch (error) {
+        console.error('Migration failed:', error);
+        throw error;
+    } finally {
+        await connection.end();
+    }
+}
+
+// Run migration if called directly
+if (require.main === module) {
+    migrateNoShow()
+        .then(() => {
+            console.log('Migration script completed');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('Migration script failed:', error);
+            process.exit(1);
+        });
+}
+
+module.exports = { migrateNoShow };
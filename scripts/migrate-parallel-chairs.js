@@ -0,0 +1,60 @@
+/**
+ * Migration script to let salons take several appointments at the same time
+ * This script will:
+ * 1. Add the parallel_chairs column to saloons table
+ */
+
+const mysql = require('mysql2/promise');
+require('dotenv').config();
+
+async function migrateParallelChairs() {
+    const connection = await mysql.createConnection({
+        host: process.env.DB_HOST || 'localhost',
+        user: process.env.DB_USER || 'root',
+        password: process.env.DB_PASS || '',
+        database: process.env.DB_NAME || 'saloon_guide'
+    });
+
+    const database = process.env.DB_NAME || 'saloon_guide';
+
+    try {
+        console.log('Starting parallel chairs migration...');
+
+        // Step 1: Add the parallel_chairs column, existing salons keep taking one appointment at a time
+        const [chairsColumn] = await connection.execute(`
+            SELECT COLUMN_NAME
+            FROM INFORMATION_SCHEMA.COLUMNS
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'saloons' AND COLUMN_NAME = 'parallel_chairs'
+        `, [database]);
+
+        if (chairsColumn.length === 0) {
+            console.log('Adding parallel_chairs column to saloons table...');
+            await connection.execute('ALTER TABLE saloons ADD COLUMN parallel_chairs INT NOT NULL DEFAULT 1 AFTER longitude');
+        } else {
+            console.log('parallel_chairs column already exists, skipping');
+        }
+
+        console.log('Migration completed successfully!');
+
+    } catch (error) {
+        console.error('Migration failed:', error);
+        throw error;
+    } finally {
+        await connection.end();
+    }
+}
+
+// Run migration if called directly
+if (require.main === module) {
+    migrateParallelChairs()
+        .then(() => {
+            console.log('Migration script completed');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('Migration script failed:', error);
+            process.exit(1);
+        });
+}
+
+module.exports = { migrateParallelChairs };
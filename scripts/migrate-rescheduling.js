@@ -0,0 +1,61 @@
+/**
+ * Migration script to let salons decide how rescheduled appointments are confirmed
+ * This script will:
+ * 1. Add the reschedule_requires_confirmation column to saloons table
+ * The appointment_reschedules history table is created on server start
+ */
+
+const mysql = require('mysql2/promise');
+require('dotenv').config();
+
+async function migrateRescheduling() {
+    const connection = await mysql.createConnection({
+        host: process.env.DB_HOST || 'localhost',
+        user: process.env.DB_USER || 'root',
+        password: process.env.DB_PASS || '',
+        database: process.env.DB_NAME || 'saloon_guide'
+    });
+
+    const database = process.env.DB_NAME || 'saloon_guide';
+
+    try {
+        console.log('Starting rescheduling migration...');
+
+        // Step 1: Add the reschedule_requires_confirmation column, by default moved appointments are confirmed again
+        const [confirmationColumn] = await connection.execute(`
+            SELECT COLUMN_NAME
+            FROM INFORMATION_SCHEMA.COLUMNS
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'saloons' AND COLUMN_NAME = 'reschedule_requires_confirmation'
+        `, [database]);
+
+        if (confirmationColumn.length === 0) {
+            console.log('Adding reschedule_requires_confirmation column to saloons table...');
+            await connection.execute('ALTER TABLE saloons ADD COLUMN reschedule_requires_confirmation BOOLEAN NOT NULL DEFAULT TRUE');
+        } else {
+            console.log('reschedule_requires_confirmation column already exists, skipping');
+        }
+
+        console.log('Migration completed successfully!');
+
+    } catch (error) {
+        console.error('Migration failed:', error);
+        throw error;
+    } finally {
+        await connection.end();
+    }
+}
+
+// Run migration if called directly
+if (require.main === module) {
+    migrateRescheduling()
+        .then(() => {
+            console.log('Migration script completed');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('Migration script failed:', error);
+            process.exit(1);
+        });
+}
+
+module.exports = { migrateRescheduling };
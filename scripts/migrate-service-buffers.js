@@ -0,0 +1,60 @@
+/**
+ * Migration script to add clean-up buffers to salon services
+ * This script will:
+ * 1. Add the buffer_minutes column to saloon_services table
+ */
+
+const mysql = require('mysql2/promise');
+require('dotenv').config();
+
+async function migrateServiceBuffers() {
+    const connection = await mysql.createConnection({
+        host: process.env.DB_HOST || 'localhost',
+        user: process.env.DB_USER || 'root',
+        password: process.env.DB_PASS || '',
+        database: process.env.DB_NAME || 'saloon_guide'
+    });
+
+    const database = process.env.DB_NAME || 'saloon_guide';
+
+    try {
+        console.log('Starting service buffers migration...');
+
+        // Step 1: Add the buffer_minutes column, existing services keep no buffer
+        const [bufferColumn] = await connection.execute(`
+            SELECT COLUMN_NAME
+            FROM INFORMATION_SCHEMA.COLUMNS
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'saloon_services' AND COLUMN_NAME = 'buffer_minutes'
+        `, [database]);
+
+        if (bufferColumn.length === 0) {
+            console.log('Adding buffer_minutes column to saloon_services table...');
+            await connection.execute('ALTER TABLE saloon_services ADD COLUMN buffer_minutes INT NOT NULL DEFAULT 0 AFTER duration');
+        } else {
+            console.log('buffer_minutes column already exists, skipping');
+        }
+
+        console.log('Migration completed successfully!');
+
+    } catch (error) {
+        console.error('Migration failed:', error);
+        throw error;
+    } finally {
+        await connection.end();
+    }
+}
+
+// Run migration if called directly
+if (require.main === module) {
+    migrateServiceBuffers()
+        .then(() => {
+            console.log('Migration script completed');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('Migration script failed:', error);
+            process.exit(1);
+        });
+}
+
+module.exports = { migrateServiceBuffers };
@@ -0,0 +1,106 @@
+/**
+ * Migration script to move authentication to multi-device sessions
+ * This script will:
+ * 1. Create the new user_sessions table
+ * 2. Add the access token columns used for revocation to user_sessions tables created before them
+ * 3. Remove the token column from users table
+ */
+
+const mysql = require('mysql2/promise');
+require('dotenv').config();
+
+const sessionColumns = [
+    { name: 'access_token_jti', definition: 'VARCHAR(64) AFTER user_agent' },
+    { name: 'access_token_expires_at', definition: 'DATETIME AFTER access_token_jti' }
+];
+
+async function migrateSessions() {
+    const connection = await mysql.createConnection({
+        host: process.env.DB_HOST || 'localhost',
+        user: process.env.DB_USER || 'root',
+        password: process.env.DB_PASS || '',
+        database: process.env.DB_NAME || 'saloon_guide'
+    });
+
+    try {
+        console.log('Starting sessions migration...');
+
+        // Step 1: Create user_sessions table
+        console.log('Creating user_sessions table...');
+        await connection.execute(`
+            CREATE TABLE IF NOT EXISTS user_sessions (
+                id INT AUTO_INCREMENT PRIMARY KEY,
+                user_id INT NOT NULL,
+                refresh_token_hash CHAR(64) NOT NULL UNIQUE,
+                previous_refresh_token_hash CHAR(64),
+                device_name VARCHAR(100),
+                ip_address VARCHAR(45),
+                user_agent VARCHAR(255),
+                access_token_jti VARCHAR(64),
+                access_token_expires_at DATETIME,
+                last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                expires_at DATETIME NOT NULL,
+                revoked_at DATETIME NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+                INDEX idx_user_sessions_user (user_id),
+                INDEX idx_user_sessions_previous_hash (previous_refresh_token_hash),
+                FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+            )
+        `);
+
+        // Step 2: Add the access token columns, CREATE TABLE IF NOT EXISTS skips tables that already exist
+        for (const column of sessionColumns) {
+            const [existing] = await connection.execute(`
+                SELECT COLUMN_NAME
+                FROM INFORMATION_SCHEMA.COLUMNS
+                WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'user_sessions' AND COLUMN_NAME = ?
+            `, [process.env.DB_NAME || 'saloon_guide', column.name]);
+
+            if (existing.length === 0) {
+                console.log(`Adding ${column.name} column to user_sessions table...`);
+                await connection.execute(`ALTER TABLE user_sessions ADD COLUMN ${column.name} ${column.definition}`);
+            } else {
+                console.log(`${column.name} column already exists, skipping`);
+            }
+        }
+
+        // Step 3: Check if token column exists and drop it
+        const [columns] = await connection.execute(`
+            SELECT COLUMN_NAME
+            FROM INFORMATION_SCHEMA.COLUMNS
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'users' AND COLUMN_NAME = 'token'
+        `, [process.env.DB_NAME || 'saloon_guide']);
+
+        if (columns.length > 0) {
+            console.log('Removing token column from users table...');
+            await connection.execute(`ALTER TABLE users DROP COLUMN token`);
+            console.log('token column removed successfully');
+        } else {
+            console.log('token column not found, migration may have already been completed');
+        }
+
+        console.log('Migration completed successfully!');
+
+    } catch (error) {
+        console.error('Migration failed:', error);
+        throw error;
+    } finally {
+        await connection.end();
+    }
+}
+
+// Run migration if called directly
+if (require.main === module) {
+    migrateSessions()
+        .then(() => {
+            console.log('Migration script completed');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('Migration script failed:', error);
+            process.exit(1);
+        });
+}
+
+module.exports = { migrateSessions };
@@ -0,0 +1,90 @@
+/**
+ * Migration script to assign appointments to staff members
+ * This script will:
+ * 1. Check that the saloon_staff table exists (it is created on server start)
+ * 2. Add the staff_id column to appointments table
+ * 3. Add the foreign key from appointments to saloon_staff
+ */
+
+const mysql = require('mysql2/promise');
+require('dotenv').config();
+
+async function migrateStaff() {
+    const connection = await mysql.createConnection({
+        host: process.env.DB_HOST || 'localhost',
+        user: process.env.DB_USER || 'root',
+        password: process.env.DB_PASS || '',
+        database: process.env.DB_NAME || 'saloon_guide'
+    });
+
+    const database = process.env.DB_NAME || 'saloon_guide';
+
+    try {
+        console.log('Starting staff migration...');
+
+        // Step 1: The staff table has to exist before appointments can reference it
+        const [staffTable] = await connection.execute(`
+            SELECT TABLE_NAME
+            FROM INFORMATION_SCHEMA.TABLES
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'saloon_staff'
+        `, [database]);
+
+        if (staffTable.length === 0) {
+            throw new Error('saloon_staff table is missing, start the server once to create it');
+        }
+
+        // Step 2: Add the staff_id column
+        const [staffColumn] = await connection.execute(`
+            SELECT COLUMN_NAME
+            FROM INFORMATION_SCHEMA.COLUMNS
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'appointments' AND COLUMN_NAME = 'staff_id'
+        `, [database]);
+
+        if (staffColumn.length === 0) {
+            console.log('Adding staff_id column to appointments table...');
+            await connection.execute('ALTER TABLE appointments ADD COLUMN staff_id INT NULL AFTER saloon_id');
+        } else {
+            console.log('staff_id column already exists, skipping');
+        }
+
+        // Step 3: Add the foreign key
+        const [foreignKey] = await connection.execute(`
+            SELECT CONSTRAINT_NAME
+            FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = 'appointments'
+              AND COLUMN_NAME = 'staff_id' AND REFERENCED_TABLE_NAME = 'saloon_staff'
+        `, [database]);
+
+        if (foreignKey.length === 0) {
+            console.log('Adding foreign key from appointments to saloon_staff...');
+            await connection.execute(
+                'ALTER TABLE appointments ADD CONSTRAINT fk_appointments_staff FOREIGN KEY (staff_id) REFERENCES saloon_staff(id) ON DELETE SET NULL'
+            );
+        } else {
+            console.log('staff_id foreign key already exists, skipping');
+        }
+
+        console.log('Migration completed successfully!');
+
+    } catch (error) {
+        console.error('Migration failed:', error);
+        throw error;
+    } finally {
+        await connection.end();
+    }
+}
+
+// Run migration if called directly
+if (require.main === module) {
+    migrateStaff()
+        .then(() => {
+            console.log('Migration script completed');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('Migration script failed:', error);
+            process.exit(1);
+        });
+}
+
+module.exports = { migrateStaff };
@@ -0,0 +1,83 @@
+/**
+ * Migration script to add TOTP two-factor authentication
+ * This script will:
+ * 1. Add the two-factor columns to users table
+ * 2. Add the require_two_factor policy column to user_roles table
+ * 3. Create the two_factor_recovery_codes table
+ */
+
+const mysql = require('mysql2/promise');
+require('dotenv').config();
+
+const columns = [
+    { table: 'users', name: 'two_factor_secret', definition: 'VARCHAR(255) NULL' },
+    { table: 'users', name: 'two_factor_enabled_at', definition: 'DATETIME NULL' },
+    { table: 'users', name: 'two_factor_last_used_step', definition: 'BIGINT NULL' },
+    { table: 'user_roles', name: 'require_two_factor', definition: 'BOOLEAN DEFAULT FALSE' }
+];
+
+async function migrateTwoFactor() {
+    const connection = await mysql.createConnection({
+        host: process.env.DB_HOST || 'localhost',
+        user: process.env.DB_USER || 'root',
+        password: process.env.DB_PASS || '',
+        database: process.env.DB_NAME || 'saloon_guide'
+    });
+
+    try {
+        console.log('Starting two-factor migration...');
+
+        // Step 1 and 2: Add each missing column
+        for (const column of columns) {
+            const [existing] = await connection.execute(`
+                SELECT COLUMN_NAME
+                FROM INFORMATION_SCHEMA.COLUMNS
+                WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ? AND COLUMN_NAME = ?
+            `, [process.env.DB_NAME || 'saloon_guide', column.table, column.name]);
+
+            if (existing.length === 0) {
+                console.log(`Adding ${column.name} column to ${column.table} table...`);
+                await connection.execute(`ALTER TABLE ${column.table} ADD COLUMN ${column.name} ${column.definition}`);
+            } else {
+                console.log(`${column.name} column already exists, skipping`);
+            }
+        }
+
+        // Step 3: Create two_factor_recovery_codes table
+        console.log('Creating two_factor_recovery_codes table...');
+        await connection.execute(`
+            CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+                id INT AUTO_INCREMENT PRIMARY KEY,
+                user_id INT NOT NULL,
+                code_hash CHAR(64) NOT NULL,
+                used_at DATETIME NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                INDEX idx_two_factor_recovery_codes_user (user_id),
+                FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+            )
+        `);
+
+        console.log('Migration completed successfully!');
+
+    } catch (error) {
+        console.error('Migration failed:', error);
+        throw error;
+    } finally {
+        await connection.end();
+    }
+}
+
+// Run migration if called directly
+if (require.main === module) {
+    migrateTwoFactor()
+        .then(() => {
+            console.log('Migration script completed');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('Migration script failed:', error);
+            process.exit(1);
+        });
+}
+
+module.exports = { migrateTwoFactor };
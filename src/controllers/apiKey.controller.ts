@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+import { RequestHandler } from 'express';
+import logger from '../utils/logger';
+import { createApiKeySchema } from '../validations';
+import { createApiKey, getUserApiKeys, revokeApiKey } from '../services/apiKey.service';
+import { recordAuditEvent } from '../services/audit.service';
+import { AuditEventType } from '../models/auditEvent.model';
+import {
+    asyncHandler,
+    ValidationError,
+    AuthenticationError
+} from '../utils/errors';
+
+/**
+ * Issue a new API key for the current user
+ */
+export const createMyApiKey: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { error, value } = createApiKeySchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    const { key, apiKey } = await createApiKey(req.user.userId, value.name, value.scopes, value.expires_at);
+
+    await recordAuditEvent(req, {
+        type: AuditEventType.API_KEY_CREATED,
+        targetType: 'api_key',
+        targetId: apiKey.id,
+        metadata: { name: apiKey.name, prefix: apiKey.key_prefix, scopes: value.scopes, expiresAt: apiKey.expires_at }
+    });
+
+    logger.info(`API key ${apiKey.key_prefix} created by user ID: ${req.user.userId}`);
+    res.status(201).json({
+        status: true,
+        data: {
+            message: 'API key created, copy it now as it will not be shown again',
+            key,
+            apiKey
+        }
+    });
+});
+
+/**
+ * List the API keys of the current user
+ */
+export const getMyApiKeys: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    res.sendSuccess({ apiKeys: await getUserApiKeys(req.user.userId) });
+});
+
+/**
+ * Revoke one of the current user's API keys
+ */
+export const revokeMyApiKey: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const apiKeyId = parseInt(req.params.id);
+    if (isNaN(apiKeyId)) {
+        throw new ValidationError('API key ID must be a number');
+    }
+
+    await revokeApiKey(req.user.userId, apiKeyId);
+
+    await recordAuditEvent(req, { type: AuditEventType.API_KEY_REVOKED, targetType: 'api_key', targetId: apiKeyId });
+
+    logger.info(`API key ${apiKeyId} revoked by user ID: ${req.user.userId}`);
+    res.sendSuccess({ message: 'API key revoked successfully' });
+});
@@ -2,32 +2,114 @@ import { Request, Response } from 'express';
 import { RequestHandler } from 'express';
 import pool from '../config/db';
 import logger from '../utils/logger';
-import { createAppointmentSchema, updateAppointmentStatusSchema } from '../validations';
+import {
+    claimWaitlistOfferSchema,
+    createAppointmentSchema,
+    createAppointmentSeriesSchema,
+    holdSlotSchema,
+    joinWaitlistSchema,
+    rescheduleAppointmentSchema,
+    updateAppointmentStatusSchema
+} from '../validations';
 import {
     asyncHandler,
     NotFoundError,
     ValidationError,
     ConflictError,
     AuthorizationError,
-    DatabaseError
+    DatabaseError,
+    OccurrenceConflict,
+    SeriesConflictError,
+    SlotUnavailableError
 } from '../utils/errors';
 import { AppointmentStatus } from '../models/appointment.model';
+import { AppointmentActorRole } from '../models/appointmentEvent.model';
+import { NoShowEnforcement } from '../models/saloon.model';
+import { hasPermission } from '../services/permission.service';
+import { getOwnedSaloon } from '../services/saloon.service';
+import { assertWithinBusinessHours } from '../services/businessHours.service';
+import { addAlternativeSlots, formatSlot, getBookedServices, reserveSlot } from '../services/availability.service';
+import {
+    changeAppointmentStatus,
+    getCutoffMessage,
+    getGuestNoShowCount,
+    getNoShowEnforcement,
+    isWithinCancellationCutoff,
+    getAppointmentHistory as getAppointmentHistoryService,
+    insertAppointment,
+    rescheduleAppointment as rescheduleAppointmentService
+} from '../services/appointment.service';
+import {
+    claimWaitlistOffer as claimWaitlistOfferService,
+    getGuestWaitlist,
+    getWaitlistOffer as getWaitlistOfferService,
+    joinWaitlist as joinWaitlistService,
+    leaveWaitlist as leaveWaitlistService,
+    offerFreedSlot
+} from '../services/waitlist.service';
+import {
+    cancelFollowingOccurrences,
+    createAppointmentSeries as createAppointmentSeriesService,
+    getAppointmentSeries as getAppointmentSeriesService,
+    rescheduleFollowingOccurrences
+} from '../services/appointmentSeries.service';
+import {
+    convertSlotHold,
+    findGuestSlotHold,
+    getGuestSlotHolds,
+    holdSlot as holdSlotService,
+    releaseSlotHold as releaseSlotHoldService
+} from '../services/slotHold.service';
+
+/**
+ * Helper function to answer a taken time with the nearby times that are still free.
+ * Call it after the booking transaction has ended, the free times are looked up here.
+ */
+async function sendSlotUnavailable(res: Response, error: SlotUnavailableError): Promise<void> {
+    await addAlternativeSlots(error);
+
+    res.status(409).json({
+        status: false,
+        message: error.message,
+        error: 'SLOT_UNAVAILABLE',
+        alternatives: error.alternatives.map((slot) => formatSlot(slot))
+    });
+}
+
+/**
+ * Helper function to answer a series with the appointments that cannot be booked or moved
+ */
+function sendSeriesConflict(res: Response, error: SeriesConflictError): void {
+    res.status(409).json({
+        status: false,
+        message: error.message,
+        error: 'SERIES_CONFLICT',
+        conflicts: error.conflicts.map((conflict) => formatConflict(conflict))
+    });
+}
+
+/**
+ * Helper function to format an appointment of a series that cannot be booked or moved
+ */
+function formatConflict(conflict: OccurrenceConflict) {
+    return {
+        ...(conflict.appointmentId ? { appointmentId: conflict.appointmentId } : {}),
+        appointment_date: conflict.appointmentDate.toISOString(),
+        reason: conflict.reason,
+        alternatives: conflict.alternatives.map((slot) => formatSlot(slot))
+    };
+}
 
 /**
  * Book a new appointment (for guests)
  */
 export const bookAppointment: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
-    const { saloon_id, service_ids, appointment_date, notes } = req.body;
+    const { saloon_id, service_ids, staff_id, appointment_date, notes } = req.body;
 
     if (!req.user) {
         throw new AuthorizationError('Authentication required');
     }
 
-    // Guests can book appointments (role_id = 3)
-    if (req.user.roleId !== 3) {
-        throw new AuthorizationError('Only guests can book appointments');
-    }
-
     const guestId = req.user.userId;
     logger.info(`Creating new appointment for guest ID: ${guestId}, salon ID: ${saloon_id}, services: [${service_ids.join(', ')}]`);
 
@@ -35,6 +117,7 @@ export const bookAppointment: RequestHandler = asyncHandler(async (req: Request,
     const { error } = createAppointmentSchema.validate({
         saloon_id,
         service_ids,
+        staff_id,
         appointment_date,
         notes
     });
@@ -45,50 +128,65 @@ export const bookAppointment: RequestHandler = asyncHandler(async (req: Request,
 
     try {
         // Check if salon exists
-        const [saloon]: any = await pool.query('SELECT id FROM saloons WHERE id = ?', [saloon_id]);
+        const [saloon]: any = await pool.query(
+            'SELECT id, auto_confirm_bookings, no_show_threshold, no_show_enforcement FROM saloons WHERE id = ?',
+            [saloon_id]
+        );
 
         if (!saloon || saloon.length === 0) {
             throw new NotFoundError(`Salon with ID ${saloon_id} not found`);
         }
 
-        // Check if all services exist and belong to the salon
-        const placeholders = service_ids.map(() => '?').join(',');
-        const [services]: any = await pool.query(
-            `SELECT id FROM saloon_services WHERE id IN (${placeholders}) AND saloon_id = ?`,
-            [...service_ids, saloon_id]
-        );
+        // Guests who missed too many appointments wait for the owner or cannot book online at all
+        const noShowCount = await getGuestNoShowCount(guestId);
+        const enforcement = getNoShowEnforcement(saloon[0], noShowCount);
 
-        if (!services || services.length !== service_ids.length) {
-            const foundServiceIds = services.map((s: any) => s.id);
-            const missingServiceIds = service_ids.filter((id: number) => !foundServiceIds.includes(id));
-            throw new NotFoundError(`Services with IDs [${missingServiceIds.join(', ')}] not found in this salon`);
-        }
-
-        // Start transaction to ensure data consistency
-        await pool.query('START TRANSACTION'); try {
-            // Create the appointment
-            const [result]: any = await pool.query(
-                `INSERT INTO appointments 
-           (guest_id, saloon_id, appointment_date, status, notes) 
-           VALUES (?, ?, ?, ?, ?)`,
-                [guestId, saloon_id, new Date(appointment_date), AppointmentStatus.PENDING, notes || null]
-            );
-
-            const appointmentId = result.insertId;            // Insert services for the appointment using a single bulk insert query
-            if (service_ids.length > 0) {
-                const placeholders = service_ids.map(() => '(?, ?)').join(', ');
-                const values = service_ids.flatMap((serviceId: number) => [appointmentId, serviceId]);
-
-                logger.info(`Inserting ${service_ids.length} services for appointment ${appointmentId}`);
-                await pool.query(
-                    `INSERT INTO appointment_services (appointment_id, service_id) VALUES ${placeholders}`,
-                    values
-                );
-                logger.info(`Successfully inserted services for appointment ${appointmentId}`);
+        if (enforcement === NoShowEnforcement.BLOCK) {
+            throw new AuthorizationError('This salon does not take online bookings after missed appointments, please contact the salon');
+        }
+
+        const initialStatus = saloon[0].auto_confirm_bookings && !enforcement
+            ? AppointmentStatus.CONFIRMED
+            : AppointmentStatus.PENDING;
+
+        // Check if all services exist and belong to the salon, they are performed one after another with their buffers
+        const { duration: totalDuration } = await getBookedServices(saloon_id, service_ids);
+
+        // The salon has to be open from the start of the first service to the end of the last
+        await assertWithinBusinessHours(saloon_id, new Date(appointment_date), totalDuration);
+
+        // Bookings of the same saloon are checked one at a time, so two guests cannot take the last chair together
+        const connection = await pool.getConnection();
+        try {
+            await connection.beginTransaction();
+            await connection.query('SELECT id FROM saloons WHERE id = ? FOR UPDATE', [saloon_id]);
+
+            // A time the guest holds from checkout does not block their own booking
+            const holdId = await findGuestSlotHold(connection, guestId, saloon_id, new Date(appointment_date));
+
+            // Salons with staff book the chosen stylist, or the least busy free one when the guest has no preference
+            const staffId = await reserveSlot(saloon_id, new Date(appointment_date), totalDuration, {
+                serviceIds: service_ids,
+                staffId: staff_id,
+                excludeHoldId: holdId ?? undefined,
+                db: connection
+            });
+
+            const appointmentId = await insertAppointment(connection, {
+                guestId,
+                saloonId: saloon_id,
+                staffId,
+                appointmentDate: new Date(appointment_date),
+                status: initialStatus,
+                serviceIds: service_ids,
+                notes: notes || null
+            });
+
+            if (holdId) {
+                await convertSlotHold(connection, holdId, appointmentId);
             }
 
-            // Commit transaction
-            await pool.query('COMMIT');
+            await connection.commit();
 
             logger.info(`Appointment booked successfully, ID: ${appointmentId}`);
 
@@ -97,25 +195,31 @@ export const bookAppointment: RequestHandler = asyncHandler(async (req: Request,
                 data: {
                     message: 'Appointment booked successfully',
                     appointmentId: appointmentId,
-                    service_ids: service_ids
+                    service_ids: service_ids,
+                    staff_id: staffId,
+                    status: initialStatus
                 }
             });
         } catch (transactionError: any) {
             // Rollback transaction on error
             try {
-                await pool.query('ROLLBACK');
+                await connection.rollback();
                 logger.info('Transaction rolled back successfully');
             } catch (rollbackError) {
                 logger.error('Error during rollback:', rollbackError);
             }
 
-            logger.error('Transaction error during appointment booking:', {
-                error: transactionError.message,
-                code: transactionError.code,
-                errno: transactionError.errno,
-                appointmentData: { saloon_id, service_ids, appointment_date }
-            });
+            if (!(transactionError instanceof SlotUnavailableError)) {
+                logger.error('Transaction error during appointment booking:', {
+                    error: transactionError.message,
+                    code: transactionError.code,
+                    errno: transactionError.errno,
+                    appointmentData: { saloon_id, service_ids, appointment_date }
+                });
+            }
             throw transactionError;
+        } finally {
+            connection.release();
         }
     } catch (error: any) {
         logger.error('Error booking appointment:', {
@@ -124,9 +228,16 @@ export const bookAppointment: RequestHandler = asyncHandler(async (req: Request,
             appointmentData: { saloon_id, service_ids, appointment_date }
         });
 
+        // Tell the guest which nearby times are still free
+        if (error instanceof SlotUnavailableError) {
+            await sendSlotUnavailable(res, error);
+            return;
+        }
+
         if (error instanceof NotFoundError ||
             error instanceof ValidationError ||
-            error instanceof ConflictError) {
+            error instanceof ConflictError ||
+            error instanceof AuthorizationError) {
             throw error;
         }
 
@@ -151,33 +262,47 @@ export const getUserAppointments: RequestHandler = asyncHandler(async (req: Requ
     const limit = parseInt(req.query.limit as string) || 10;
     const offset = (page - 1) * limit;
     const status = req.query.status as string;
+    const saloonId = req.query.saloon_id as string | undefined;
 
     if (!req.user) {
         throw new AuthorizationError('Authentication required');
     }
 
     const userId = req.user.userId;
-    const isOwner = req.user.roleId === 2;
-    const isGuest = req.user.roleId === 3;
+    const isOwner = await hasPermission(req.user.roleId, 'appointment:manage');
+    const isGuest = !isOwner && await hasPermission(req.user.roleId, 'appointment:book');
 
     if (!isOwner && !isGuest) {
         throw new AuthorizationError('Only salon owners and guests can view appointments');
     }
 
+    // Owners with several salons can narrow the list down to one of them
+    if (saloonId !== undefined) {
+        if (!isOwner) {
+            throw new ValidationError('Filtering by salon is only available to salon owners');
+        }
+        await getOwnedSaloon(saloonId, userId, 'You can only view appointments of your own salons');
+    }
+
     logger.info(`Fetching appointments for user ID: ${userId}, role: ${isOwner ? 'owner' : 'guest'}`);
 
     try {
-        let query, countQuery, queryParams = [];
+        let query, countQuery;
+        const filterParams: any[] = [];
 
         if (isOwner) {
-            // For salon owners, get appointments for their salon
+            // For salon owners, get appointments for their salons
             query = `
         SELECT a.*, 
+               s.name as saloon_name,
                u.name as guest_name, 
-               u.email as guest_email
+               u.email as guest_email,
+               u.no_show_count as guest_no_show_count,
+               st.name as staff_name
         FROM appointments a
         JOIN saloons s ON a.saloon_id = s.id
         JOIN users u ON a.guest_id = u.id
+        LEFT JOIN saloon_staff st ON a.staff_id = st.id
         WHERE s.owner_id = ?
       `;
 
@@ -188,15 +313,23 @@ export const getUserAppointments: RequestHandler = asyncHandler(async (req: Requ
         WHERE s.owner_id = ?
       `;
 
-            queryParams.push(userId);
+            filterParams.push(userId);
+
+            if (saloonId !== undefined) {
+                query += ' AND a.saloon_id = ?';
+                countQuery += ' AND a.saloon_id = ?';
+                filterParams.push(saloonId);
+            }
         } else {
             // For guests, get their own appointments
             query = `
         SELECT a.*,
                s.name as saloon_name,
-               s.address as saloon_address
+               s.address as saloon_address,
+               st.name as staff_name
         FROM appointments a
         JOIN saloons s ON a.saloon_id = s.id
+        LEFT JOIN saloon_staff st ON a.staff_id = st.id
         WHERE a.guest_id = ?
       `;
 
@@ -206,22 +339,21 @@ export const getUserAppointments: RequestHandler = asyncHandler(async (req: Requ
         WHERE a.guest_id = ?
       `;
 
-            queryParams.push(userId);
+            filterParams.push(userId);
         }
 
         // Add status filter if provided
         if (status && Object.values(AppointmentStatus).includes(status as AppointmentStatus)) {
             query += ' AND a.status = ?';
             countQuery += ' AND a.status = ?';
-            queryParams.push(status);
+            filterParams.push(status);
         }
 
         // Add sorting and pagination
         query += ' ORDER BY a.appointment_date DESC LIMIT ? OFFSET ?';
-        queryParams.push(limit, offset);
 
         // Execute queries
-        const [appointments]: any = await pool.query(query, queryParams);
+        const [appointments]: any = await pool.query(query, [...filterParams, limit, offset]);
 
         // Get services for each appointment
         const appointmentsWithServices = await Promise.all(
@@ -242,10 +374,7 @@ export const getUserAppointments: RequestHandler = asyncHandler(async (req: Requ
         );
 
         // Get total count with the same filters (excluding limit and offset)
-        const [countResult]: any = await pool.query(
-            countQuery,
-            queryParams.slice(0, status ? 2 : 1)
-        );
+        const [countResult]: any = await pool.query(countQuery, filterParams);
 
         const total = countResult[0].total;
         const totalPages = Math.ceil(total / limit);
@@ -270,20 +399,20 @@ export const getUserAppointments: RequestHandler = asyncHandler(async (req: Requ
  */
 export const updateAppointmentStatus: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
-    const { status, notes } = req.body;
+    const { status, notes, reason } = req.body;
 
     if (!req.user) {
         throw new AuthorizationError('Authentication required');
     }
 
     const userId = req.user.userId;
-    const isOwner = req.user.roleId === 2;
-    const isGuest = req.user.roleId === 3;
+    const isOwner = await hasPermission(req.user.roleId, 'appointment:manage');
+    const isGuest = await hasPermission(req.user.roleId, 'appointment:book');
 
     logger.info(`Updating appointment ID: ${id} status to: ${status}`);
 
     // Validate request data
-    const { error } = updateAppointmentStatusSchema.validate({ status, notes });
+    const { error, value } = updateAppointmentStatusSchema.validate({ status, notes, reason, scope: req.body.scope });
     if (error) {
         throw new ValidationError(error.details[0].message);
     }
@@ -291,7 +420,7 @@ export const updateAppointmentStatus: RequestHandler = asyncHandler(async (req:
     try {
         // Get the appointment with salon information
         const [appointments]: any = await pool.query(
-            `SELECT a.*, s.owner_id 
+            `SELECT a.*, s.owner_id, s.cancellation_cutoff_hours
        FROM appointments a
        JOIN saloons s ON a.saloon_id = s.id
        WHERE a.id = ?`,
@@ -305,41 +434,53 @@ export const updateAppointmentStatus: RequestHandler = asyncHandler(async (req:
         const appointment = appointments[0];
 
         // Check authorization
-        const canUpdate =
-            (isOwner && appointment.owner_id === userId) ||
-            (isGuest && appointment.guest_id === userId);
+        const actsAsOwner = isOwner && appointment.owner_id === userId;
+        const canUpdate = actsAsOwner || (isGuest && appointment.guest_id === userId);
 
         if (!canUpdate) {
             throw new AuthorizationError('You can only update your own appointments');
         }
 
         // Check valid state transitions
-        if (!isValidStatusTransition(appointment.status, status as AppointmentStatus, isOwner)) {
-            throw new ValidationError(`Cannot change status from '${appointment.status}' to '${status}' with your role`);
-        }
+        const appointmentDate = new Date(appointment.appointment_date);
+        if (!isValidStatusTransition(appointment.status, status as AppointmentStatus, actsAsOwner, appointmentDate, appointment.cancellation_cutoff_hours)) {
+            if (actsAsOwner && status === AppointmentStatus.NO_SHOW && appointment.status === AppointmentStatus.CONFIRMED) {
+                throw new ValidationError('An appointment can only be marked as a no-show once it has started');
+            }
 
-        // Update the appointment
-        const updateFields = ['status = ?'];
-        const updateValues = [status];
+            if (!actsAsOwner && status === AppointmentStatus.CANCELLED && appointment.status === AppointmentStatus.CONFIRMED) {
+                throw new ValidationError(getCutoffMessage('cancelled', appointment.cancellation_cutoff_hours));
+            }
 
-        if (notes !== undefined) {
-            updateFields.push('notes = ?');
-            updateValues.push(notes);
+            throw new ValidationError(`Cannot change status from '${appointment.status}' to '${status}' with your role`);
         }
 
-        updateValues.push(id); // For the WHERE clause
+        const actor = { userId, role: actsAsOwner ? AppointmentActorRole.OWNER : AppointmentActorRole.GUEST };
 
-        const [result]: any = await pool.query(
-            `UPDATE appointments SET ${updateFields.join(', ')}, updated_at = NOW() WHERE id = ?`,
-            updateValues
-        );
+        // Cancel this and all later appointments of a recurring series
+        if (value.scope === 'following') {
+            const cancelledIds = await cancelFollowingOccurrences(parseInt(id), actor, reason);
 
-        if (result.affectedRows === 0) {
-            throw new DatabaseError('Failed to update appointment status');
+            res.sendSuccess({
+                message: `${cancelledIds.length} appointment(s) of the series cancelled`,
+                appointmentId: parseInt(id),
+                status,
+                cancelled_appointment_ids: cancelledIds
+            });
+            return;
         }
 
+        // Update the appointment and record who changed it
+        await changeAppointmentStatus(parseInt(id), appointment.status, status as AppointmentStatus, actor, notes, reason);
+
         logger.info(`Appointment ID: ${id} status updated to ${status}`);
 
+        // Guests waiting for a fully booked day get the freed time offered
+        if (status === AppointmentStatus.CANCELLED) {
+            offerFreedSlot(parseInt(id))
+                .catch((error) => logger.error(`Error offering freed time of appointment ID ${id} to the waitlist:`, error));
+        }
+
         res.sendSuccess({
             message: 'Appointment status updated successfully',
             appointmentId: parseInt(id),
@@ -350,7 +491,8 @@ export const updateAppointmentStatus: RequestHandler = asyncHandler(async (req:
 
         if (error instanceof NotFoundError ||
             error instanceof ValidationError ||
-            error instanceof AuthorizationError) {
+            error instanceof AuthorizationError ||
+            error instanceof ConflictError) {
             throw error;
         }
 
@@ -358,13 +500,162 @@ export const updateAppointmentStatus: RequestHandler = asyncHandler(async (req:
     }
 });
 
+/**
+ * Move an appointment to another time (guest or saloon owner)
+ */
+export const rescheduleAppointment: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+    }
+
+    const { error, value } = rescheduleAppointmentSchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    const userId = req.user.userId;
+    const isOwner = await hasPermission(req.user.roleId, 'appointment:manage');
+    const isGuest = await hasPermission(req.user.roleId, 'appointment:book');
+
+    logger.info(`Rescheduling appointment ID: ${id} to: ${new Date(value.appointment_date).toISOString()}`);
+
+    try {
+        const [appointments]: any = await pool.query(
+            `SELECT a.guest_id, s.owner_id
+       FROM appointments a
+       JOIN saloons s ON a.saloon_id = s.id
+       WHERE a.id = ?`,
+            [id]
+        );
+
+        if (!appointments || appointments.length === 0) {
+            throw new NotFoundError(`Appointment with ID ${id} not found`);
+        }
+
+        // Check authorization
+        const actsAsOwner = isOwner && appointments[0].owner_id === userId;
+        if (!actsAsOwner && !(isGuest && appointments[0].guest_id === userId)) {
+            throw new AuthorizationError('You can only reschedule your own appointments');
+        }
+
+        const changes = {
+            appointmentDate: new Date(value.appointment_date),
+            staffId: value.staff_id,
+            reason: value.reason
+        };
+        const actor = { userId, role: actsAsOwner ? AppointmentActorRole.OWNER : AppointmentActorRole.GUEST };
+
+        // Move this and all later appointments of a recurring series
+        if (value.scope === 'following') {
+            const moved = await rescheduleFollowingOccurrences(parseInt(id), changes, actor);
+
+            res.sendSuccess({
+                message: `${moved.length} appointment(s) of the series rescheduled`,
+                appointments: moved.map((appointment) => ({
+                    appointmentId: appointment.appointmentId,
+                    previous_date: appointment.previousDate,
+                    appointment_date: appointment.appointmentDate,
+                    staff_id: appointment.staffId,
+                    status: appointment.status
+                }))
+            });
+            return;
+        }
+
+        const result = await rescheduleAppointmentService(parseInt(id), changes, actor);
+
+        res.sendSuccess({
+            message: result.status === AppointmentStatus.PENDING
+                ? 'Appointment rescheduled, the salon has to confirm the new time'
+                : 'Appointment rescheduled successfully',
+            appointmentId: result.appointmentId,
+            previous_date: result.previousDate,
+            appointment_date: result.appointmentDate,
+            staff_id: result.staffId,
+            status: result.status
+        });
+    } catch (error: any) {
+        if (error instanceof SlotUnavailableError) {
+            await sendSlotUnavailable(res, error);
+            return;
+        }
+
+        if (error instanceof SeriesConflictError) {
+            sendSeriesConflict(res, error);
+            return;
+        }
+
+        logger.error('Error rescheduling appointment:', error);
+
+        if (error instanceof NotFoundError ||
+            error instanceof ValidationError ||
+            error instanceof AuthorizationError) {
+            throw error;
+        }
+
+        throw new DatabaseError('Failed to reschedule appointment');
+    }
+});
+
+/**
+ * Get the timeline of an appointment: booking, status changes and reschedules (guest or saloon owner)
+ */
+export const getAppointmentHistory: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+    }
+
+    const userId = req.user.userId;
+
+    try {
+        const [appointments]: any = await pool.query(
+            `SELECT a.id, a.guest_id, a.status, s.owner_id
+       FROM appointments a
+       JOIN saloons s ON a.saloon_id = s.id
+       WHERE a.id = ?`,
+            [id]
+        );
+
+        if (!appointments || appointments.length === 0) {
+            throw new NotFoundError(`Appointment with ID ${id} not found`);
+        }
+
+        const appointment = appointments[0];
+
+        if (appointment.guest_id !== userId && appointment.owner_id !== userId) {
+            throw new AuthorizationError('You can only view the history of your own appointments');
+        }
+
+        res.sendSuccess({
+            appointmentId: appointment.id,
+            status: appointment.status,
+            events: await getAppointmentHistoryService(id)
+        });
+    } catch (error) {
+        logger.error(`Error fetching history of appointment ID ${id}:`, error);
+
+        if (error instanceof NotFoundError || error instanceof AuthorizationError) {
+            throw error;
+        }
+
+        throw new DatabaseError('Failed to fetch appointment history');
+    }
+});
+
 /**
  * Helper function to validate appointment status transitions
+ * against the role of the user and the cancellation policy of the saloon
  */
 function isValidStatusTransition(
     currentStatus: AppointmentStatus,
     newStatus: AppointmentStatus,
-    isOwner: boolean
+    isOwner: boolean,
+    appointmentDate: Date,
+    cancellationCutoffHours: number
 ): boolean {
     // Owners can change pending to confirmed or cancelled
     if (isOwner) {
@@ -373,18 +664,261 @@ function isValidStatusTransition(
         }
 
         if (currentStatus === AppointmentStatus.CONFIRMED) {
+            // A guest can only miss an appointment that has started
+            if (newStatus === AppointmentStatus.NO_SHOW) {
+                return Date.now() >= appointmentDate.getTime();
+            }
+
             return [AppointmentStatus.COMPLETED, AppointmentStatus.CANCELLED].includes(newStatus);
         }
 
-        // Cannot change from cancelled or completed
+        // Cannot change from cancelled, completed or no-show
         return false;
     }
-    // Guests can only cancel their appointments
+    // Guests can only cancel their appointments, confirmed ones until the saloon's cutoff
     else {
-        if ([AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED].includes(currentStatus)) {
-            return newStatus === AppointmentStatus.CANCELLED;
+        if (newStatus !== AppointmentStatus.CANCELLED) {
+            return false;
+        }
+
+        if (currentStatus === AppointmentStatus.PENDING) {
+            return true;
+        }
+
+        if (currentStatus === AppointmentStatus.CONFIRMED) {
+            return !isWithinCancellationCutoff(appointmentDate, cancellationCutoffHours);
         }
 
         return false;
     }
 }
+
+/**
+ * Book a recurring series of appointments in one request (for guests)
+ */
+export const createAppointmentSeries: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+    }
+
+    const { error, value } = createAppointmentSeriesSchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    const guestId = req.user.userId;
+    logger.info(`Creating appointment series for guest ID: ${guestId}, salon ID: ${value.saloon_id}, every ${value.recurrence.interval} ${value.recurrence.frequency}`);
+
+    try {
+        const series = await createAppointmentSeriesService(guestId, {
+            saloonId: value.saloon_id,
+            serviceIds: value.service_ids,
+            staffId: value.staff_id,
+            appointmentDate: new Date(value.appointment_date),
+            notes: value.notes || null,
+            recurrence: value.recurrence,
+            skipConflicts: value.skip_conflicts
+        });
+
+        res.status(201).json({
+            status: true,
+            data: {
+                message: series.skipped.length > 0
+                    ? `${series.appointments.length} appointment(s) booked, ${series.skipped.length} could not be booked`
+                    : `${series.appointments.length} appointment(s) booked successfully`,
+                seriesId: series.seriesId,
+                service_ids: value.service_ids,
+                status: series.status,
+                appointments: series.appointments.map((appointment) => ({
+                    appointmentId: appointment.appointmentId,
+                    appointment_date: appointment.appointmentDate,
+                    staff_id: appointment.staffId
+                })),
+                skipped: series.skipped.map((conflict) => formatConflict(conflict))
+            }
+        });
+    } catch (error) {
+        // Tell the guest which appointments are taken and what is free around them
+        if (error instanceof SeriesConflictError) {
+            sendSeriesConflict(res, error);
+            return;
+        }
+        throw error;
+    }
+});
+
+/**
+ * Get a recurring series with all its appointments (guest or saloon owner)
+ */
+export const getAppointmentSeries: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+    }
+
+    res.sendSuccess(await getAppointmentSeriesService(req.params.seriesId, req.user.userId));
+});
+
+/**
+ * Hold a time while the guest finishes booking, other guests cannot take it until the hold expires (for guests)
+ */
+export const holdSlot: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+    }
+
+    const { error, value } = holdSlotSchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    try {
+        const hold = await holdSlotService(req.user.userId, value.saloon_id, {
+            serviceIds: value.service_ids,
+            staffId: value.staff_id,
+            appointmentDate: new Date(value.appointment_date)
+        });
+
+        res.status(201).json({
+            status: true,
+            data: {
+                message: 'Time held, book it before the hold expires',
+                hold
+            }
+        });
+    } catch (error) {
+        // Tell the guest which nearby times are still free
+        if (error instanceof SlotUnavailableError) {
+            await sendSlotUnavailable(res, error);
+            return;
+        }
+        throw error;
+    }
+});
+
+/**
+ * List the guest's held times that have not expired yet
+ */
+export const getMySlotHolds: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+    }
+
+    res.sendSuccess({ holds: await getGuestSlotHolds(req.user.userId) });
+});
+
+/**
+ * Give up a held time so other guests can book it
+ */
+export const releaseSlotHold: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+    }
+
+    await releaseSlotHoldService(req.user.userId, req.params.holdId);
+
+    res.sendSuccess({ message: 'Slot hold released' });
+});
+
+/**
+ * Join the waitlist of a salon for a date window (for guests)
+ */
+export const joinWaitlist: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+    }
+
+    const { error, value } = joinWaitlistSchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    const entry = await joinWaitlistService(req.user.userId, value.saloon_id, {
+        serviceIds: value.service_ids,
+        staffId: value.staff_id,
+        dateFrom: value.date_from,
+        dateTo: value.date_to
+    });
+
+    res.status(201).json({
+        status: true,
+        data: {
+            message: 'You are on the waitlist, we will email you when a time opens up',
+            entry
+        }
+    });
+});
+
+/**
+ * List the waitlist entries of the current guest
+ */
+export const getMyWaitlist: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+    }
+
+    res.sendSuccess({ entries: await getGuestWaitlist(req.user.userId) });
+});
+
+/**
+ * Leave a waitlist (for guests)
+ */
+export const leaveWaitlist: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+    }
+
+    await leaveWaitlistService(req.user.userId, req.params.entryId);
+
+    res.sendSuccess({ message: 'You have left the waitlist' });
+});
+
+/**
+ * Show the time offered to a guest on the waitlist, using the link from the offer email.
+ * Mail scanners open links on their own, so opening the link never books, only POST does.
+ */
+export const getWaitlistOffer: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    const token = req.query.token;
+
+    const { error } = claimWaitlistOfferSchema.validate({ token });
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    res.sendSuccess({ offer: await getWaitlistOfferService(token as string) });
+});
+
+/**
+ * Book the time offered to a guest on the waitlist, with the token from the offer email link
+ */
+export const claimWaitlistOffer: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    // The page the email link opens posts the token back
+    const token = req.body?.token ?? req.query.token;
+
+    const { error } = claimWaitlistOfferSchema.validate({ token });
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    try {
+        const appointment = await claimWaitlistOfferService(token);
+
+        res.status(201).json({
+            status: true,
+            data: {
+                message: 'Appointment booked successfully',
+                appointmentId: appointment.appointmentId,
+                saloon_id: appointment.saloonId,
+                appointment_date: appointment.appointmentDate,
+                staff_id: appointment.staffId,
+                status: appointment.status
+            }
+        });
+    } catch (error) {
+        // The time was taken in the meantime, show what else is free
+        if (error instanceof SlotUnavailableError) {
+            await sendSlotUnavailable(res, error);
+            return;
+        }
+        throw error;
+    }
+});
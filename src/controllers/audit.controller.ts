@@ -0,0 +1,24 @@
+import { Request, Response } from 'express';
+import { RequestHandler } from 'express';
+import { auditEventQuerySchema } from '../validations';
+import { queryAuditEvents } from '../services/audit.service';
+import { asyncHandler, ValidationError } from '../utils/errors';
+
+// Search the audit log by actor, event type, target and date range
+export const getAuditEvents: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = auditEventQuerySchema.validate(req.query);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    res.sendSuccess(await queryAuditEvents({
+        actorId: value.actor_id,
+        type: value.type,
+        targetType: value.target_type,
+        targetId: value.target_id,
+        from: value.from,
+        to: value.to,
+        page: value.page,
+        limit: value.limit
+    }));
+});
@@ -0,0 +1,155 @@
+import { Request, Response } from 'express';
+import { RequestHandler } from 'express';
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { hoursExceptionQuerySchema, hoursExceptionSchema, weeklyHoursSchema } from '../validations';
+import { getOwnedSaloon } from '../services/saloon.service';
+import {
+    addDays,
+    deleteHoursException,
+    getHoursExceptions,
+    getWeeklyHours,
+    parseDateString,
+    replaceWeeklyHours,
+    setHoursException,
+    toDateString
+} from '../services/businessHours.service';
+import {
+    asyncHandler,
+    NotFoundError,
+    ValidationError,
+    AuthenticationError
+} from '../utils/errors';
+
+// How far ahead exceptions are listed when no range is given, and the longest range that can be asked for
+const DEFAULT_EXCEPTION_DAYS = 90;
+const MAX_EXCEPTION_DAYS = 366;
+
+const parseDateParam = (value: string, name: string): string => {
+    if (!parseDateString(value)) {
+        throw new ValidationError(`${name} must be a valid date in YYYY-MM-DD format`);
+    }
+    return value;
+};
+
+const assertSaloonExists = async (saloonId: string): Promise<void> => {
+    const [saloons]: any = await pool.query('SELECT id FROM saloons WHERE id = ?', [saloonId]);
+    if (!saloons || saloons.length === 0) {
+        throw new NotFoundError(`Salon with ID ${saloonId} not found`);
+    }
+};
+
+/**
+ * Get the weekly schedule and upcoming holidays of a saloon
+ */
+export const getSaloonHours: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    await assertSaloonExists(id);
+
+    const today = toDateString(new Date());
+    const weekly = await getWeeklyHours(id);
+
+    res.sendSuccess({
+        saloon_id: parseInt(id),
+        // Without a weekly schedule the saloon's opening_time and closing_time apply every day
+        uses_default_hours: weekly.length === 0,
+        weekly,
+        exceptions: await getHoursExceptions(id, today, addDays(today, DEFAULT_EXCEPTION_DAYS))
+    });
+});
+
+/**
+ * Replace the weekly schedule of a saloon (owner only)
+ */
+export const updateSaloonHours: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { id } = req.params;
+
+    const { error, value } = weeklyHoursSchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    await getOwnedSaloon(id, req.user.userId, 'You can only change the hours of your own salon');
+
+    const weekly = await replaceWeeklyHours(id, value.hours);
+
+    logger.info(`Weekly hours of salon ID: ${id} updated by user ID: ${req.user.userId}`);
+    res.sendSuccess({ message: 'Opening hours updated successfully', weekly });
+});
+
+/**
+ * List the holidays and special hours of a saloon
+ */
+export const getSaloonHoursExceptions: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const { error, value } = hoursExceptionQuerySchema.validate(req.query);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    const from = value.from ? parseDateParam(value.from, 'From') : toDateString(new Date());
+    const to = value.to ? parseDateParam(value.to, 'To') : addDays(from, DEFAULT_EXCEPTION_DAYS);
+
+    if (to < from) {
+        throw new ValidationError('To must not be before from');
+    }
+
+    if (to > addDays(from, MAX_EXCEPTION_DAYS)) {
+        throw new ValidationError(`The range can span at most ${MAX_EXCEPTION_DAYS} days`);
+    }
+
+    await assertSaloonExists(id);
+
+    res.sendSuccess({ from, to, exceptions: await getHoursExceptions(id, from, to) });
+});
+
+/**
+ * Close a saloon or set special hours on a date (owner only)
+ */
+export const setSaloonHoursException: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { id } = req.params;
+    const date = parseDateParam(req.params.date, 'Date');
+
+    if (date < toDateString(new Date())) {
+        throw new ValidationError('Special hours cannot be set for past dates');
+    }
+
+    const { error, value } = hoursExceptionSchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    await getOwnedSaloon(id, req.user.userId, 'You can only change the hours of your own salon');
+
+    const exception = await setHoursException(id, date, value.intervals, value.reason || null);
+
+    logger.info(`Special hours for ${date} set on salon ID: ${id} by user ID: ${req.user.userId}`);
+    res.sendSuccess({ message: 'Special hours saved successfully', exception });
+});
+
+/**
+ * Remove the holiday or special hours on a date (owner only)
+ */
+export const deleteSaloonHoursException: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { id } = req.params;
+    const date = parseDateParam(req.params.date, 'Date');
+
+    await getOwnedSaloon(id, req.user.userId, 'You can only change the hours of your own salon');
+    await deleteHoursException(id, date);
+
+    logger.info(`Special hours for ${date} removed from salon ID: ${id} by user ID: ${req.user.userId}`);
+    res.sendSuccess({ message: 'Special hours removed, the weekly schedule applies again' });
+});
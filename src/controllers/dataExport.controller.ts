@@ -0,0 +1,83 @@
+import { Request, Response } from 'express';
+import { RequestHandler } from 'express';
+import fs from 'fs';
+import logger from '../utils/logger';
+import {
+    getDataExportFile,
+    getUserDataExport,
+    getUserDataExports,
+    requestDataExport
+} from '../services/dataExport.service';
+import {
+    asyncHandler,
+    NotFoundError,
+    ValidationError,
+    AuthenticationError
+} from '../utils/errors';
+
+const parseExportId = (value: string): number => {
+    const exportId = parseInt(value);
+    if (isNaN(exportId)) {
+        throw new ValidationError('Export ID must be a number');
+    }
+    return exportId;
+};
+
+/**
+ * Request a downloadable copy of the current user's personal data
+ */
+export const requestMyDataExport: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const dataExport = await requestDataExport(req.user.userId);
+
+    logger.info(`Data export requested by user ID: ${req.user.userId}`);
+    res.status(202).json({
+        status: true,
+        data: {
+            message: 'Your export is being prepared, we will email you when it is ready to download',
+            export: dataExport
+        }
+    });
+});
+
+/**
+ * List the personal data exports of the current user
+ */
+export const getMyDataExports: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    res.sendSuccess({ exports: await getUserDataExports(req.user.userId) });
+});
+
+/**
+ * Get the status of one personal data export
+ */
+export const getMyDataExport: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    res.sendSuccess(await getUserDataExport(req.user.userId, parseExportId(req.params.id)));
+});
+
+/**
+ * Download the archive of a completed personal data export
+ */
+export const downloadMyDataExport: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { filePath, downloadName } = await getDataExportFile(req.user.userId, parseExportId(req.params.id));
+
+    if (!fs.existsSync(filePath)) {
+        throw new NotFoundError('Export file is no longer available, please request a new one');
+    }
+
+    res.download(filePath, downloadName);
+});
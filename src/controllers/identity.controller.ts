@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { RequestHandler } from 'express';
+import logger from '../utils/logger';
+import { linkIdentitySchema } from '../validations';
+import { getOAuthProvider, getSupportedProviders } from '../services/oauth.service';
+import { getUserIdentities, linkIdentity, unlinkIdentity } from '../services/identity.service';
+import {
+    asyncHandler,
+    NotFoundError,
+    ValidationError,
+    AuthenticationError
+} from '../utils/errors';
+
+/**
+ * List the external identities linked to the current user
+ */
+export const getMyIdentities: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    res.sendSuccess({
+        identities: await getUserIdentities(req.user.userId),
+        supportedProviders: getSupportedProviders()
+    });
+});
+
+/**
+ * Link an external identity to the current user
+ */
+export const linkMyIdentity: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const provider = getOAuthProvider(req.params.provider);
+    if (!provider) {
+        throw new NotFoundError(`Sign-in with ${req.params.provider} is not supported`);
+    }
+
+    const { error } = linkIdentitySchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    const profile = await provider.verifyToken(req.body.token);
+    if (!profile) {
+        throw new AuthenticationError(`Invalid ${provider.displayName} token`);
+    }
+
+    await linkIdentity(req.user.userId, profile);
+
+    logger.info(`${provider.displayName} identity linked to user ID: ${req.user.userId}`);
+    res.status(201).json({
+        status: true,
+        data: {
+            message: `${provider.displayName} account linked successfully`,
+            provider: provider.name,
+            email: profile.email
+        }
+    });
+});
+
+/**
+ * Unlink an external identity from the current user
+ */
+export const unlinkMyIdentity: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const provider = getOAuthProvider(req.params.provider);
+    if (!provider) {
+        throw new NotFoundError(`Sign-in with ${req.params.provider} is not supported`);
+    }
+
+    await unlinkIdentity(req.user.userId, provider.name);
+
+    res.sendSuccess({ message: `${provider.displayName} account unlinked successfully` });
+});
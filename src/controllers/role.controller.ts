@@ -0,0 +1,123 @@
+import { Request, Response } from 'express';
+import pool from '../config/db';
+import { RequestHandler } from 'express';
+import { rolePermissionsSchema, twoFactorPolicySchema } from '../validations';
+import { getAllPermissions, getRolePermissions, setRolePermissions } from '../services/permission.service';
+import { recordAuditEvent } from '../services/audit.service';
+import { AuditEventType } from '../models/auditEvent.model';
+import logger, { securityLogger } from '../utils/logger';
+import {
+    asyncHandler,
+    NotFoundError,
+    ValidationError,
+    ConflictError
+} from '../utils/errors';
+
+// Get all roles with their permissions and security policies
+export const getAllRoles: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    const [rows]: any = await pool.query('SELECT id, name, require_two_factor, created_at, updated_at FROM user_roles ORDER BY id');
+
+    const roles = await Promise.all(
+        rows.map(async (role: any) => ({
+            ...role,
+            permissions: await getRolePermissions(role.id)
+        }))
+    );
+
+    res.sendSuccess(roles);
+});
+
+// Get every permission that can be granted to a role
+export const getPermissions: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    res.sendSuccess(await getAllPermissions());
+});
+
+// Get the permissions of a single role
+export const getPermissionsOfRole: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const [rows]: any = await pool.query('SELECT id, name FROM user_roles WHERE id = ?', [id]);
+    if (!rows || rows.length === 0) {
+        throw new NotFoundError(`Role with ID ${id} not found`);
+    }
+
+    res.sendSuccess({
+        ...rows[0],
+        permissions: await getRolePermissions(rows[0].id)
+    });
+});
+
+// Replace the permissions of a role
+export const updateRolePermissions: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const { error } = rolePermissionsSchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    const { permissions } = req.body;
+
+    // Admins must not be able to lock themselves out of permission management
+    if (req.user?.roleId === parseInt(id) && !permissions.includes('role:update')) {
+        throw new ConflictError('You cannot remove role:update from your own role');
+    }
+
+    const previous = await getRolePermissions(parseInt(id));
+    const updated = await setRolePermissions(parseInt(id), permissions, req.user?.userId);
+
+    await recordAuditEvent(req, {
+        type: AuditEventType.ROLE_PERMISSIONS_CHANGED,
+        targetType: 'role',
+        targetId: id,
+        changes: { permissions: { from: previous, to: updated } },
+        metadata: {
+            granted: updated.filter(name => !previous.includes(name)),
+            revoked: previous.filter(name => !updated.includes(name))
+        }
+    });
+
+    logger.info(`Permissions of role ID ${id} updated by user ID: ${req.user?.userId}`);
+    res.sendSuccess({
+        message: 'Role permissions updated successfully',
+        roleId: parseInt(id),
+        permissions: updated
+    });
+});
+
+// Require or stop requiring two-factor authentication for a role
+export const updateTwoFactorPolicy: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const { error } = twoFactorPolicySchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    const { required } = req.body;
+
+    const [result]: any = await pool.query(
+        'UPDATE user_roles SET require_two_factor = ? WHERE id = ?',
+        [required, id]
+    );
+
+    if (result.affectedRows === 0) {
+        throw new NotFoundError(`Role with ID ${id} not found`);
+    }
+
+    await recordAuditEvent(req, {
+        type: AuditEventType.ROLE_TWO_FACTOR_POLICY_CHANGED,
+        targetType: 'role',
+        targetId: id,
+        metadata: { required }
+    });
+
+    securityLogger.info('Two-factor policy changed', { roleId: parseInt(id), required, changedBy: req.user?.userId });
+    logger.info(`Two-factor requirement for role ID ${id} set to ${required} by user ID: ${req.user?.userId}`);
+
+    res.sendSuccess({
+        message: required
+            ? 'Two-factor authentication is now required for this role, users without it will set it up at their next login'
+            : 'Two-factor authentication is now optional for this role'
+    });
+});
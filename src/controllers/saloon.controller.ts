@@ -3,6 +3,12 @@ import { RequestHandler } from 'express';
 import pool from '../config/db';
 import logger from '../utils/logger';
 import { createSaloonSchema, createSaloonServiceSchema, updateSaloonServiceSchema } from '../validations';
+import { recordAuditEvent } from '../services/audit.service';
+import { getOwnedSaloon, getSaloonsOfOwner } from '../services/saloon.service';
+import { addDays, parseDateString, toDateString } from '../services/businessHours.service';
+import { formatSlot, formatTime, getBookedServices, getDayAvailability, getRangeAvailability } from '../services/availability.service';
+import { AuditEventType } from '../models/auditEvent.model';
+import { NoShowEnforcement } from '../models/saloon.model';
 import {
     asyncHandler,
     NotFoundError,
@@ -12,27 +18,30 @@ import {
     DatabaseError
 } from '../utils/errors';
 
+// Days shown by the availability calendar when no end date is given, and the most it can show at once
+const DEFAULT_CALENDAR_DAYS = 14;
+const MAX_CALENDAR_DAYS = parseInt(process.env.AVAILABILITY_CALENDAR_MAX_DAYS || '31');
+
 /**
  * Create a new saloon
  */
 export const createSaloon: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
-    const { name, description, address, phone, email, website, opening_time, closing_time, latitude, longitude } = req.body;
+    const {
+        name, description, address, phone, email, website, opening_time, closing_time, latitude, longitude, parallel_chairs,
+        reschedule_requires_confirmation, auto_confirm_bookings, cancellation_cutoff_hours, no_show_threshold, no_show_enforcement
+    } = req.body;
 
     if (!req.user) {
         throw new AuthorizationError('Authentication required');
     }
 
-    // Only owners can create saloons
-    if (req.user.roleId !== 2) { // role_id 2 is for salon owners
-        throw new AuthorizationError('Only salon owners can create saloons');
-    }
-
     const ownerId = req.user.userId;
     logger.info(`Creating new salon for owner ID: ${ownerId}`);
 
     // Validate salon data
     const { error } = createSaloonSchema.validate({
-        name, description, address, phone, email, website, opening_time, closing_time, latitude, longitude
+        name, description, address, phone, email, website, opening_time, closing_time, latitude, longitude, parallel_chairs,
+        reschedule_requires_confirmation, auto_confirm_bookings, cancellation_cutoff_hours, no_show_threshold, no_show_enforcement
     });
 
     if (error) {
@@ -40,14 +49,14 @@ export const createSaloon: RequestHandler = asyncHandler(async (req: Request, re
     }
 
     try {
-        // Check if owner already has a salon
+        // Owners can run several salons, but not register the same branch twice
         const [existingSaloon]: any = await pool.query(
-            'SELECT id FROM saloons WHERE owner_id = ?',
-            [ownerId]
+            'SELECT id FROM saloons WHERE owner_id = ? AND name = ? AND address = ?',
+            [ownerId, name, address]
         );
 
         if (existingSaloon && existingSaloon.length > 0) {
-            throw new ConflictError('You already have a registered salon');
+            throw new ConflictError('You already have a salon with this name at this address');
         }
 
         // Use default business hours if not provided
@@ -55,8 +64,12 @@ export const createSaloon: RequestHandler = asyncHandler(async (req: Request, re
         const closingTime = closing_time || '17:00';
 
         const [result]: any = await pool.query(
-            'INSERT INTO saloons (name, description, address, phone, email, website, owner_id, opening_time, closing_time, latitude, longitude) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-            [name, description || null, address, phone || null, email || null, website || null, ownerId, openingTime, closingTime, latitude || null, longitude || null]
+            `INSERT INTO saloons (name, description, address, phone, email, website, owner_id, opening_time, closing_time, latitude, longitude, parallel_chairs,
+                reschedule_requires_confirmation, auto_confirm_bookings, cancellation_cutoff_hours, no_show_threshold, no_show_enforcement)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [name, description || null, address, phone || null, email || null, website || null, ownerId, openingTime, closingTime, latitude || null, longitude || null, parallel_chairs || 1,
+                reschedule_requires_confirmation ?? true, auto_confirm_bookings ?? false, cancellation_cutoff_hours || 0, no_show_threshold || null,
+                no_show_enforcement || NoShowEnforcement.REQUIRE_APPROVAL]
         );
 
         logger.info(`Salon created successfully, ID: ${result.insertId}`);
@@ -90,7 +103,7 @@ export const getAllSaloons: RequestHandler = asyncHandler(async (req: Request, r
 
     logger.info(`Fetching salons with pagination: page=${page}, limit=${limit}${search ? ', search=' + search : ''}`);
 
-    let query = 'SELECT id, name, description, address, phone, email, website, owner_id, opening_time, closing_time, latitude, longitude FROM saloons';
+    let query = 'SELECT id, name, description, address, phone, email, website, owner_id, opening_time, closing_time, latitude, longitude, parallel_chairs, reschedule_requires_confirmation, auto_confirm_bookings, cancellation_cutoff_hours, no_show_threshold, no_show_enforcement FROM saloons';
     const params = [];
 
     // Add search condition if search parameter is provided
@@ -146,7 +159,7 @@ export const getSaloonById: RequestHandler = asyncHandler(async (req: Request, r
     try {
         // Get saloon details
         const [saloon]: any = await pool.query(
-            'SELECT id, name, description, address, phone, email, website, owner_id, opening_time, closing_time, latitude, longitude FROM saloons WHERE id = ?',
+            'SELECT id, name, description, address, phone, email, website, owner_id, opening_time, closing_time, latitude, longitude, parallel_chairs, reschedule_requires_confirmation, auto_confirm_bookings, cancellation_cutoff_hours, no_show_threshold, no_show_enforcement FROM saloons WHERE id = ?',
             [id]
         );
 
@@ -156,7 +169,7 @@ export const getSaloonById: RequestHandler = asyncHandler(async (req: Request, r
 
         // Get services for this saloon
         const [services]: any = await pool.query(
-            'SELECT id, name, description, price, duration FROM saloon_services WHERE saloon_id = ?',
+            'SELECT id, name, description, price, duration, buffer_minutes FROM saloon_services WHERE saloon_id = ?',
             [id]
         );
 
@@ -179,38 +192,22 @@ export const getSaloonById: RequestHandler = asyncHandler(async (req: Request, r
 });
 
 /**
- * Get a saloon by owner's user ID
+ * Get the saloons of an owner by the owner's user ID
  */
 export const getSaloonByOwnerId: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
     const { userId } = req.params;
-    logger.info(`Fetching salon for owner with ID: ${userId}`);
+    logger.info(`Fetching salons for owner with ID: ${userId}`);
 
     try {
-        // Get saloon details by owner ID
-        const [saloon]: any = await pool.query(
-            'SELECT id, name, description, address, phone, email, website, owner_id, opening_time, closing_time, latitude, longitude FROM saloons WHERE owner_id = ?',
-            [userId]
-        );
+        const saloons = await getSaloonsOfOwner(userId);
 
-        if (!saloon || saloon.length === 0) {
+        if (saloons.length === 0) {
             throw new NotFoundError(`No salon found for owner`);
         }
 
-        // Get services for this saloon
-        const [services]: any = await pool.query(
-            'SELECT id, name, description, price, duration FROM saloon_services WHERE saloon_id = ?',
-            [saloon[0].id]
-        );
-
-        // Combine data
-        const saloonData = {
-            ...saloon[0],
-            services: services || []
-        };
-
-        res.sendSuccess(saloonData);
+        res.sendSuccess({ saloons });
     } catch (error) {
-        logger.error(`Error fetching salon for owner with ID ${userId}:`, error);
+        logger.error(`Error fetching salons for owner with ID ${userId}:`, error);
 
         if (error instanceof NotFoundError) {
             throw error;
@@ -220,12 +217,30 @@ export const getSaloonByOwnerId: RequestHandler = asyncHandler(async (req: Reque
     }
 });
 
+/**
+ * Get the saloons of the current owner
+ */
+export const getMySaloons: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+    }
+
+    logger.info(`Fetching salons of owner ID: ${req.user.userId}`);
+
+    try {
+        res.sendSuccess({ saloons: await getSaloonsOfOwner(req.user.userId) });
+    } catch (error) {
+        logger.error(`Error fetching salons of owner ID ${req.user.userId}:`, error);
+        throw new DatabaseError('Failed to fetch salons');
+    }
+});
+
 /**
  * Add a service to a saloon
  */
 export const addServiceToSaloon: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
-    const { name, description, price, duration } = req.body;
+    const { name, description, price, duration, buffer_minutes } = req.body;
 
     if (!req.user) {
         throw new AuthorizationError('Authentication required');
@@ -235,7 +250,7 @@ export const addServiceToSaloon: RequestHandler = asyncHandler(async (req: Reque
 
     // Validate the service data
     const { error } = createSaloonServiceSchema.validate({
-        name, description, price, duration
+        name, description, price, duration, buffer_minutes
     });
 
     if (error) {
@@ -243,25 +258,13 @@ export const addServiceToSaloon: RequestHandler = asyncHandler(async (req: Reque
     }
 
     try {
-        // Check if salon exists
-        const [saloon]: any = await pool.query(
-            'SELECT owner_id FROM saloons WHERE id = ?',
-            [id]
-        );
-
-        if (!saloon || saloon.length === 0) {
-            throw new NotFoundError(`Salon with ID ${id} not found`);
-        }
-
-        // Check if user is the owner of this salon
-        if (saloon[0].owner_id !== req.user.userId) {
-            throw new AuthorizationError('You can only add services to your own salon');
-        }
+        // Check that the salon exists and belongs to the user
+        await getOwnedSaloon(id, req.user.userId, 'You can only add services to your own salon');
 
         // Add service
         const [result]: any = await pool.query(
-            'INSERT INTO saloon_services (saloon_id, name, description, price, duration) VALUES (?, ?, ?, ?, ?)',
-            [id, name, description || null, price, duration || null]
+            'INSERT INTO saloon_services (saloon_id, name, description, price, duration, buffer_minutes) VALUES (?, ?, ?, ?, ?, ?)',
+            [id, name, description || null, price, duration || null, buffer_minutes || 0]
         );
 
         logger.info(`Service added successfully to salon ID: ${id}, service ID: ${result.insertId}`);
@@ -304,7 +307,7 @@ export const getSaloonServices: RequestHandler = asyncHandler(async (req: Reques
 
         // Get services for this saloon
         const [services]: any = await pool.query(
-            'SELECT id, name, description, price, duration, created_at FROM saloon_services WHERE saloon_id = ?',
+            'SELECT id, name, description, price, duration, buffer_minutes, created_at FROM saloon_services WHERE saloon_id = ?',
             [id]
         );
 
@@ -323,151 +326,185 @@ export const getSaloonServices: RequestHandler = asyncHandler(async (req: Reques
     }
 });
 
+/**
+ * Helper function to read the service and stylist filters of the availability endpoints
+ */
+function parseAvailabilityFilters(query: Request['query']): { serviceIds: number[]; staffId?: number } {
+    const { service_id, service_ids, staff_id } = query;
+
+    const staffId = staff_id ? parseInt(staff_id as string) : undefined;
+    if (staffId !== undefined && isNaN(staffId)) {
+        throw new ValidationError('Staff ID must be a number');
+    }
+
+    // service_ids=1,2 or repeated service_ids, service_id is still accepted for a single service
+    const serviceIds = [...new Set(
+        ([] as any[]).concat(service_ids ?? [], service_id ?? [])
+            .flatMap((value) => String(value).split(','))
+            .filter((value) => value.trim() !== '')
+            .map((value) => Number(value))
+    )];
+    if (serviceIds.some((serviceId) => !Number.isInteger(serviceId) || serviceId <= 0)) {
+        throw new ValidationError('Service IDs must be a comma-separated list of numbers');
+    }
+
+    return { serviceIds, staffId };
+}
+
 /**
  * Get saloon's available time slots for booking
  */
 export const getSaloonAvailability: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
-    const { date, service_id } = req.query;
+    const { date } = req.query;
+    const { serviceIds, staffId } = parseAvailabilityFilters(req.query);
 
     // Default to today's date if not provided
-    const targetDate = date ? new Date(date as string) : new Date();
+    const dateString = date ? (date as string) : toDateString(new Date());
     // Ensure date is valid
-    if (isNaN(targetDate.getTime())) {
+    const targetDate = parseDateString(dateString);
+    if (!targetDate) {
         throw new ValidationError('Invalid date format. Please use YYYY-MM-DD');
     }
 
-    logger.info(`Fetching availability for salon ID: ${id}, date: ${targetDate.toISOString().split('T')[0]}`);
+    logger.info(`Fetching availability for salon ID: ${id}, date: ${dateString}`);
 
     try {
-        // First check if the saloon exists and get its business hours
-        const [saloon]: any = await pool.query(
-            'SELECT id, name, opening_time, closing_time FROM saloons WHERE id = ?',
-            [id]
-        );
+        // First check if the saloon exists
+        const [saloon]: any = await pool.query('SELECT id, name FROM saloons WHERE id = ?', [id]);
 
         if (!saloon || saloon.length === 0) {
             throw new NotFoundError(`Salon with ID ${id} not found`);
         }
 
-        // Parse business hours from the database
-        const openingTime = saloon[0].opening_time;
-        const closingTime = saloon[0].closing_time;
-
-        // Extract hours and minutes
-        const openingHour = parseInt(openingTime.split(':')[0]);
-        const openingMinute = parseInt(openingTime.split(':')[1]);
-        const closingHour = parseInt(closingTime.split(':')[0]);
-        const closingMinute = parseInt(closingTime.split(':')[1]);
+        // The services are performed one after another, so the whole sequence and its buffers have to fit
+        const { services, duration } = await getBookedServices(id, serviceIds);
 
-        // If service_id is provided, check if it's valid
-        let service;
-        let serviceDuration = 60; // Default duration in minutes
-        if (service_id) {
-            const [serviceResult]: any = await pool.query(
-                'SELECT id, name, duration FROM saloon_services WHERE id = ? AND saloon_id = ?',
-                [service_id, id]
-            );
+        // Salons with staff are booked per stylist, the others by the number of parallel chairs
+        const { openingHours, staff, slots } = await getDayAvailability(id, dateString, duration, {
+            serviceIds,
+            staffId
+        });
 
-            if (!serviceResult || serviceResult.length === 0) {
-                throw new NotFoundError(`Service with ID ${service_id} not found in this salon`);
-            }
+        if (staffId !== undefined && (!staff || staff.length === 0)) {
+            throw new NotFoundError(`Stylist with ID ${staffId} not found in this salon or does not perform all selected services`);
+        }
 
-            service = serviceResult[0];
-            // Use the service's duration or default to 60 minutes
-            serviceDuration = service.duration || 60;
-        }
-
-        // Format the date for SQL query
-        const dateString = targetDate.toISOString().split('T')[0];
-
-        // Get all existing appointments for this saloon and date
-        let query = `
-      SELECT appointment_date, 
-             TIMESTAMPDIFF(MINUTE, appointment_date, 
-                          DATE_ADD(appointment_date, INTERVAL 
-                            (SELECT COALESCE(ss.duration, 60) 
-                             FROM saloon_services ss 
-                             WHERE ss.id = a.service_id) MINUTE)) AS duration
-      FROM appointments a
-      WHERE a.saloon_id = ? 
-        AND DATE(a.appointment_date) = ? 
-        AND a.status IN ('pending', 'confirmed')
-    `;
+        const availableSlots = slots.map((slot) => formatSlot(slot));
 
-        const queryParams = [id, dateString];
+        res.sendSuccess({
+            saloon_id: parseInt(id),
+            saloon_name: saloon[0].name,
+            service_id: services.length === 1 ? services[0].id : null,
+            service_name: services.length === 1 ? services[0].name : null,
+            service_ids: serviceIds,
+            services: services.map((service) => ({
+                id: service.id,
+                name: service.name,
+                duration: service.duration,
+                buffer_minutes: service.buffer_minutes
+            })),
+            total_duration: duration,
+            staff_id: staffId ?? null,
+            date: dateString,
+            closed: openingHours.closed,
+            closure_reason: openingHours.reason,
+            business_hours: openingHours.intervals.map((interval) => ({
+                opening_time: formatTime(interval.start),
+                closing_time: formatTime(interval.end)
+            })),
+            available_slots: availableSlots,
+            staff: staff
+                ? staff.map((member) => ({
+                    id: member.id,
+                    name: member.name,
+                    available_slots: slots
+                        .filter((slot) => slot.staffIds?.includes(member.id))
+                        .map((slot) => ({ time: slot.time.toISOString(), formatted_time: formatTime(slot.time) }))
+                }))
+                : null
+        });
+    } catch (error) {
+        logger.error(`Error fetching availability for salon ID ${id}:`, error);
 
-        // If specific service_id is provided, only consider that service's duration
-        if (service_id) {
-            query += ' AND a.service_id = ?';
-            queryParams.push(service_id as string);
+        if (error instanceof NotFoundError || error instanceof ValidationError) {
+            throw error;
         }
 
-        query += ' ORDER BY a.appointment_date';
+        throw new DatabaseError('Failed to fetch salon availability');
+    }
+});
 
-        const [appointments]: any = await pool.query(query, queryParams);
+/**
+ * Get a saloon's availability for a range of days, e.g. for a date picker
+ */
+export const getSaloonAvailabilityCalendar: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { from: fromParam, to: toParam, include_slots } = req.query;
+    const { serviceIds, staffId } = parseAvailabilityFilters(req.query);
+    const includeSlots = include_slots === 'true';
 
-        // Generate available time slots
-        const availableSlots = [];
-        const slotInterval = 30; // 30-minute intervals
+    const from = fromParam ? fromParam as string : toDateString(new Date());
+    if (!parseDateString(from)) {
+        throw new ValidationError('From must be a valid date in YYYY-MM-DD format');
+    }
 
-        // Generate time slots for the business day using salon's business hours
-        for (let hour = openingHour; hour <= closingHour; hour++) {
-            // For each hour, determine the minute intervals
-            let startMinute = 0;
-            let endMinute = 59;
+    const to = toParam ? toParam as string : addDays(from, DEFAULT_CALENDAR_DAYS - 1);
+    if (!parseDateString(to)) {
+        throw new ValidationError('To must be a valid date in YYYY-MM-DD format');
+    }
 
-            // Adjust for opening hour
-            if (hour === openingHour) {
-                startMinute = openingMinute;
-            }
+    if (to < from) {
+        throw new ValidationError('To must not be before from');
+    }
 
-            // Adjust for closing hour
-            if (hour === closingHour) {
-                endMinute = closingMinute - 1; // -1 because we don't want to include the exact closing time
+    if (to > addDays(from, MAX_CALENDAR_DAYS - 1)) {
+        throw new ValidationError(`The range can cover at most ${MAX_CALENDAR_DAYS} days`);
+    }
 
-                // Skip this hour if we're already past the closing minute
-                if (startMinute > endMinute) continue;
-            }
+    logger.info(`Fetching availability calendar for salon ID: ${id}, from: ${from}, to: ${to}`);
 
-            // Round up to the nearest slot interval
-            startMinute = Math.ceil(startMinute / slotInterval) * slotInterval;
+    try {
+        const [saloon]: any = await pool.query('SELECT id, name FROM saloons WHERE id = ?', [id]);
+
+        if (!saloon || saloon.length === 0) {
+            throw new NotFoundError(`Salon with ID ${id} not found`);
+        }
 
-            // Generate slots for this hour
-            for (let minute = startMinute; minute <= endMinute; minute += slotInterval) {
-                const slotDate = new Date(targetDate);
-                slotDate.setHours(hour, minute, 0, 0);
+        const { services, duration } = await getBookedServices(id, serviceIds);
 
-                // Skip time slots in the past (for today)
-                const now = new Date();
-                if (isSameDay(slotDate, now) && slotDate < now) {
-                    continue;
-                }
+        // Opening hours, staff and appointments are loaded once for the whole range
+        const days = await getRangeAvailability(id, from, to, duration, { serviceIds, staffId });
 
-                // Check if the time slot is available (doesn't overlap with existing appointments)
-                if (isTimeSlotAvailable(slotDate, serviceDuration, appointments)) {
-                    availableSlots.push({
-                        time: slotDate.toISOString(),
-                        formatted_time: formatTime(slotDate)
-                    });
-                }
-            }
+        if (staffId !== undefined && days.some(({ staff }) => !staff || staff.length === 0)) {
+            throw new NotFoundError(`Stylist with ID ${staffId} not found in this salon or does not perform all selected services`);
         }
 
         res.sendSuccess({
             saloon_id: parseInt(id),
             saloon_name: saloon[0].name,
-            service_id: service_id ? parseInt(service_id as string) : null,
-            service_name: service ? service.name : null,
-            date: dateString,
-            business_hours: {
-                opening_time: formatTime(new Date(new Date(targetDate).setHours(openingHour, openingMinute))),
-                closing_time: formatTime(new Date(new Date(targetDate).setHours(closingHour, closingMinute)))
-            },
-            available_slots: availableSlots
+            service_ids: serviceIds,
+            services: services.map((service) => ({
+                id: service.id,
+                name: service.name,
+                duration: service.duration,
+                buffer_minutes: service.buffer_minutes
+            })),
+            total_duration: duration,
+            staff_id: staffId ?? null,
+            from,
+            to,
+            days: days.map(({ openingHours, slots }) => ({
+                date: openingHours.date,
+                closed: openingHours.closed,
+                closure_reason: openingHours.reason,
+                first_available_slot: slots.length > 0 ? formatSlot(slots[0]) : null,
+                available_slots_count: slots.length,
+                ...(includeSlots ? { available_slots: slots.map((slot) => formatSlot(slot)) } : {})
+            }))
         });
     } catch (error) {
-        logger.error(`Error fetching availability for salon ID ${id}:`, error);
+        logger.error(`Error fetching availability calendar for salon ID ${id}:`, error);
 
         if (error instanceof NotFoundError || error instanceof ValidationError) {
             throw error;
@@ -477,68 +514,15 @@ export const getSaloonAvailability: RequestHandler = asyncHandler(async (req: Re
     }
 });
 
-/**
- * Helper function to check if a time slot is available
- */
-function isTimeSlotAvailable(
-    slotTime: Date,
-    slotDuration: number,
-    existingAppointments: any[]
-): boolean {
-    // Calculate the end time for this slot
-    const slotEndTime = new Date(slotTime);
-    slotEndTime.setMinutes(slotEndTime.getMinutes() + slotDuration);
-
-    // Check against all existing appointments
-    for (const appointment of existingAppointments) {
-        const appointmentTime = new Date(appointment.appointment_date);
-        const appointmentEndTime = new Date(appointmentTime);
-        appointmentEndTime.setMinutes(appointmentEndTime.getMinutes() + appointment.duration);
-
-        // If there's an overlap between the slot and an existing appointment
-        if (
-            (slotTime >= appointmentTime && slotTime < appointmentEndTime) ||
-            (slotEndTime > appointmentTime && slotEndTime <= appointmentEndTime) ||
-            (slotTime <= appointmentTime && slotEndTime >= appointmentEndTime)
-        ) {
-            return false;
-        }
-    }
-
-    return true;
-}
-
-/**
- * Helper function to format time for display
- */
-function formatTime(date: Date): string {
-    let hours = date.getHours();
-    const minutes = date.getMinutes();
-    const ampm = hours >= 12 ? 'PM' : 'AM';
-
-    hours = hours % 12;
-    hours = hours ? hours : 12; // Convert 0 to 12
-
-    const formattedMinutes = minutes < 10 ? '0' + minutes : minutes;
-
-    return `${hours}:${formattedMinutes} ${ampm}`;
-}
-
-/**
- * Helper function to check if two dates are on the same day
- */
-function isSameDay(date1: Date, date2: Date): boolean {
-    return date1.getFullYear() === date2.getFullYear() &&
-        date1.getMonth() === date2.getMonth() &&
-        date1.getDate() === date2.getDate();
-}
-
 /**
  * Update a saloon (owner only)
  */
 export const updateSaloon: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
-    const { name, description, address, phone, email, website, opening_time, closing_time, latitude, longitude } = req.body;
+    const {
+        name, description, address, phone, email, website, opening_time, closing_time, latitude, longitude, parallel_chairs,
+        reschedule_requires_confirmation, auto_confirm_bookings, cancellation_cutoff_hours, no_show_threshold, no_show_enforcement
+    } = req.body;
 
     if (!req.user) {
         throw new AuthorizationError('Authentication required');
@@ -547,20 +531,8 @@ export const updateSaloon: RequestHandler = asyncHandler(async (req: Request, re
     logger.info(`Updating salon with ID: ${id}`);
 
     try {
-        // Check if salon exists and if the user is the owner
-        const [saloon]: any = await pool.query(
-            'SELECT owner_id FROM saloons WHERE id = ?',
-            [id]
-        );
-
-        if (!saloon || saloon.length === 0) {
-            throw new NotFoundError(`Salon with ID ${id} not found`);
-        }
-
-        // Verify ownership
-        if (saloon[0].owner_id !== req.user.userId) {
-            throw new AuthorizationError('You can only update your own salon');
-        }
+        // Check that the salon exists and belongs to the user
+        await getOwnedSaloon(id, req.user.userId, 'You can only update your own salon');
 
         // Validate update data if provided
         if (opening_time || closing_time) {
@@ -586,6 +558,34 @@ export const updateSaloon: RequestHandler = asyncHandler(async (req: Request, re
             }
         }
 
+        if (parallel_chairs !== undefined &&
+            (!Number.isInteger(parallel_chairs) || parallel_chairs < 1 || parallel_chairs > 50)) {
+            throw new ValidationError('Parallel chairs must be between 1 and 50');
+        }
+
+        if (reschedule_requires_confirmation !== undefined && typeof reschedule_requires_confirmation !== 'boolean') {
+            throw new ValidationError('Reschedule requires confirmation must be true or false');
+        }
+
+        if (auto_confirm_bookings !== undefined && typeof auto_confirm_bookings !== 'boolean') {
+            throw new ValidationError('Auto confirm bookings must be true or false');
+        }
+
+        if (cancellation_cutoff_hours !== undefined &&
+            (!Number.isInteger(cancellation_cutoff_hours) || cancellation_cutoff_hours < 0 || cancellation_cutoff_hours > 168)) {
+            throw new ValidationError('Cancellation cutoff must be between 0 and 168 hours');
+        }
+
+        if (no_show_threshold !== undefined && no_show_threshold !== null &&
+            (!Number.isInteger(no_show_threshold) || no_show_threshold < 1 || no_show_threshold > 20)) {
+            throw new ValidationError('No-show threshold must be between 1 and 20');
+        }
+
+        if (no_show_enforcement !== undefined &&
+            !Object.values(NoShowEnforcement).includes(no_show_enforcement)) {
+            throw new ValidationError(`No-show enforcement must be one of: ${Object.values(NoShowEnforcement).join(', ')}`);
+        }
+
         // Build dynamic update query
         let updateQuery = 'UPDATE saloons SET ';
         const updateValues = [];
@@ -640,6 +640,36 @@ export const updateSaloon: RequestHandler = asyncHandler(async (req: Request, re
             updateValues.push(longitude || null);
         }
 
+        if (parallel_chairs !== undefined) {
+            updateQuery += 'parallel_chairs = ?, ';
+            updateValues.push(parallel_chairs);
+        }
+
+        if (reschedule_requires_confirmation !== undefined) {
+            updateQuery += 'reschedule_requires_confirmation = ?, ';
+            updateValues.push(reschedule_requires_confirmation);
+        }
+
+        if (auto_confirm_bookings !== undefined) {
+            updateQuery += 'auto_confirm_bookings = ?, ';
+            updateValues.push(auto_confirm_bookings);
+        }
+
+        if (cancellation_cutoff_hours !== undefined) {
+            updateQuery += 'cancellation_cutoff_hours = ?, ';
+            updateValues.push(cancellation_cutoff_hours);
+        }
+
+        if (no_show_threshold !== undefined) {
+            updateQuery += 'no_show_threshold = ?, ';
+            updateValues.push(no_show_threshold);
+        }
+
+        if (no_show_enforcement !== undefined) {
+            updateQuery += 'no_show_enforcement = ?, ';
+            updateValues.push(no_show_enforcement);
+        }
+
         // Check if there are any fields to update
         if (updateValues.length === 0) {
             throw new ValidationError('At least one field must be provided for update');
@@ -689,25 +719,24 @@ export const deleteSaloon: RequestHandler = asyncHandler(async (req: Request, re
     logger.info(`Attempting to delete salon with ID: ${id}`);
 
     try {
-        // Check if salon exists and if the user is the owner
-        const [saloon]: any = await pool.query(
-            'SELECT owner_id FROM saloons WHERE id = ?',
-            [id]
-        );
-
-        if (!saloon || saloon.length === 0) {
-            throw new NotFoundError(`Salon with ID ${id} not found`);
-        }
-
-        // Verify ownership
-        if (saloon[0].owner_id !== req.user.userId) {
-            throw new AuthorizationError('You can only delete your own salon');
-        }
+        // Check that the salon exists and belongs to the user
+        const saloon = await getOwnedSaloon(id, req.user.userId, 'You can only delete your own salon');
 
         // Delete the salon (cascade will handle related services)
         const [result]: any = await pool.query('DELETE FROM saloons WHERE id = ?', [id]);
 
         if (result.affectedRows > 0) {
+            await recordAuditEvent(req, {
+                type: AuditEventType.SALOON_DELETED,
+                targetType: 'saloon',
+                targetId: id,
+                changes: {
+                    name: { from: saloon.name, to: null },
+                    address: { from: saloon.address, to: null }
+                },
+                metadata: { ownerId: saloon.owner_id }
+            });
+
             logger.info(`Salon with ID ${id} deleted successfully`);
             res.sendSuccess({
                 message: 'Salon deleted successfully'
@@ -748,7 +777,7 @@ export const getNearbySaloons: RequestHandler = asyncHandler(async (req: Request
 
     // Haversine formula in SQL (distance in km)
     const query = `
-        SELECT id, name, description, address, phone, email, website, owner_id, opening_time, closing_time, latitude, longitude,
+        SELECT id, name, description, address, phone, email, website, owner_id, opening_time, closing_time, latitude, longitude, parallel_chairs, reschedule_requires_confirmation, auto_confirm_bookings, cancellation_cutoff_hours, no_show_threshold, no_show_enforcement,
             (6371 * acos(
                 cos(radians(?)) * cos(radians(latitude)) *
                 cos(radians(longitude) - radians(?)) +
@@ -775,7 +804,7 @@ export const getNearbySaloons: RequestHandler = asyncHandler(async (req: Request
  */
 export const updateSaloonService: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
     const { id, serviceId } = req.params;
-    const { name, description, price, duration } = req.body;
+    const { name, description, price, duration, buffer_minutes } = req.body;
 
     if (!req.user) {
         throw new AuthorizationError('Authentication required');
@@ -785,7 +814,7 @@ export const updateSaloonService: RequestHandler = asyncHandler(async (req: Requ
 
     // Validate the service data
     const { error } = updateSaloonServiceSchema.validate({
-        name, description, price, duration
+        name, description, price, duration, buffer_minutes
     });
 
     if (error) {
@@ -793,20 +822,8 @@ export const updateSaloonService: RequestHandler = asyncHandler(async (req: Requ
     }
 
     try {
-        // Check if salon exists and user owns it
-        const [saloon]: any = await pool.query(
-            'SELECT owner_id FROM saloons WHERE id = ?',
-            [id]
-        );
-
-        if (!saloon || saloon.length === 0) {
-            throw new NotFoundError(`Salon with ID ${id} not found`);
-        }
-
-        // Check if user is the owner of this salon
-        if (saloon[0].owner_id !== req.user.userId) {
-            throw new AuthorizationError('You can only update services in your own salon');
-        }
+        // Check that the salon exists and belongs to the user
+        await getOwnedSaloon(id, req.user.userId, 'You can only update services in your own salon');
 
         // Check if service exists and belongs to this salon
         const [service]: any = await pool.query(
@@ -842,6 +859,11 @@ export const updateSaloonService: RequestHandler = asyncHandler(async (req: Requ
             updateValues.push(duration || null);
         }
 
+        if (buffer_minutes !== undefined) {
+            updateQuery += 'buffer_minutes = ?, ';
+            updateValues.push(buffer_minutes);
+        }
+
         // Remove trailing comma and space
         updateQuery = updateQuery.slice(0, -2);
 
@@ -884,24 +906,12 @@ export const deleteSaloonService: RequestHandler = asyncHandler(async (req: Requ
     logger.info(`Deleting service ID: ${serviceId} from salon ID: ${id}`);
 
     try {
-        // Check if salon exists and user owns it
-        const [saloon]: any = await pool.query(
-            'SELECT owner_id FROM saloons WHERE id = ?',
-            [id]
-        );
-
-        if (!saloon || saloon.length === 0) {
-            throw new NotFoundError(`Salon with ID ${id} not found`);
-        }
-
-        // Check if user is the owner of this salon
-        if (saloon[0].owner_id !== req.user.userId) {
-            throw new AuthorizationError('You can only delete services from your own salon');
-        }
+        // Check that the salon exists and belongs to the user
+        await getOwnedSaloon(id, req.user.userId, 'You can only delete services from your own salon');
 
         // Check if service exists and belongs to this salon
         const [service]: any = await pool.query(
-            'SELECT id FROM saloon_services WHERE id = ? AND saloon_id = ?',
+            'SELECT id, name, price, duration FROM saloon_services WHERE id = ? AND saloon_id = ?',
             [serviceId, id]
         );
 
@@ -926,6 +936,18 @@ export const deleteSaloonService: RequestHandler = asyncHandler(async (req: Requ
         );
 
         if (result.affectedRows > 0) {
+            await recordAuditEvent(req, {
+                type: AuditEventType.SERVICE_DELETED,
+                targetType: 'saloon_service',
+                targetId: serviceId,
+                changes: {
+                    name: { from: service[0].name, to: null },
+                    price: { from: service[0].price, to: null },
+                    duration: { from: service[0].duration, to: null }
+                },
+                metadata: { saloonId: parseInt(id) }
+            });
+
             logger.info(`Service ID: ${serviceId} deleted successfully from salon ID: ${id}`);
             res.sendSuccess({
                 message: 'Service deleted successfully',
@@ -0,0 +1,138 @@
+import { Request, Response } from 'express';
+import { RequestHandler } from 'express';
+import logger from '../utils/logger';
+import { refreshTokenSchema } from '../validations';
+import {
+    getActiveSessions,
+    getSessionContext,
+    revokeSession,
+    rotateRefreshToken
+} from '../services/session.service';
+import { revokeToken, revokeUserSessions } from '../services/revocation.service';
+import { recordAuditEvent } from '../services/audit.service';
+import { AuditEventType } from '../models/auditEvent.model';
+import {
+    asyncHandler,
+    NotFoundError,
+    ValidationError,
+    AuthenticationError
+} from '../utils/errors';
+
+/**
+ * Exchange a refresh token for a new access token and refresh token
+ */
+export const refreshSession: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    const { error } = refreshTokenSchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    const { refreshToken } = req.body;
+
+    const tokens = await rotateRefreshToken(refreshToken, getSessionContext(req));
+    if (!tokens) {
+        throw new AuthenticationError('Invalid or expired refresh token');
+    }
+
+    logger.info(`Session ${tokens.sessionId} refreshed`);
+
+    res.sendSuccess({
+        message: 'Token refreshed successfully',
+        ...tokens
+    });
+});
+
+/**
+ * List the active sessions of the current user
+ */
+export const getMySessions: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const sessions = await getActiveSessions(req.user.userId);
+
+    res.sendSuccess({
+        sessions: sessions.map((session: any) => ({
+            ...session,
+            current: session.id === req.user?.sessionId
+        }))
+    });
+});
+
+/**
+ * Revoke one of the current user's sessions
+ */
+export const revokeMySession: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const sessionId = parseInt(req.params.id);
+    if (isNaN(sessionId)) {
+        throw new ValidationError('Invalid session ID');
+    }
+
+    const revoked = await revokeSession(req.user.userId, sessionId);
+    if (!revoked) {
+        throw new NotFoundError(`Session with ID ${sessionId} not found`);
+    }
+
+    logger.info(`Session ${sessionId} revoked by user ID: ${req.user.userId}`);
+    res.sendSuccess({ message: 'Session revoked successfully' });
+});
+
+/**
+ * Log out the current session and revoke the token used for the request
+ */
+export const logout: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { userId, sessionId, tokenId, tokenExpiresAt } = req.user;
+
+    if (sessionId) {
+        await revokeUserSessions(userId, 'logout', [sessionId]);
+    }
+
+    // The session's latest token may differ from the one used here
+    if (tokenId && tokenExpiresAt) {
+        await revokeToken(tokenId, userId, tokenExpiresAt, 'logout');
+    }
+
+    await recordAuditEvent(req, { type: AuditEventType.LOGOUT, targetType: 'session', targetId: sessionId });
+
+    logger.info(`User ID: ${userId} logged out of session ${sessionId}`);
+    res.sendSuccess({ message: 'Logged out successfully' });
+});
+
+/**
+ * Log out every session of the current user
+ */
+export const logoutAllDevices: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { userId, tokenId, tokenExpiresAt } = req.user;
+
+    const revokedSessions = await revokeUserSessions(userId, 'logout_all');
+
+    if (tokenId && tokenExpiresAt) {
+        await revokeToken(tokenId, userId, tokenExpiresAt, 'logout_all');
+    }
+
+    await recordAuditEvent(req, {
+        type: AuditEventType.LOGOUT_ALL,
+        targetType: 'user',
+        targetId: userId,
+        metadata: { revokedSessions }
+    });
+
+    logger.info(`User ID: ${userId} logged out of all devices (${revokedSessions} sessions)`);
+    res.sendSuccess({
+        message: 'Logged out of all devices successfully',
+        revokedSessions
+    });
+});
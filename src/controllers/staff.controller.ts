@@ -0,0 +1,214 @@
+import { Request, Response } from 'express';
+import { RequestHandler } from 'express';
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { createStaffSchema, staffHoursSchema, staffTimeOffSchema, updateStaffSchema } from '../validations';
+import { getOwnedSaloon } from '../services/saloon.service';
+import {
+    addStaffTimeOff,
+    createStaff,
+    deleteStaff,
+    deleteStaffTimeOff,
+    getSaloonStaff,
+    getStaffMember,
+    getStaffTimeOff,
+    replaceStaffHours,
+    updateStaff
+} from '../services/staff.service';
+import {
+    asyncHandler,
+    NotFoundError,
+    ValidationError,
+    AuthenticationError
+} from '../utils/errors';
+
+const OWNER_ONLY_MESSAGE = 'You can only manage the staff of your own salon';
+
+const assertSaloonExists = async (saloonId: string): Promise<void> => {
+    const [saloons]: any = await pool.query('SELECT id FROM saloons WHERE id = ?', [saloonId]);
+    if (!saloons || saloons.length === 0) {
+        throw new NotFoundError(`Salon with ID ${saloonId} not found`);
+    }
+};
+
+/**
+ * List the active staff of a saloon, without their contact details
+ */
+export const getStaffList: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    await assertSaloonExists(id);
+
+    res.sendSuccess({ staff: await getSaloonStaff(id) });
+});
+
+/**
+ * List all staff of a saloon, including inactive staff members (owner only)
+ */
+export const getAllStaff: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { id } = req.params;
+    await getOwnedSaloon(id, req.user.userId, OWNER_ONLY_MESSAGE);
+
+    res.sendSuccess({ staff: await getSaloonStaff(id, true, true) });
+});
+
+/**
+ * Get one staff member of a saloon, without their contact details
+ */
+export const getStaff: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    const { id, staffId } = req.params;
+
+    res.sendSuccess(await getStaffMember(id, staffId));
+});
+
+/**
+ * Add a staff member to a saloon (owner only)
+ */
+export const createStaffMember: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { id } = req.params;
+
+    const { error, value } = createStaffSchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    await getOwnedSaloon(id, req.user.userId, OWNER_ONLY_MESSAGE);
+
+    const staff = await createStaff(id, value);
+
+    res.status(201).json({
+        status: true,
+        data: {
+            message: 'Staff member added successfully',
+            staff
+        }
+    });
+});
+
+/**
+ * Update the profile, services or active state of a staff member (owner only)
+ */
+export const updateStaffMember: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { id, staffId } = req.params;
+
+    const { error, value } = updateStaffSchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    await getOwnedSaloon(id, req.user.userId, OWNER_ONLY_MESSAGE);
+
+    const staff = await updateStaff(id, staffId, value);
+
+    logger.info(`Staff member ID: ${staffId} of salon ID: ${id} updated by user ID: ${req.user.userId}`);
+    res.sendSuccess({ message: 'Staff member updated successfully', staff });
+});
+
+/**
+ * Remove a staff member from a saloon (owner only)
+ */
+export const deleteStaffMember: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { id, staffId } = req.params;
+
+    await getOwnedSaloon(id, req.user.userId, OWNER_ONLY_MESSAGE);
+    await deleteStaff(id, staffId);
+
+    res.sendSuccess({ message: 'Staff member removed successfully' });
+});
+
+/**
+ * Replace the working hours of a staff member (owner only)
+ */
+export const updateStaffHours: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { id, staffId } = req.params;
+
+    const { error, value } = staffHoursSchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    await getOwnedSaloon(id, req.user.userId, OWNER_ONLY_MESSAGE);
+
+    const staff = await replaceStaffHours(id, staffId, value.hours);
+
+    logger.info(`Working hours of staff member ID: ${staffId} updated by user ID: ${req.user.userId}`);
+    res.sendSuccess({ message: 'Working hours updated successfully', staff });
+});
+
+/**
+ * List the upcoming time off of a staff member (owner only)
+ */
+export const getStaffTimeOffList: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { id, staffId } = req.params;
+
+    await getOwnedSaloon(id, req.user.userId, OWNER_ONLY_MESSAGE);
+
+    res.sendSuccess({ time_off: await getStaffTimeOff(id, staffId) });
+});
+
+/**
+ * Add time off for a staff member (owner only)
+ */
+export const createStaffTimeOff: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { id, staffId } = req.params;
+
+    const { error, value } = staffTimeOffSchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    await getOwnedSaloon(id, req.user.userId, OWNER_ONLY_MESSAGE);
+
+    const timeOff = await addStaffTimeOff(id, staffId, value.starts_at, value.ends_at, value.reason || null);
+
+    res.status(201).json({
+        status: true,
+        data: {
+            message: 'Time off added successfully',
+            time_off: timeOff
+        }
+    });
+});
+
+/**
+ * Remove time off of a staff member (owner only)
+ */
+export const removeStaffTimeOff: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { id, staffId, timeOffId } = req.params;
+
+    await getOwnedSaloon(id, req.user.userId, OWNER_ONLY_MESSAGE);
+    await deleteStaffTimeOff(id, staffId, timeOffId);
+
+    res.sendSuccess({ message: 'Time off removed successfully' });
+});
@@ -0,0 +1,276 @@
+import { Request, Response } from 'express';
+import { RequestHandler } from 'express';
+import bcrypt from 'bcrypt';
+import pool from '../config/db';
+import logger from '../utils/logger';
+import {
+    disableTwoFactorSchema,
+    twoFactorChallengeSchema,
+    twoFactorChallengeSetupSchema,
+    twoFactorCodeSchema
+} from '../validations';
+import {
+    confirmTwoFactorEnrollment,
+    disableTwoFactor as disableUserTwoFactor,
+    getTwoFactorStatus as getUserTwoFactorStatus,
+    isTwoFactorRequiredForRole,
+    regenerateRecoveryCodes as regenerateUserRecoveryCodes,
+    startTwoFactorEnrollment,
+    verifyLoginChallenge,
+    verifyTwoFactorCode
+} from '../services/twoFactor.service';
+import { enforceLoginThrottle, recordFailedLogin, recordSuccessfulLogin } from '../services/loginProtection.service';
+import { createSession, getSessionContext } from '../services/session.service';
+import { assertAccountActive } from '../services/accountStatus.service';
+import { recordAuditEvent } from '../services/audit.service';
+import { AuditEventType } from '../models/auditEvent.model';
+import {
+    asyncHandler,
+    NotFoundError,
+    ValidationError,
+    AuthenticationError,
+    AuthorizationError
+} from '../utils/errors';
+
+/**
+ * Get the two-factor settings of the current user
+ */
+export const getTwoFactorStatus: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    res.sendSuccess(await getUserTwoFactorStatus(req.user.userId));
+});
+
+/**
+ * Start two-factor setup for the current user and return the secret for the authenticator app
+ */
+export const setupTwoFactor: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const enrollment = await startTwoFactorEnrollment(req.user.userId, req.user.email);
+
+    res.sendSuccess({
+        message: 'Scan the QR code or enter the secret in your authenticator app, then confirm with a code',
+        ...enrollment
+    });
+});
+
+/**
+ * Confirm two-factor setup with a code from the authenticator app
+ */
+export const enableTwoFactor: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { error } = twoFactorCodeSchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    const recoveryCodes = await confirmTwoFactorEnrollment(req.user.userId, req.body.code.trim());
+    if (!recoveryCodes) {
+        throw new ValidationError('Invalid two-factor code');
+    }
+
+    await recordAuditEvent(req, { type: AuditEventType.TWO_FACTOR_ENABLED, targetType: 'user', targetId: req.user.userId });
+
+    logger.info(`Two-factor authentication enabled for user ID: ${req.user.userId}`);
+    res.sendSuccess({
+        message: 'Two-factor authentication enabled, store your recovery codes in a safe place',
+        recoveryCodes
+    });
+});
+
+/**
+ * Turn off two-factor authentication for the current user
+ */
+export const disableTwoFactor: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { error } = disableTwoFactorSchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    const { userId, roleId } = req.user;
+    const { password, code } = req.body;
+
+    if (await isTwoFactorRequiredForRole(roleId)) {
+        throw new AuthorizationError('Two-factor authentication is required for your role and cannot be disabled');
+    }
+
+    const [rows]: any = await pool.query('SELECT password FROM users WHERE id = ?', [userId]);
+    if (!rows || rows.length === 0) {
+        throw new NotFoundError(`User with ID ${userId} not found`);
+    }
+
+    if (!(await bcrypt.compare(password, rows[0].password)) || !(await verifyTwoFactorCode(userId, code.trim()))) {
+        throw new AuthenticationError('Invalid password or two-factor code');
+    }
+
+    await disableUserTwoFactor(userId, `user:${userId}`);
+    await recordAuditEvent(req, { type: AuditEventType.TWO_FACTOR_DISABLED, targetType: 'user', targetId: userId });
+
+    logger.info(`Two-factor authentication disabled for user ID: ${userId}`);
+    res.sendSuccess({ message: 'Two-factor authentication disabled' });
+});
+
+/**
+ * Replace the recovery codes of the current user
+ */
+export const regenerateRecoveryCodes: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    if (!req.user) {
+        throw new AuthenticationError('Authentication required');
+    }
+
+    const { error } = twoFactorCodeSchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    if (!(await verifyTwoFactorCode(req.user.userId, req.body.code.trim()))) {
+        throw new AuthenticationError('Invalid two-factor code');
+    }
+
+    const recoveryCodes = await regenerateUserRecoveryCodes(req.user.userId);
+    await recordAuditEvent(req, { type: AuditEventType.RECOVERY_CODES_REGENERATED, targetType: 'user', targetId: req.user.userId });
+
+    res.sendSuccess({
+        message: 'New recovery codes generated, the previous codes no longer work',
+        recoveryCodes
+    });
+});
+
+/**
+ * Start two-factor setup during a login that the role policy requires it for
+ */
+export const setupTwoFactorChallenge: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    const { error } = twoFactorChallengeSetupSchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    const challenge = verifyLoginChallenge(req.body.challengeToken);
+    if (!challenge || challenge.type !== 'setup') {
+        throw new AuthenticationError('Invalid or expired challenge token');
+    }
+
+    const [rows]: any = await pool.query('SELECT email FROM users WHERE id = ?', [challenge.userId]);
+    if (!rows || rows.length === 0) {
+        throw new AuthenticationError('Invalid or expired challenge token');
+    }
+
+    const enrollment = await startTwoFactorEnrollment(challenge.userId, rows[0].email);
+
+    res.sendSuccess({
+        message: 'Scan the QR code or enter the secret in your authenticator app, then complete the login with a code',
+        ...enrollment
+    });
+});
+
+/**
+ * Complete a login with a two-factor code and start the session
+ */
+export const completeTwoFactorChallenge: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    const { error } = twoFactorChallengeSchema.validate(req.body);
+    if (error) {
+        throw new ValidationError(error.details[0].message);
+    }
+
+    const challenge = verifyLoginChallenge(req.body.challengeToken);
+    if (!challenge) {
+        throw new AuthenticationError('Invalid or expired challenge token');
+    }
+
+    const code = req.body.code.trim();
+    const context = getSessionContext(req, challenge.deviceName);
+
+    const [users]: any = await pool.query(
+        `SELECT id, name, email, phone, role_id, email_verified_at,
+                failed_login_attempts, last_failed_login_at, locked_until,
+                status, status_reason, status_expires_at
+         FROM users WHERE id = ?`,
+        [challenge.userId]
+    );
+
+    if (!users || users.length === 0) {
+        throw new AuthenticationError('Invalid or expired challenge token');
+    }
+
+    const user = users[0];
+
+    // The account may have been blocked since the challenge was issued
+    assertAccountActive(user);
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    await enforceLoginThrottle(context.ipAddress, user);
+
+    let recoveryCodes: string[] | null = null;
+    let isCodeValid: boolean;
+
+    if (challenge.type === 'setup') {
+        recoveryCodes = await confirmTwoFactorEnrollment(user.id, code);
+        isCodeValid = recoveryCodes !== null;
+    } else {
+        isCodeValid = await verifyTwoFactorCode(user.id, code);
+    }
+
+    if (!isCodeValid) {
+        logger.warn(`Two-factor challenge failed for user ID: ${user.id}`);
+        await recordFailedLogin(user.email, user, context, 'invalid_two_factor_code');
+        throw new AuthenticationError('Invalid two-factor code');
+    }
+
+    await recordSuccessfulLogin(user, context);
+
+    const tokens = await createSession(
+        { userId: user.id, email: user.email, roleId: user.role_id },
+        context
+    );
+
+    await recordAuditEvent(req, {
+        type: AuditEventType.LOGIN,
+        actorId: user.id,
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { twoFactor: true, challengeType: challenge.type }
+    });
+
+    delete user.failed_login_attempts;
+    delete user.last_failed_login_at;
+    delete user.locked_until;
+    delete user.status_reason;
+    delete user.status_expires_at;
+
+    logger.info(`User ID: ${user.id} completed two-factor login`);
+    res.sendSuccess({
+        message: 'Login successful',
+        ...tokens,
+        user,
+        ...(recoveryCodes ? { recoveryCodes } : {})
+    });
+});
+
+/**
+ * Turn off two-factor authentication for a user who lost their device (admin only)
+ */
+export const resetUserTwoFactor: RequestHandler = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const reset = await disableUserTwoFactor(parseInt(id), `admin:${req.user?.userId}`);
+    if (!reset) {
+        throw new NotFoundError(`User with ID ${id} not found`);
+    }
+
+    await recordAuditEvent(req, { type: AuditEventType.TWO_FACTOR_RESET, targetType: 'user', targetId: id });
+
+    logger.info(`Two-factor authentication reset for user ID ${id} by admin ID: ${req.user?.userId}`);
+    res.sendSuccess({ message: 'Two-factor authentication reset successfully' });
+});
@@ -5,7 +5,32 @@ import pool, { testConnection } from './config/db';
 import { userTableQuery } from './models/user.model';
 import { userRoleTableQuery, insertDefaultRolesQuery } from './models/userRole.model';
 import { saloonTableQuery, saloonServiceTableQuery } from './models/saloon.model';
-import { appointmentTableQuery, appointmentServicesTableQuery } from './models/appointment.model';
+import { businessHoursTableQuery, businessHoursExceptionTableQuery } from './models/businessHours.model';
+import { staffTableQuery, staffServiceTableQuery, staffWorkingHoursTableQuery, staffTimeOffTableQuery } from './models/staff.model';
+import { appointmentTableQuery, appointmentServicesTableQuery, appointmentRescheduleTableQuery } from './models/appointment.model';
+import { appointmentEventTableQuery } from './models/appointmentEvent.model';
+import { appointmentSeriesTableQuery } from './models/appointmentSeries.model';
+import { waitlistEntryTableQuery, waitlistEntryServiceTableQuery, waitlistOfferTableQuery } from './models/waitlist.model';
+import { slotHoldTableQuery } from './models/slotHold.model';
+import { userSessionTableQuery } from './models/session.model';
+import { revokedTokenTableQuery } from './models/revokedToken.model';
+import { passwordResetCodeTableQuery } from './models/passwordReset.model';
+import { loginAttemptTableQuery } from './models/loginAttempt.model';
+import { twoFactorRecoveryCodeTableQuery } from './models/twoFactor.model';
+import { userIdentityTableQuery } from './models/userIdentity.model';
+import { apiKeyTableQuery } from './models/apiKey.model';
+import { auditEventTableQuery } from './models/auditEvent.model';
+import { dataExportTableQuery } from './models/dataExport.model';
+import { permissionTableQuery, rolePermissionTableQuery } from './models/permission.model';
+import { seedDefaultPermissions } from './services/permission.service';
+import { purgeOldLoginAttempts } from './services/loginProtection.service';
+import { purgeExpiredRevocations } from './services/revocation.service';
+import { reinstateExpiredSuspensions } from './services/accountStatus.service';
+import { anonymizeScheduledAccounts } from './services/accountDeletion.service';
+import { processPendingDataExports, purgeExpiredDataExports } from './services/dataExport.service';
+import { expireWaitlistOffers } from './services/waitlist.service';
+import { expireSlotHolds } from './services/slotHold.service';
+import { scheduleJob } from './utils/scheduler';
 import { responseHandler } from './utils/responseHandler';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler.middleware';
 import swaggerUi from 'swagger-ui-express';
@@ -74,14 +99,57 @@ const initializeDatabase = async () => {
         await pool.query(userRoleTableQuery);
         // Insert default roles
         await pool.query(insertDefaultRolesQuery);
+        // Create permissions and grant the defaults to the built-in roles
+        await pool.query(permissionTableQuery);
+        await pool.query(rolePermissionTableQuery);
+        await seedDefaultPermissions();
         // Create users table with foreign key to roles
         await pool.query(userTableQuery);
+        // Create sessions table for multi-device logins
+        await pool.query(userSessionTableQuery);
+        // Create revocation list for logged out tokens
+        await pool.query(revokedTokenTableQuery);
+        // Create password reset codes table
+        await pool.query(passwordResetCodeTableQuery);
+        // Create login attempts table for brute-force protection
+        await pool.query(loginAttemptTableQuery);
+        // Create recovery codes table for two-factor authentication
+        await pool.query(twoFactorRecoveryCodeTableQuery);
+        // Create linked external identities table
+        await pool.query(userIdentityTableQuery);
         // Create saloon tables
         await pool.query(saloonTableQuery);
-        await pool.query(saloonServiceTableQuery);        // Create appointments table
+        await pool.query(saloonServiceTableQuery);
+        // Create staff tables, appointments reference the stylist
+        await pool.query(staffTableQuery);
+        await pool.query(staffServiceTableQuery);
+        await pool.query(staffWorkingHoursTableQuery);
+        await pool.query(staffTimeOffTableQuery);
+        // Create recurring series table, appointments reference their series
+        await pool.query(appointmentSeriesTableQuery);
+        // Create appointments table
         await pool.query(appointmentTableQuery);
         // Create appointment services relationship table
         await pool.query(appointmentServicesTableQuery);
+        // Create appointment reschedule history table
+        await pool.query(appointmentRescheduleTableQuery);
+        // Create appointment status timeline table
+        await pool.query(appointmentEventTableQuery);
+        // Create waitlist tables for fully booked days
+        await pool.query(waitlistEntryTableQuery);
+        await pool.query(waitlistEntryServiceTableQuery);
+        await pool.query(waitlistOfferTableQuery);
+        // Create slot holds table for times kept free during checkout
+        await pool.query(slotHoldTableQuery);
+        // Create personal data exports table
+        await pool.query(dataExportTableQuery);
+        // Create security audit log table
+        await pool.query(auditEventTableQuery);
+        // Create API keys table for partner integrations
+        await pool.query(apiKeyTableQuery);
+        // Create weekly opening hours and holiday tables
+        await pool.query(businessHoursTableQuery);
+        await pool.query(businessHoursExceptionTableQuery);
 
         logger.info('Database tables initialized successfully');
     } catch (error) {
@@ -94,7 +162,7 @@ const initializeDatabase = async () => {
 app.use(cors({
     origin: '*',
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
 }));
 
 // API Routes
@@ -119,6 +187,16 @@ const startServer = async () => {
         logger.error('Database initialization failed, but server will continue to start:', error);
     }
 
+    // Background maintenance jobs
+    scheduleJob('purge-expired-revocations', 60 * 60 * 1000, purgeExpiredRevocations);
+    scheduleJob('purge-old-login-attempts', 24 * 60 * 60 * 1000, purgeOldLoginAttempts);
+    scheduleJob('reinstate-expired-suspensions', 15 * 60 * 1000, reinstateExpiredSuspensions);
+    scheduleJob('process-pending-data-exports', 5 * 60 * 1000, processPendingDataExports);
+    scheduleJob('purge-expired-data-exports', 60 * 60 * 1000, purgeExpiredDataExports);
+    scheduleJob('anonymize-scheduled-accounts', 60 * 60 * 1000, anonymizeScheduledAccounts);
+    scheduleJob('expire-waitlist-offers', 60 * 1000, expireWaitlistOffers);
+    scheduleJob('expire-slot-holds', 60 * 1000, expireSlotHolds);
+
     app.listen(PORT, () => {
         const env = process.env.NODE_ENV === 'production' ? 'production' : 'development';
         const baseUrl = env === 'production' ? HOST : `${HOST}:${PORT}`;
@@ -1,5 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../services/token.service';
+import { isTokenRevoked } from '../services/revocation.service';
+import { hasPermission } from '../services/permission.service';
+import { describeRestriction, getAccountRestriction } from '../services/accountStatus.service';
+import { verifyApiKey } from '../services/apiKey.service';
+import { ApiKeyScope } from '../models/apiKey.model';
+import {
+    isEmailVerified,
+    isVerificationRequiredFor,
+    VerifiedEmailAction
+} from '../services/emailVerification.service';
 
 // Extend Express Request interface to include user property
 declare global {
@@ -9,15 +19,19 @@ declare global {
                 userId: number;
                 email: string;
                 roleId: number;
+                sessionId?: number;
+                tokenId?: string;
+                tokenExpiresAt?: Date;
+                apiKeyId?: number;
             };
         }
     }
 }
 
 /**
- * Authentication middleware to verify JWT tokens
+ * Authentication middleware to verify JWT tokens and reject revoked ones
  */
-export const authenticate = (req: Request, res: Response, next: NextFunction): void => {
+export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     // Get the auth header
     const authHeader = req.headers.authorization;
 
@@ -33,66 +47,164 @@ export const authenticate = (req: Request, res: Response, next: NextFunction): v
     // Extract token from header
     const token = authHeader.split(' ')[1];
 
-    try {
-        // Verify the token
-        const decoded = verifyToken(token);
+    // Verify the token
+    const decoded = verifyToken(token);
+
+    // Check if token is valid, tokens without an ID predate revocation support
+    if (!decoded || !decoded.jti) {
+        res.status(401).json({
+            status: false,
+            message: 'Unauthorized - Invalid or expired token',
+            error: 'INVALID_TOKEN'
+        });
+        return;
+    }
 
-        // Check if token is valid
-        if (!decoded) {
+    try {
+        // Check if the token has been logged out or revoked
+        if (await isTokenRevoked(decoded.jti)) {
             res.status(401).json({
                 status: false,
-                message: 'Unauthorized - Invalid token',
-                error: 'INVALID_TOKEN'
+                message: 'Unauthorized - Token has been revoked',
+                error: 'TOKEN_REVOKED'
             });
             return;
         }
 
-        // Attach user data to request
-        req.user = {
-            userId: decoded.userId,
-            email: decoded.email,
-            roleId: decoded.roleId
-        };
-
-        next();
+        // Suspended, banned and deleted accounts lose access immediately
+        const restriction = await getAccountRestriction(decoded.userId);
+        if (restriction) {
+            res.status(403).json({
+                status: false,
+                message: `Forbidden - ${describeRestriction(restriction)}`,
+                error: `ACCOUNT_${restriction.status.toUpperCase()}`
+            });
+            return;
+        }
     } catch (error) {
         console.error('Authentication error:', error);
-        res.status(401).json({
-            status: false,
-            message: 'Unauthorized - Invalid or expired token',
-            error: 'INVALID_TOKEN'
-        });
+        next(error);
+        return;
     }
+
+    // Attach user data to request
+    req.user = {
+        userId: decoded.userId,
+        email: decoded.email,
+        roleId: decoded.roleId,
+        sessionId: decoded.sessionId,
+        tokenId: decoded.jti,
+        tokenExpiresAt: decoded.exp ? new Date(decoded.exp * 1000) : undefined
+    };
+
+    next();
 };
 
 /**
- * Authorization middleware to check if user has admin role
+ * Authentication middleware for routes that integrations may call. Requests with an
+ * X-API-Key header act as the owner of the key and need the given scope, all other
+ * requests go through the regular Bearer token authentication.
+ * @param scope Scope the API key must have
  */
-export const authorizeAdmin = (req: Request, res: Response, next: NextFunction) => {
-    if (!req.user) {
-        return res.sendError('Unauthorized - Authentication required', 401);
-    }
+export const authenticateOrApiKey = (scope: ApiKeyScope) => {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        const key = req.get('x-api-key');
 
-    // Check if user has admin role (role_id = 1)
-    if (req.user.roleId !== 1) {
-        return res.sendError('Forbidden - Admin access required', 403);
-    }
+        if (!key) {
+            return authenticate(req, res, next);
+        }
 
-    next();
+        try {
+            const principal = await verifyApiKey(key.trim(), req.ip || null);
+
+            if (!principal) {
+                res.status(401).json({
+                    status: false,
+                    message: 'Unauthorized - Invalid, expired or revoked API key',
+                    error: 'INVALID_API_KEY'
+                });
+                return;
+            }
+
+            // Keys stop working while the account that issued them is blocked
+            if (principal.restriction) {
+                res.status(403).json({
+                    status: false,
+                    message: `Forbidden - ${describeRestriction(principal.restriction)}`,
+                    error: `ACCOUNT_${principal.restriction.status.toUpperCase()}`
+                });
+                return;
+            }
+
+            if (!principal.scopes.includes(scope)) {
+                res.status(403).json({
+                    status: false,
+                    message: `Forbidden - API key is missing scope: ${scope}`,
+                    error: 'INSUFFICIENT_SCOPE'
+                });
+                return;
+            }
+
+            req.user = {
+                userId: principal.userId,
+                email: principal.email,
+                roleId: principal.roleId,
+                apiKeyId: principal.apiKeyId
+            };
+        } catch (error) {
+            next(error);
+            return;
+        }
+
+        next();
+    };
 };
 
 /**
- * Authorization middleware to check if user has owner role
+ * Authorization middleware to check that the user's role has been granted a permission
+ * @param permission Permission required for the route, e.g. 'saloon:update'
  */
-export const authorizeOwner = (req: Request, res: Response, next: NextFunction) => {
-    if (!req.user) {
-        return res.sendError('Unauthorized - Authentication required', 401);
-    }
+export const requirePermission = (permission: string) => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        if (!req.user) {
+            return res.sendError('Unauthorized - Authentication required', 401);
+        }
 
-    // Check if user has owner role (role_id = 1)
-    if (req.user.roleId !== 2) {
-        return res.sendError('Forbidden - Owner access required', 403);
-    }
+        try {
+            if (!(await hasPermission(req.user.roleId, permission))) {
+                return res.sendError(`Forbidden - Missing permission: ${permission}`, 403);
+            }
+        } catch (error) {
+            return next(error);
+        }
 
-    next();
+        next();
+    };
+};
+
+/**
+ * Authorization middleware to block users with an unverified email address
+ * from actions configured in EMAIL_VERIFICATION_REQUIRED_FOR
+ * @param action Action protected by the middleware
+ */
+export const requireVerifiedEmail = (action: VerifiedEmailAction) => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        if (!req.user) {
+            return res.sendError('Unauthorized - Authentication required', 401);
+        }
+
+        if (!isVerificationRequiredFor(action)) {
+            return next();
+        }
+
+        try {
+            if (!(await isEmailVerified(req.user.userId))) {
+                return res.sendError('Forbidden - Please verify your email address first', 403);
+            }
+        } catch (error) {
+            return next(error);
+        }
+
+        next();
+    };
 };
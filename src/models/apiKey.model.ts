@@ -0,0 +1,40 @@
+export enum ApiKeyScope {
+  SALOONS_READ = 'saloons:read',
+  SALOONS_WRITE = 'saloons:write',
+  APPOINTMENTS_READ = 'appointments:read',
+  APPOINTMENTS_WRITE = 'appointments:write'
+}
+
+export interface ApiKey {
+  id?: number;
+  user_id: number;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  scopes: ApiKeyScope[];
+  expires_at: Date;
+  last_used_at?: Date | null;
+  last_used_ip?: string | null;
+  revoked_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export const apiKeyTableQuery = `
+CREATE TABLE IF NOT EXISTS api_keys (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  user_id INT NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  key_prefix VARCHAR(16) NOT NULL UNIQUE,
+  key_hash CHAR(64) NOT NULL,
+  scopes JSON NOT NULL,
+  expires_at DATETIME NOT NULL,
+  last_used_at DATETIME NULL,
+  last_used_ip VARCHAR(45),
+  revoked_at DATETIME NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  INDEX idx_api_keys_user (user_id),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+)
+`;
@@ -2,13 +2,16 @@ export enum AppointmentStatus {
   PENDING = 'pending',
   CONFIRMED = 'confirmed',
   CANCELLED = 'cancelled',
-  COMPLETED = 'completed'
+  COMPLETED = 'completed',
+  NO_SHOW = 'no_show' // The guest did not come, set by the owner after the start time
 }
 
 export interface Appointment {
   id?: number;
   guest_id: number;
   saloon_id: number;
+  staff_id?: number | null; // Stylist doing the appointment, null at salons without staff
+  series_id?: number | null; // Recurring series the appointment belongs to
   service_ids: number[]; // Changed to array
   appointment_date: Date;
   status: AppointmentStatus;
@@ -17,18 +20,36 @@ export interface Appointment {
   updated_at?: Date;
 }
 
+export interface AppointmentReschedule {
+  id?: number;
+  appointment_id: number;
+  previous_date: Date;
+  new_date: Date;
+  previous_staff_id?: number | null;
+  new_staff_id?: number | null;
+  previous_status: AppointmentStatus;
+  new_status: AppointmentStatus;
+  rescheduled_by?: number | null; // Null once the user account is deleted
+  reason?: string | null;
+  created_at?: Date;
+}
+
 export const appointmentTableQuery = `
 CREATE TABLE IF NOT EXISTS appointments (
   id INT AUTO_INCREMENT PRIMARY KEY,
   guest_id INT NOT NULL,
   saloon_id INT NOT NULL,
+  staff_id INT NULL,
+  series_id INT NULL,
   appointment_date DATETIME NOT NULL,
-  status ENUM('pending', 'confirmed', 'cancelled', 'completed') DEFAULT 'pending',
+  status ENUM('pending', 'confirmed', 'cancelled', 'completed', 'no_show') DEFAULT 'pending',
   notes TEXT,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
   FOREIGN KEY (guest_id) REFERENCES users(id) ON DELETE CASCADE,
-  FOREIGN KEY (saloon_id) REFERENCES saloons(id) ON DELETE CASCADE
+  FOREIGN KEY (saloon_id) REFERENCES saloons(id) ON DELETE CASCADE,
+  FOREIGN KEY (staff_id) REFERENCES saloon_staff(id) ON DELETE SET NULL,
+  FOREIGN KEY (series_id) REFERENCES appointment_series(id) ON DELETE SET NULL
 )
 `;
 
@@ -43,3 +64,22 @@ CREATE TABLE IF NOT EXISTS appointment_services (
   UNIQUE KEY unique_appointment_service (appointment_id, service_id)
 )
 `;
+
+export const appointmentRescheduleTableQuery = `
+CREATE TABLE IF NOT EXISTS appointment_reschedules (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  appointment_id INT NOT NULL,
+  previous_date DATETIME NOT NULL,
+  new_date DATETIME NOT NULL,
+  previous_staff_id INT NULL,
+  new_staff_id INT NULL,
+  previous_status ENUM('pending', 'confirmed', 'cancelled', 'completed', 'no_show') NOT NULL,
+  new_status ENUM('pending', 'confirmed', 'cancelled', 'completed', 'no_show') NOT NULL,
+  rescheduled_by INT NULL,
+  reason VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (appointment_id) REFERENCES appointments(id) ON DELETE CASCADE,
+  FOREIGN KEY (rescheduled_by) REFERENCES users(id) ON DELETE SET NULL,
+  INDEX idx_reschedules_appointment (appointment_id, created_at)
+)
+`;
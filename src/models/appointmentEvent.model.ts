@@ -0,0 +1,44 @@
+import { AppointmentStatus } from './appointment.model';
+
+export enum AppointmentEventType {
+  BOOKED = 'booked',
+  STATUS_CHANGED = 'status_changed',
+  RESCHEDULED = 'rescheduled'
+}
+
+export enum AppointmentActorRole {
+  GUEST = 'guest',
+  OWNER = 'owner',
+  SYSTEM = 'system'
+}
+
+export interface AppointmentEvent {
+  id?: number;
+  appointment_id: number;
+  event_type: AppointmentEventType;
+  actor_id?: number | null; // Null for system changes and once the user account is deleted
+  actor_role: AppointmentActorRole;
+  from_status?: AppointmentStatus | null; // Null for the booking itself
+  to_status: AppointmentStatus;
+  reason?: string | null;
+  metadata?: Record<string, unknown> | null;
+  created_at?: Date;
+}
+
+export const appointmentEventTableQuery = `
+CREATE TABLE IF NOT EXISTS appointment_events (
+  id BIGINT AUTO_INCREMENT PRIMARY KEY,
+  appointment_id INT NOT NULL,
+  event_type VARCHAR(32) NOT NULL,
+  actor_id INT NULL,
+  actor_role ENUM('guest', 'owner', 'system') NOT NULL,
+  from_status ENUM('pending', 'confirmed', 'cancelled', 'completed', 'no_show') NULL,
+  to_status ENUM('pending', 'confirmed', 'cancelled', 'completed', 'no_show') NOT NULL,
+  reason VARCHAR(500),
+  metadata JSON NULL,
+  created_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3),
+  FOREIGN KEY (appointment_id) REFERENCES appointments(id) ON DELETE CASCADE,
+  FOREIGN KEY (actor_id) REFERENCES users(id) ON DELETE SET NULL,
+  INDEX idx_appointment_events_appointment (appointment_id, created_at)
+)
+`;
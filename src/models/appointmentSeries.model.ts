@@ -0,0 +1,35 @@
+export enum RecurrenceFrequency {
+  WEEKLY = 'weekly',  // Every N weeks on the same weekday
+  MONTHLY = 'monthly' // Every N months on the same day, or the last day of shorter months
+}
+
+export interface AppointmentSeries {
+  id?: number;
+  guest_id: number;
+  saloon_id: number;
+  frequency: RecurrenceFrequency;
+  interval_count: number;    // Weeks or months between occurrences
+  starts_at: Date;           // First occurrence
+  ends_on?: string | null;   // Last date occurrences can fall on, format: YYYY-MM-DD
+  occurrences?: number | null; // Number of occurrences, when no end date is given
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export const appointmentSeriesTableQuery = `
+CREATE TABLE IF NOT EXISTS appointment_series (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  guest_id INT NOT NULL,
+  saloon_id INT NOT NULL,
+  frequency ENUM('weekly', 'monthly') NOT NULL,
+  interval_count INT NOT NULL DEFAULT 1,
+  starts_at DATETIME NOT NULL,
+  ends_on DATE NULL,
+  occurrences INT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  FOREIGN KEY (guest_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (saloon_id) REFERENCES saloons(id) ON DELETE CASCADE,
+  INDEX idx_series_guest (guest_id)
+)
+`;
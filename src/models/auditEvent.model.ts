@@ -0,0 +1,64 @@
+export enum AuditEventType {
+  LOGIN = 'auth.login',
+  OAUTH_LOGIN = 'auth.oauth_login',
+  LOGOUT = 'auth.logout',
+  LOGOUT_ALL = 'auth.logout_all',
+  PROFILE_UPDATED = 'user.profile_updated',
+  PASSWORD_CHANGED = 'user.password_changed',
+  PASSWORD_RESET = 'user.password_reset',
+  EMAIL_CHANGED = 'user.email_changed',
+  ROLE_CHANGED = 'user.role_changed',
+  STATUS_CHANGED = 'user.status_changed',
+  USER_DELETED = 'user.deleted',
+  ACCOUNT_DELETION_SCHEDULED = 'user.deletion_scheduled',
+  ACCOUNT_DELETION_CANCELLED = 'user.deletion_cancelled',
+  ACCOUNT_UNLOCKED = 'user.unlocked',
+  TWO_FACTOR_ENABLED = 'user.two_factor_enabled',
+  TWO_FACTOR_DISABLED = 'user.two_factor_disabled',
+  TWO_FACTOR_RESET = 'user.two_factor_reset',
+  RECOVERY_CODES_REGENERATED = 'user.recovery_codes_regenerated',
+  ROLE_PERMISSIONS_CHANGED = 'role.permissions_changed',
+  ROLE_TWO_FACTOR_POLICY_CHANGED = 'role.two_factor_policy_changed',
+  API_KEY_CREATED = 'api_key.created',
+  API_KEY_REVOKED = 'api_key.revoked',
+  SALOON_DELETED = 'saloon.deleted',
+  SERVICE_DELETED = 'saloon_service.deleted'
+}
+
+export interface AuditChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface AuditEvent {
+  id?: number;
+  event_type: AuditEventType;
+  actor_id?: number | null;
+  target_type?: string | null;
+  target_id?: string | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  changes?: Record<string, AuditChange> | null;
+  metadata?: Record<string, unknown> | null;
+  created_at?: Date;
+}
+
+// No foreign keys so events outlive the users and saloons they describe
+export const auditEventTableQuery = `
+CREATE TABLE IF NOT EXISTS audit_events (
+  id BIGINT AUTO_INCREMENT PRIMARY KEY,
+  event_type VARCHAR(64) NOT NULL,
+  actor_id INT NULL,
+  target_type VARCHAR(32),
+  target_id VARCHAR(64),
+  ip_address VARCHAR(45),
+  user_agent VARCHAR(255),
+  changes JSON NULL,
+  metadata JSON NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_audit_events_actor (actor_id, created_at),
+  INDEX idx_audit_events_type (event_type, created_at),
+  INDEX idx_audit_events_target (target_type, target_id),
+  INDEX idx_audit_events_created (created_at)
+)
+`;
@@ -0,0 +1,45 @@
+export interface BusinessHours {
+  id?: number;
+  saloon_id: number;
+  day_of_week: number; // 0 = Sunday ... 6 = Saturday
+  open_time: string;   // Format: HH:MM (24-hour)
+  close_time: string;  // Format: HH:MM (24-hour), at or before open_time when the interval ends after midnight
+  created_at?: Date;
+}
+
+export interface BusinessHoursException {
+  id?: number;
+  saloon_id: number;
+  exception_date: string;     // Format: YYYY-MM-DD
+  open_time?: string | null;  // Both times are null when the salon is closed all day
+  close_time?: string | null;
+  reason?: string | null;
+  created_at?: Date;
+}
+
+export const businessHoursTableQuery = `
+CREATE TABLE IF NOT EXISTS saloon_business_hours (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  saloon_id INT NOT NULL,
+  day_of_week TINYINT NOT NULL,
+  open_time TIME NOT NULL,
+  close_time TIME NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (saloon_id) REFERENCES saloons(id) ON DELETE CASCADE,
+  INDEX idx_business_hours_saloon_day (saloon_id, day_of_week)
+)
+`;
+
+export const businessHoursExceptionTableQuery = `
+CREATE TABLE IF NOT EXISTS saloon_hours_exceptions (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  saloon_id INT NOT NULL,
+  exception_date DATE NOT NULL,
+  open_time TIME NULL,
+  close_time TIME NULL,
+  reason VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (saloon_id) REFERENCES saloons(id) ON DELETE CASCADE,
+  INDEX idx_hours_exceptions_saloon_date (saloon_id, exception_date)
+)
+`;
@@ -0,0 +1,39 @@
+export enum DataExportStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+export interface DataExport {
+  id?: number;
+  user_id: number;
+  status: DataExportStatus;
+  file_name?: string | null;
+  file_size?: number | null;
+  error?: string | null;
+  started_at?: Date | null;
+  completed_at?: Date | null;
+  expires_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export const dataExportTableQuery = `
+CREATE TABLE IF NOT EXISTS data_exports (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  user_id INT NOT NULL,
+  status ENUM('pending', 'processing', 'completed', 'failed') DEFAULT 'pending',
+  file_name VARCHAR(255),
+  file_size INT,
+  error VARCHAR(255),
+  started_at DATETIME NULL,
+  completed_at DATETIME NULL,
+  expires_at DATETIME NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  INDEX idx_data_exports_user (user_id, created_at),
+  INDEX idx_data_exports_status (status),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+)
+`;
@@ -0,0 +1,26 @@
+export interface LoginAttempt {
+  id?: number;
+  email: string;
+  user_id?: number | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  successful: boolean;
+  failure_reason?: string | null;
+  created_at?: Date;
+}
+
+export const loginAttemptTableQuery = `
+CREATE TABLE IF NOT EXISTS login_attempts (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  email VARCHAR(255) NOT NULL,
+  user_id INT NULL,
+  ip_address VARCHAR(45),
+  user_agent VARCHAR(255),
+  successful BOOLEAN NOT NULL DEFAULT FALSE,
+  failure_reason VARCHAR(50),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_login_attempts_ip (ip_address, created_at),
+  INDEX idx_login_attempts_user (user_id, created_at),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+)
+`;
@@ -0,0 +1,25 @@
+export interface PasswordResetCode {
+  id?: number;
+  user_id: number;
+  code_hash: string;
+  attempts?: number;
+  ip_address?: string | null;
+  expires_at: Date;
+  used_at?: Date | null;
+  created_at?: Date;
+}
+
+export const passwordResetCodeTableQuery = `
+CREATE TABLE IF NOT EXISTS password_reset_codes (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  user_id INT NOT NULL,
+  code_hash CHAR(64) NOT NULL,
+  attempts INT DEFAULT 0,
+  ip_address VARCHAR(45),
+  expires_at DATETIME NOT NULL,
+  used_at DATETIME NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_password_reset_codes_user (user_id, created_at),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+)
+`;
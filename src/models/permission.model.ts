@@ -0,0 +1,53 @@
+export interface Permission {
+  id?: number;
+  name: string;
+  description?: string;
+  created_at?: Date;
+}
+
+export interface RolePermission {
+  role_id: number;
+  permission_id: number;
+  created_at?: Date;
+}
+
+export const permissionTableQuery = `
+CREATE TABLE IF NOT EXISTS permissions (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  name VARCHAR(100) NOT NULL UNIQUE,
+  description VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+)
+`;
+
+export const rolePermissionTableQuery = `
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role_id INT NOT NULL,
+  permission_id INT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (role_id, permission_id),
+  FOREIGN KEY (role_id) REFERENCES user_roles(id) ON DELETE CASCADE,
+  FOREIGN KEY (permission_id) REFERENCES permissions(id) ON DELETE CASCADE
+)
+`;
+
+// Permissions known to the application and the default roles that are granted them
+// when the permission is first created. Later changes by admins are kept.
+export const defaultPermissions: { name: string; description: string; roles: string[] }[] = [
+  { name: 'user:read', description: 'List users and view any user account', roles: ['admin'] },
+  { name: 'user:create', description: 'Create owner and guest accounts', roles: ['admin'] },
+  { name: 'user:update', description: 'Update any user account', roles: ['admin'] },
+  { name: 'user:delete', description: 'Delete user accounts', roles: ['admin'] },
+  { name: 'user:status', description: 'Suspend, ban and reinstate accounts', roles: ['admin'] },
+  { name: 'user:role', description: 'Change the role of an account', roles: ['admin'] },
+  { name: 'user:security', description: 'View login attempts, unlock accounts and reset two-factor authentication', roles: ['admin'] },
+  { name: 'role:read', description: 'View roles, permissions and security policies', roles: ['admin'] },
+  { name: 'role:update', description: 'Change role permissions and security policies', roles: ['admin'] },
+  { name: 'audit:read', description: 'Search the security audit log', roles: ['admin'] },
+  { name: 'api_key:manage', description: 'Issue and revoke own API keys for integrations', roles: ['admin', 'owner'] },
+  { name: 'saloon:create', description: 'Register a salon', roles: ['owner'] },
+  { name: 'saloon:update', description: 'Update own salons and manage their services', roles: ['owner'] },
+  { name: 'saloon:delete', description: 'Delete own salons', roles: ['owner'] },
+  { name: 'appointment:book', description: 'Book, view and cancel own appointments', roles: ['guest'] },
+  { name: 'appointment:manage', description: 'View and manage appointments of own salons', roles: ['owner'] }
+];
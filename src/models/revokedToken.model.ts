@@ -0,0 +1,19 @@
+export interface RevokedToken {
+  jti: string;
+  user_id: number;
+  reason?: string;
+  expires_at: Date;
+  created_at?: Date;
+}
+
+export const revokedTokenTableQuery = `
+CREATE TABLE IF NOT EXISTS revoked_tokens (
+  jti VARCHAR(64) PRIMARY KEY,
+  user_id INT NOT NULL,
+  reason VARCHAR(50),
+  expires_at DATETIME NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_revoked_tokens_expires (expires_at),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+)
+`;
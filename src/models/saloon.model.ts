@@ -1,3 +1,8 @@
+export enum NoShowEnforcement {
+  REQUIRE_APPROVAL = 'require_approval', // Bookings and reschedules always wait for the owner
+  BLOCK = 'block'                        // Online bookings are refused
+}
+
 export interface Saloon {
   id?: number;
   name: string;
@@ -11,6 +16,12 @@ export interface Saloon {
   closing_time?: string; // Format: HH:MM (24-hour)
   latitude?: number;     // Geographic coordinate - latitude
   longitude?: number;    // Geographic coordinate - longitude
+  parallel_chairs?: number; // Appointments that can run at the same time, salons with staff are limited by their stylists instead
+  reschedule_requires_confirmation?: boolean; // Confirmed appointments moved by the guest go back to pending
+  auto_confirm_bookings?: boolean;           // New bookings are confirmed without waiting for the owner
+  cancellation_cutoff_hours?: number;        // Guests cannot cancel or move confirmed appointments this close to the start
+  no_show_threshold?: number | null;         // No-shows after which the enforcement applies to a guest, null to turn it off
+  no_show_enforcement?: NoShowEnforcement;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -22,6 +33,7 @@ export interface SaloonService {
   description?: string;
   price: number;
   duration?: number; // in minutes
+  buffer_minutes?: number; // Clean-up time after the service, in minutes
   created_at?: Date;
   updated_at?: Date;
 }
@@ -40,6 +52,12 @@ CREATE TABLE IF NOT EXISTS saloons (
   closing_time TIME DEFAULT '17:00:00',
   latitude DECIMAL(10,8),
   longitude DECIMAL(11,8),
+  parallel_chairs INT NOT NULL DEFAULT 1,
+  reschedule_requires_confirmation BOOLEAN NOT NULL DEFAULT TRUE,
+  auto_confirm_bookings BOOLEAN NOT NULL DEFAULT FALSE,
+  cancellation_cutoff_hours INT NOT NULL DEFAULT 0,
+  no_show_threshold INT NULL,
+  no_show_enforcement ENUM('require_approval', 'block') NOT NULL DEFAULT 'require_approval',
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
   FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE CASCADE
@@ -54,6 +72,7 @@ CREATE TABLE IF NOT EXISTS saloon_services (
   description TEXT,
   price DECIMAL(10,2) NOT NULL,
   duration INT,
+  buffer_minutes INT NOT NULL DEFAULT 0,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
   FOREIGN KEY (saloon_id) REFERENCES saloons(id) ON DELETE CASCADE
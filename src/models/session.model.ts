@@ -0,0 +1,38 @@
+export interface UserSession {
+  id?: number;
+  user_id: number;
+  refresh_token_hash: string;
+  previous_refresh_token_hash?: string | null;
+  device_name?: string | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  access_token_jti?: string | null;
+  access_token_expires_at?: Date | null;
+  last_seen_at?: Date;
+  expires_at: Date;
+  revoked_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export const userSessionTableQuery = `
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  user_id INT NOT NULL,
+  refresh_token_hash CHAR(64) NOT NULL UNIQUE,
+  previous_refresh_token_hash CHAR(64),
+  device_name VARCHAR(100),
+  ip_address VARCHAR(45),
+  user_agent VARCHAR(255),
+  access_token_jti VARCHAR(64),
+  access_token_expires_at DATETIME,
+  last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL,
+  revoked_at DATETIME NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  INDEX idx_user_sessions_user (user_id),
+  INDEX idx_user_sessions_previous_hash (previous_refresh_token_hash),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+)
+`;
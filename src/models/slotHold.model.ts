@@ -0,0 +1,43 @@
+export enum SlotHoldStatus {
+  ACTIVE = 'active',       // Keeps the time free for the guest until it expires
+  CONVERTED = 'converted', // The guest booked the held time
+  RELEASED = 'released',   // Given up by the guest
+  EXPIRED = 'expired'      // Not booked in time
+}
+
+export interface SlotHold {
+  id?: number;
+  guest_id: number;
+  saloon_id: number;
+  staff_id?: number | null;       // Stylist kept free, null at salons without staff
+  appointment_date: Date;
+  duration: number;               // Minutes the time is held for, buffers included
+  status: SlotHoldStatus;
+  expires_at: Date;
+  appointment_id?: number | null; // Appointment the hold turned into
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export const slotHoldTableQuery = `
+CREATE TABLE IF NOT EXISTS slot_holds (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  guest_id INT NOT NULL,
+  saloon_id INT NOT NULL,
+  staff_id INT NULL,
+  appointment_date DATETIME NOT NULL,
+  duration INT NOT NULL,
+  status ENUM('active', 'converted', 'released', 'expired') NOT NULL DEFAULT 'active',
+  expires_at DATETIME NOT NULL,
+  appointment_id INT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  FOREIGN KEY (guest_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (saloon_id) REFERENCES saloons(id) ON DELETE CASCADE,
+  FOREIGN KEY (staff_id) REFERENCES saloon_staff(id) ON DELETE SET NULL,
+  FOREIGN KEY (appointment_id) REFERENCES appointments(id) ON DELETE SET NULL,
+  INDEX idx_slot_holds_saloon (saloon_id, status, appointment_date),
+  INDEX idx_slot_holds_guest (guest_id, status),
+  INDEX idx_slot_holds_expiry (status, expires_at)
+)
+`;
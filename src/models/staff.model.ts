@@ -0,0 +1,85 @@
+export interface Staff {
+  id?: number;
+  saloon_id: number;
+  user_id?: number | null; // Optional link to the stylist's own account
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  bio?: string | null;
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface StaffWorkingHours {
+  id?: number;
+  staff_id: number;
+  day_of_week: number; // 0 = Sunday ... 6 = Saturday
+  start_time: string;  // Format: HH:MM (24-hour)
+  end_time: string;    // Format: HH:MM (24-hour), at or before start_time when the shift ends after midnight
+  created_at?: Date;
+}
+
+export interface StaffTimeOff {
+  id?: number;
+  staff_id: number;
+  starts_at: Date;
+  ends_at: Date;
+  reason?: string | null;
+  created_at?: Date;
+}
+
+export const staffTableQuery = `
+CREATE TABLE IF NOT EXISTS saloon_staff (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  saloon_id INT NOT NULL,
+  user_id INT NULL,
+  name VARCHAR(255) NOT NULL,
+  email VARCHAR(255),
+  phone VARCHAR(20),
+  bio TEXT,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  FOREIGN KEY (saloon_id) REFERENCES saloons(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+  INDEX idx_staff_saloon (saloon_id, is_active)
+)
+`;
+
+export const staffServiceTableQuery = `
+CREATE TABLE IF NOT EXISTS staff_services (
+  staff_id INT NOT NULL,
+  service_id INT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (staff_id, service_id),
+  FOREIGN KEY (staff_id) REFERENCES saloon_staff(id) ON DELETE CASCADE,
+  FOREIGN KEY (service_id) REFERENCES saloon_services(id) ON DELETE CASCADE
+)
+`;
+
+export const staffWorkingHoursTableQuery = `
+CREATE TABLE IF NOT EXISTS staff_working_hours (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  staff_id INT NOT NULL,
+  day_of_week TINYINT NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (staff_id) REFERENCES saloon_staff(id) ON DELETE CASCADE,
+  INDEX idx_staff_hours_day (staff_id, day_of_week)
+)
+`;
+
+export const staffTimeOffTableQuery = `
+CREATE TABLE IF NOT EXISTS staff_time_off (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  staff_id INT NOT NULL,
+  starts_at DATETIME NOT NULL,
+  ends_at DATETIME NOT NULL,
+  reason VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (staff_id) REFERENCES saloon_staff(id) ON DELETE CASCADE,
+  INDEX idx_staff_time_off_range (staff_id, starts_at, ends_at)
+)
+`;
@@ -0,0 +1,19 @@
+export interface TwoFactorRecoveryCode {
+  id?: number;
+  user_id: number;
+  code_hash: string;
+  used_at?: Date | null;
+  created_at?: Date;
+}
+
+export const twoFactorRecoveryCodeTableQuery = `
+CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  user_id INT NOT NULL,
+  code_hash CHAR(64) NOT NULL,
+  used_at DATETIME NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_two_factor_recovery_codes_user (user_id),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+)
+`;
@@ -1,11 +1,33 @@
+export enum UserStatus {
+  ACTIVE = 'active',
+  SUSPENDED = 'suspended',
+  BANNED = 'banned',
+  DELETED = 'deleted'
+}
+
 export interface User {
   id?: number;
   name: string;
   email: string;
   password: string;
+  password_login_enabled?: boolean;
   phone?: string;
   role_id?: number;
-  token?: string;
+  status?: UserStatus;
+  status_reason?: string | null;
+  status_expires_at?: Date | null;
+  status_changed_at?: Date | null;
+  deletion_scheduled_at?: Date | null;
+  deleted_at?: Date | null;
+  email_verified_at?: Date | null;
+  failed_login_attempts?: number;
+  last_failed_login_at?: Date | null;
+  locked_until?: Date | null;
+  lock_reason?: string | null;
+  two_factor_secret?: string | null;
+  two_factor_enabled_at?: Date | null;
+  two_factor_last_used_step?: number | null;
+  no_show_count?: number; // Confirmed appointments the user did not come to
   created_at?: Date;
   updated_at?: Date;
 }
@@ -16,9 +38,24 @@ CREATE TABLE IF NOT EXISTS users (
   name VARCHAR(255) NOT NULL,
   email VARCHAR(255) NOT NULL UNIQUE,
   password VARCHAR(255) NOT NULL,
+  password_login_enabled BOOLEAN DEFAULT TRUE,
   phone VARCHAR(20),
   role_id INT DEFAULT 3,
-  token VARCHAR(500),
+  status ENUM('active', 'suspended', 'banned', 'deleted') DEFAULT 'active',
+  status_reason VARCHAR(255),
+  status_expires_at DATETIME NULL,
+  status_changed_at DATETIME NULL,
+  deletion_scheduled_at DATETIME NULL,
+  deleted_at DATETIME NULL,
+  email_verified_at DATETIME NULL,
+  failed_login_attempts INT DEFAULT 0,
+  last_failed_login_at DATETIME NULL,
+  locked_until DATETIME NULL,
+  lock_reason VARCHAR(255),
+  two_factor_secret VARCHAR(255) NULL,
+  two_factor_enabled_at DATETIME NULL,
+  two_factor_last_used_step BIGINT NULL,
+  no_show_count INT NOT NULL DEFAULT 0,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
   FOREIGN KEY (role_id) REFERENCES user_roles(id)
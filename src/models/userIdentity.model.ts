@@ -0,0 +1,24 @@
+export interface UserIdentity {
+  id?: number;
+  user_id: number;
+  provider: string;
+  subject: string;
+  email?: string | null;
+  linked_at?: Date;
+  last_used_at?: Date | null;
+}
+
+export const userIdentityTableQuery = `
+CREATE TABLE IF NOT EXISTS user_identities (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  user_id INT NOT NULL,
+  provider VARCHAR(50) NOT NULL,
+  subject VARCHAR(255) NOT NULL,
+  email VARCHAR(255),
+  linked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_used_at DATETIME NULL,
+  UNIQUE KEY uq_user_identities_provider_subject (provider, subject),
+  UNIQUE KEY uq_user_identities_user_provider (user_id, provider),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+)
+`;
@@ -2,6 +2,7 @@ export interface UserRole {
   id?: number;
   name: string;
   description?: string;
+  require_two_factor?: boolean;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -10,6 +11,7 @@ export const userRoleTableQuery = `
 CREATE TABLE IF NOT EXISTS user_roles (
   id INT AUTO_INCREMENT PRIMARY KEY,
   name VARCHAR(50) NOT NULL UNIQUE,
+  require_two_factor BOOLEAN DEFAULT FALSE,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
 )
@@ -0,0 +1,96 @@
+export enum WaitlistEntryStatus {
+  WAITING = 'waiting',     // Waiting for a matching time to free up
+  OFFERED = 'offered',     // A freed time was offered and can still be claimed
+  BOOKED = 'booked',       // The guest claimed an offer
+  CANCELLED = 'cancelled', // Removed by the guest
+  EXPIRED = 'expired'      // The date window passed without a booking
+}
+
+export enum WaitlistOfferStatus {
+  PENDING = 'pending',
+  CLAIMED = 'claimed',
+  EXPIRED = 'expired'
+}
+
+export interface WaitlistEntry {
+  id?: number;
+  guest_id: number;
+  saloon_id: number;
+  staff_id?: number | null; // Preferred stylist, null for anyone
+  service_ids: number[];
+  date_from: string;        // Format: YYYY-MM-DD
+  date_to: string;          // Format: YYYY-MM-DD
+  status: WaitlistEntryStatus;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface WaitlistOffer {
+  id?: number;
+  entry_id: number;
+  saloon_id: number;
+  freed_appointment_id?: number | null; // Cancelled appointment whose time is offered
+  staff_id?: number | null;             // Stylist the time is kept with, null at saloons without staff
+  appointment_date: Date;
+  duration: number;                     // Minutes kept free for the guest's services, buffers included
+  status: WaitlistOfferStatus;
+  expires_at: Date;
+  appointment_id?: number | null; // Appointment booked by claiming the offer
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export const waitlistEntryTableQuery = `
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  guest_id INT NOT NULL,
+  saloon_id INT NOT NULL,
+  staff_id INT NULL,
+  date_from DATE NOT NULL,
+  date_to DATE NOT NULL,
+  status ENUM('waiting', 'offered', 'booked', 'cancelled', 'expired') NOT NULL DEFAULT 'waiting',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  FOREIGN KEY (guest_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (saloon_id) REFERENCES saloons(id) ON DELETE CASCADE,
+  FOREIGN KEY (staff_id) REFERENCES saloon_staff(id) ON DELETE SET NULL,
+  INDEX idx_waitlist_saloon (saloon_id, status, date_from, date_to),
+  INDEX idx_waitlist_guest (guest_id, status)
+)
+`;
+
+export const waitlistEntryServiceTableQuery = `
+CREATE TABLE IF NOT EXISTS waitlist_entry_services (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  entry_id INT NOT NULL,
+  service_id INT NOT NULL,
+  FOREIGN KEY (entry_id) REFERENCES waitlist_entries(id) ON DELETE CASCADE,
+  FOREIGN KEY (service_id) REFERENCES saloon_services(id) ON DELETE CASCADE,
+  UNIQUE KEY unique_waitlist_entry_service (entry_id, service_id)
+)
+`;
+
+export const waitlistOfferTableQuery = `
+CREATE TABLE IF NOT EXISTS waitlist_offers (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  entry_id INT NOT NULL,
+  saloon_id INT NOT NULL,
+  freed_appointment_id INT NULL,
+  staff_id INT NULL,
+  appointment_date DATETIME NOT NULL,
+  duration INT NOT NULL,
+  status ENUM('pending', 'claimed', 'expired') NOT NULL DEFAULT 'pending',
+  expires_at DATETIME NOT NULL,
+  appointment_id INT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  FOREIGN KEY (entry_id) REFERENCES waitlist_entries(id) ON DELETE CASCADE,
+  FOREIGN KEY (saloon_id) REFERENCES saloons(id) ON DELETE CASCADE,
+  FOREIGN KEY (freed_appointment_id) REFERENCES appointments(id) ON DELETE SET NULL,
+  FOREIGN KEY (staff_id) REFERENCES saloon_staff(id) ON DELETE SET NULL,
+  FOREIGN KEY (appointment_id) REFERENCES appointments(id) ON DELETE SET NULL,
+  INDEX idx_waitlist_offers_slot (saloon_id, status, appointment_date),
+  INDEX idx_waitlist_offers_freed (freed_appointment_id, status),
+  INDEX idx_waitlist_offers_expiry (status, expires_at)
+)
+`;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import * as apiKeyController from '../controllers/apiKey.controller';
+import { authenticate, requirePermission } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// API key management routes, only reachable with a user session so keys cannot issue more keys
+router.post('', authenticate, requirePermission('api_key:manage'), apiKeyController.createMyApiKey);
+router.get('', authenticate, requirePermission('api_key:manage'), apiKeyController.getMyApiKeys);
+router.delete('/:id', authenticate, requirePermission('api_key:manage'), apiKeyController.revokeMyApiKey);
+
+export default router;
@@ -1,12 +1,32 @@
 import { Router } from 'express';
 import * as appointmentController from '../controllers/appointment.controller';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticateOrApiKey, requirePermission, requireVerifiedEmail } from '../middleware/auth.middleware';
+import { ApiKeyScope } from '../models/apiKey.model';
 
 const router = Router();
 
-// Appointment routes
-router.post('', authenticate, appointmentController.bookAppointment);
-router.get('', authenticate, appointmentController.getUserAppointments);
-router.patch('/:id', authenticate, appointmentController.updateAppointmentStatus);
+// Appointment routes, API keys need the appointments:read or appointments:write scope
+router.post('', authenticateOrApiKey(ApiKeyScope.APPOINTMENTS_WRITE), requirePermission('appointment:book'), requireVerifiedEmail('book_appointment'), appointmentController.bookAppointment);
+router.get('', authenticateOrApiKey(ApiKeyScope.APPOINTMENTS_READ), appointmentController.getUserAppointments);
+
+// Recurring series routes, single appointments of a series are changed with the routes below
+router.post('/series', authenticateOrApiKey(ApiKeyScope.APPOINTMENTS_WRITE), requirePermission('appointment:book'), requireVerifiedEmail('book_appointment'), appointmentController.createAppointmentSeries);
+router.get('/series/:seriesId', authenticateOrApiKey(ApiKeyScope.APPOINTMENTS_READ), appointmentController.getAppointmentSeries);
+
+// Slot hold routes, a held time is booked through POST /appointments with the same salon and time
+router.post('/holds', authenticateOrApiKey(ApiKeyScope.APPOINTMENTS_WRITE), requirePermission('appointment:book'), requireVerifiedEmail('book_appointment'), appointmentController.holdSlot);
+router.get('/holds', authenticateOrApiKey(ApiKeyScope.APPOINTMENTS_READ), appointmentController.getMySlotHolds);
+router.delete('/holds/:holdId', authenticateOrApiKey(ApiKeyScope.APPOINTMENTS_WRITE), appointmentController.releaseSlotHold);
+
+// Waitlist routes, the claim link from the offer email carries a signed token instead of a login
+router.post('/waitlist', authenticateOrApiKey(ApiKeyScope.APPOINTMENTS_WRITE), requirePermission('appointment:book'), requireVerifiedEmail('book_appointment'), appointmentController.joinWaitlist);
+router.get('/waitlist', authenticateOrApiKey(ApiKeyScope.APPOINTMENTS_READ), appointmentController.getMyWaitlist);
+router.delete('/waitlist/:entryId', authenticateOrApiKey(ApiKeyScope.APPOINTMENTS_WRITE), appointmentController.leaveWaitlist);
+router.get('/waitlist/claim', appointmentController.getWaitlistOffer);
+router.post('/waitlist/claim', appointmentController.claimWaitlistOffer);
+
+router.patch('/:id', authenticateOrApiKey(ApiKeyScope.APPOINTMENTS_WRITE), appointmentController.updateAppointmentStatus);
+router.get('/:id/history', authenticateOrApiKey(ApiKeyScope.APPOINTMENTS_READ), appointmentController.getAppointmentHistory);
+router.post('/:id/reschedule', authenticateOrApiKey(ApiKeyScope.APPOINTMENTS_WRITE), appointmentController.rescheduleAppointment);
 
 export default router;
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import * as auditController from '../controllers/audit.controller';
+import { authenticate, requirePermission } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Audit log routes
+router.get('', authenticate, requirePermission('audit:read'), auditController.getAuditEvents);
+
+export default router;
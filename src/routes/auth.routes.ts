@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import * as userController from '../controllers/user.controller';
+import * as sessionController from '../controllers/session.controller';
+import * as twoFactorController from '../controllers/twoFactor.controller';
+import * as identityController from '../controllers/identity.controller';
+import * as dataExportController from '../controllers/dataExport.controller';
+import { authenticate } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Authentication routes
+router.post('/register', userController.registerUser);
+router.post('/login', userController.login);
+router.post('/google', userController.googleAuth);
+router.post('/oauth/:provider', userController.oauthLogin);
+router.post('/refresh', sessionController.refreshSession);
+router.post('/logout', authenticate, sessionController.logout);
+router.post('/logout/all', authenticate, sessionController.logoutAllDevices);
+router.post('/password/forgot', userController.forgotPassword);
+router.post('/password/reset', userController.resetPassword);
+router.get('/email/verify', userController.verifyEmail);
+router.post('/email/verify', userController.verifyEmail);
+router.post('/email/resend', authenticate, userController.resendVerificationEmail);
+router.get('/unlock', userController.unlockAccountByToken);
+router.post('/unlock', userController.unlockAccountByToken);
+router.get('/me', authenticate, userController.getCurrentUser);
+router.delete('/me', authenticate, userController.deleteMyAccount);
+router.post('/me/deletion/cancel', authenticate, userController.cancelMyAccountDeletion);
+router.get('/check', authenticate, userController.checkAuth);
+
+// Two-factor authentication routes
+router.post('/2fa/challenge', twoFactorController.completeTwoFactorChallenge);
+router.post('/2fa/challenge/setup', twoFactorController.setupTwoFactorChallenge);
+router.get('/2fa', authenticate, twoFactorController.getTwoFactorStatus);
+router.post('/2fa/setup', authenticate, twoFactorController.setupTwoFactor);
+router.post('/2fa/enable', authenticate, twoFactorController.enableTwoFactor);
+router.post('/2fa/disable', authenticate, twoFactorController.disableTwoFactor);
+router.post('/2fa/recovery-codes', authenticate, twoFactorController.regenerateRecoveryCodes);
+
+// Linked external identity routes
+router.get('/me/identities', authenticate, identityController.getMyIdentities);
+router.post('/me/identities/:provider', authenticate, identityController.linkMyIdentity);
+router.delete('/me/identities/:provider', authenticate, identityController.unlinkMyIdentity);
+
+// Personal data export routes
+router.post('/me/exports', authenticate, dataExportController.requestMyDataExport);
+router.get('/me/exports', authenticate, dataExportController.getMyDataExports);
+router.get('/me/exports/:id', authenticate, dataExportController.getMyDataExport);
+router.get('/me/exports/:id/download', authenticate, dataExportController.downloadMyDataExport);
+
+// Session management routes
+router.get('/sessions', authenticate, sessionController.getMySessions);
+router.delete('/sessions/:id', authenticate, sessionController.revokeMySession);
+
+export default router;
@@ -1,22 +1,20 @@
 import { Router } from 'express';
+import authRoutes from './auth.routes';
 import userRoutes from './user.routes';
 import saloonRoutes from './saloon.routes';
 import appointmentRoutes from './appointment.routes';
-
-import * as userController from '../controllers/user.controller';
-import { authenticate } from '../middleware/auth.middleware';
+import roleRoutes from './role.routes';
+import auditRoutes from './audit.routes';
+import apiKeyRoutes from './apiKey.routes';
 
 const router = Router();
 
-// Authentication routes
-router.post('/auth/register', userController.registerUser);
-router.post('/auth/login', userController.login);
-router.post('/auth/google', userController.googleAuth);
-router.get('/auth/me', authenticate, userController.getCurrentUser);
-router.get('/auth/check', authenticate, userController.checkAuth);
-
+router.use('/auth', authRoutes);
 router.use('/users', userRoutes);
 router.use('/saloons', saloonRoutes);
 router.use('/appointments', appointmentRoutes);
+router.use('/roles', roleRoutes);
+router.use('/audit-events', auditRoutes);
+router.use('/api-keys', apiKeyRoutes);
 
 export default router;
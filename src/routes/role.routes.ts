@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import * as roleController from '../controllers/role.controller';
+import { authenticate, requirePermission } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Role management routes
+router.get('', authenticate, requirePermission('role:read'), roleController.getAllRoles);
+router.get('/permissions', authenticate, requirePermission('role:read'), roleController.getPermissions);
+router.get('/:id/permissions', authenticate, requirePermission('role:read'), roleController.getPermissionsOfRole);
+router.put('/:id/permissions', authenticate, requirePermission('role:update'), roleController.updateRolePermissions);
+router.put('/:id/two-factor', authenticate, requirePermission('role:update'), roleController.updateTwoFactorPolicy);
+
+export default router;
@@ -1,21 +1,41 @@
 import { Router } from 'express';
 import * as saloonController from '../controllers/saloon.controller';
-import { authenticate, authorizeOwner } from '../middleware/auth.middleware';
+import * as businessHoursController from '../controllers/businessHours.controller';
+import * as staffController from '../controllers/staff.controller';
+import { authenticateOrApiKey, requirePermission, requireVerifiedEmail } from '../middleware/auth.middleware';
+import { ApiKeyScope } from '../models/apiKey.model';
 
 const router = Router();
 
-// Saloon management routes
-router.post('', authenticate, authorizeOwner, saloonController.createSaloon);
+// Saloon management routes, owner routes also accept API keys with the saloons:read or saloons:write scope
+router.post('', authenticateOrApiKey(ApiKeyScope.SALOONS_WRITE), requirePermission('saloon:create'), requireVerifiedEmail('create_saloon'), saloonController.createSaloon);
 router.get('', saloonController.getAllSaloons);
+router.get('/mine', authenticateOrApiKey(ApiKeyScope.SALOONS_READ), saloonController.getMySaloons);
 router.get('/owner/:userId', saloonController.getSaloonByOwnerId);
 router.get('/nearby', saloonController.getNearbySaloons);
 router.get('/:id', saloonController.getSaloonById);
 router.get('/:id/services', saloonController.getSaloonServices);
 router.get('/:id/availability', saloonController.getSaloonAvailability);
-router.post('/:id/services', authenticate, authorizeOwner, saloonController.addServiceToSaloon);
-router.put('/:id/services/:serviceId', authenticate, authorizeOwner, saloonController.updateSaloonService);
-router.delete('/:id/services/:serviceId', authenticate, authorizeOwner, saloonController.deleteSaloonService);
-router.put('/:id', authenticate, authorizeOwner, saloonController.updateSaloon);
-router.delete('/:id', authenticate, authorizeOwner, saloonController.deleteSaloon);
+router.get('/:id/availability/calendar', saloonController.getSaloonAvailabilityCalendar);
+router.get('/:id/hours', businessHoursController.getSaloonHours);
+router.put('/:id/hours', authenticateOrApiKey(ApiKeyScope.SALOONS_WRITE), requirePermission('saloon:update'), businessHoursController.updateSaloonHours);
+router.get('/:id/hours/exceptions', businessHoursController.getSaloonHoursExceptions);
+router.put('/:id/hours/exceptions/:date', authenticateOrApiKey(ApiKeyScope.SALOONS_WRITE), requirePermission('saloon:update'), businessHoursController.setSaloonHoursException);
+router.delete('/:id/hours/exceptions/:date', authenticateOrApiKey(ApiKeyScope.SALOONS_WRITE), requirePermission('saloon:update'), businessHoursController.deleteSaloonHoursException);
+router.get('/:id/staff', staffController.getStaffList);
+router.get('/:id/staff/all', authenticateOrApiKey(ApiKeyScope.SALOONS_READ), requirePermission('saloon:update'), staffController.getAllStaff);
+router.get('/:id/staff/:staffId', staffController.getStaff);
+router.post('/:id/staff', authenticateOrApiKey(ApiKeyScope.SALOONS_WRITE), requirePermission('saloon:update'), staffController.createStaffMember);
+router.put('/:id/staff/:staffId', authenticateOrApiKey(ApiKeyScope.SALOONS_WRITE), requirePermission('saloon:update'), staffController.updateStaffMember);
+router.delete('/:id/staff/:staffId', authenticateOrApiKey(ApiKeyScope.SALOONS_WRITE), requirePermission('saloon:update'), staffController.deleteStaffMember);
+router.put('/:id/staff/:staffId/hours', authenticateOrApiKey(ApiKeyScope.SALOONS_WRITE), requirePermission('saloon:update'), staffController.updateStaffHours);
+router.get('/:id/staff/:staffId/time-off', authenticateOrApiKey(ApiKeyScope.SALOONS_READ), requirePermission('saloon:update'), staffController.getStaffTimeOffList);
+router.post('/:id/staff/:staffId/time-off', authenticateOrApiKey(ApiKeyScope.SALOONS_WRITE), requirePermission('saloon:update'), staffController.createStaffTimeOff);
+router.delete('/:id/staff/:staffId/time-off/:timeOffId', authenticateOrApiKey(ApiKeyScope.SALOONS_WRITE), requirePermission('saloon:update'), staffController.removeStaffTimeOff);
+router.post('/:id/services', authenticateOrApiKey(ApiKeyScope.SALOONS_WRITE), requirePermission('saloon:update'), saloonController.addServiceToSaloon);
+router.put('/:id/services/:serviceId', authenticateOrApiKey(ApiKeyScope.SALOONS_WRITE), requirePermission('saloon:update'), saloonController.updateSaloonService);
+router.delete('/:id/services/:serviceId', authenticateOrApiKey(ApiKeyScope.SALOONS_WRITE), requirePermission('saloon:update'), saloonController.deleteSaloonService);
+router.put('/:id', authenticateOrApiKey(ApiKeyScope.SALOONS_WRITE), requirePermission('saloon:update'), saloonController.updateSaloon);
+router.delete('/:id', authenticateOrApiKey(ApiKeyScope.SALOONS_WRITE), requirePermission('saloon:delete'), saloonController.deleteSaloon);
 
 export default router;
@@ -1,24 +1,30 @@
 import { Router } from 'express';
 import * as userController from '../controllers/user.controller';
-import { authenticate, authorizeAdmin } from '../middleware/auth.middleware';
+import * as twoFactorController from '../controllers/twoFactor.controller';
+import { authenticate, requirePermission } from '../middleware/auth.middleware';
 
 const router = Router();
 
 // User management routes
-router.get('', authenticate, authorizeAdmin, userController.getAllUsers);
+router.get('', authenticate, requirePermission('user:read'), userController.getAllUsers);
 router.get('/:id', authenticate, userController.getUserById);
 router.put('/:id', authenticate, userController.updateUser);
-router.delete('/:id', authenticate, authorizeAdmin, userController.deleteUser);
+router.delete('/:id', authenticate, requirePermission('user:delete'), userController.deleteUser);
+router.patch('/:id/status', authenticate, requirePermission('user:status'), userController.updateUserStatus);
+router.put('/:id/role', authenticate, requirePermission('user:role'), userController.updateUserRole);
+router.post('/:id/unlock', authenticate, requirePermission('user:security'), userController.unlockUser);
+router.get('/:id/login-attempts', authenticate, requirePermission('user:security'), userController.getUserLoginAttempts);
+router.post('/:id/2fa/reset', authenticate, requirePermission('user:security'), twoFactorController.resetUserTwoFactor);
 
 // Legacy routes for backward compatibility
 router.post('/owner/signup', userController.registerUser);
 router.post('/guest/signup', userController.registerUser);
 router.post('/login', userController.login);
-router.get('/owner', authenticate, authorizeAdmin, userController.getAllOwnerUsers);
-router.post('/owner', authenticate, authorizeAdmin, userController.createUser);
+router.get('/owner', authenticate, requirePermission('user:read'), userController.getAllOwnerUsers);
+router.post('/owner', authenticate, requirePermission('user:create'), userController.createUser);
 router.put('/owner/:id', authenticate, userController.updateUser);
-router.get('/guest', authenticate, authorizeAdmin, userController.getAllGuestUsers);
-router.post('/guest', authenticate, authorizeAdmin, userController.createUser);
+router.get('/guest', authenticate, requirePermission('user:read'), userController.getAllGuestUsers);
+router.post('/guest', authenticate, requirePermission('user:create'), userController.createUser);
 router.put('/guest/:id', authenticate, userController.updateUser);
 
 export default router;
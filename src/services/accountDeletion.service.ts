@@ -0,0 +1,214 @@
+import dotenv from 'dotenv';
+import crypto from 'crypto';
+import pool from '../config/db';
+import logger, { securityLogger } from '../utils/logger';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { UserStatus } from '../models/user.model';
+import { AppointmentStatus } from '../models/appointment.model';
+import { AppointmentActorRole, AppointmentEventType } from '../models/appointmentEvent.model';
+import { WaitlistEntryStatus } from '../models/waitlist.model';
+import { SlotHoldStatus } from '../models/slotHold.model';
+import { isLastAdmin } from './accountStatus.service';
+import { revokeUserSessions } from './revocation.service';
+import { deleteUserDataExports } from './dataExport.service';
+import { revokeUserApiKeys } from './apiKey.service';
+import { sendAccountDeletionScheduledEmail } from './email.service';
+
+dotenv.config();
+
+const DELETION_GRACE_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '14');
+
+const DELETED_USER_NAME = 'Deleted user';
+const DELETED_EMAIL_DOMAIN = 'deleted.invalid';
+
+/**
+ * Refuse to delete an account while it still has confirmed appointments coming up,
+ * either booked by the user or at a saloon the user owns
+ * @param userId User ID
+ */
+const assertNoUpcomingAppointments = async (userId: number): Promise<void> => {
+    const [rows]: any = await pool.query(
+        `SELECT
+            (SELECT COUNT(*) FROM appointments
+             WHERE guest_id = ? AND status = ? AND appointment_date > NOW()) as booked,
+            (SELECT COUNT(*) FROM appointments a
+             JOIN saloons s ON a.saloon_id = s.id
+             WHERE s.owner_id = ? AND a.status = ? AND a.appointment_date > NOW()) as hosted`,
+        [userId, AppointmentStatus.CONFIRMED, userId, AppointmentStatus.CONFIRMED]
+    );
+
+    const { booked, hosted } = rows[0];
+
+    if (booked > 0) {
+        throw new ConflictError(`The account has ${booked} upcoming confirmed appointment(s), cancel them before deleting it`);
+    }
+
+    if (hosted > 0) {
+        throw new ConflictError(`The account's saloons have ${hosted} upcoming confirmed appointment(s), complete or cancel them before deleting it`);
+    }
+};
+
+/**
+ * Schedule the deletion of a user's own account. It can be cancelled until the grace period ends.
+ * @param userId User ID
+ * @returns When the account will be deleted
+ */
+export const scheduleAccountDeletion = async (userId: number): Promise<Date> => {
+    const [users]: any = await pool.query(
+        'SELECT id, name, email, deletion_scheduled_at FROM users WHERE id = ?',
+        [userId]
+    );
+
+    if (!users || users.length === 0) {
+        throw new NotFoundError(`User with ID ${userId} not found`);
+    }
+
+    const user = users[0];
+
+    if (user.deletion_scheduled_at) {
+        throw new ConflictError('Your account is already scheduled for deletion');
+    }
+
+    if (await isLastAdmin(userId)) {
+        throw new ConflictError('The last active admin cannot delete their account');
+    }
+
+    await assertNoUpcomingAppointments(userId);
+
+    const scheduledAt = new Date(Date.now() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+    await pool.query('UPDATE users SET deletion_scheduled_at = ? WHERE id = ?', [scheduledAt, userId]);
+
+    securityLogger.info('Account deletion scheduled', { userId, scheduledAt });
+
+    sendAccountDeletionScheduledEmail(user.email, user.name, scheduledAt)
+        .catch((error) => logger.error('Error sending account deletion email:', error));
+
+    return scheduledAt;
+};
+
+/**
+ * Cancel a scheduled deletion during the grace period
+ * @param userId User ID
+ */
+export const cancelAccountDeletion = async (userId: number): Promise<void> => {
+    const [result]: any = await pool.query(
+        'UPDATE users SET deletion_scheduled_at = NULL WHERE id = ? AND deletion_scheduled_at IS NOT NULL AND status != ?',
+        [userId, UserStatus.DELETED]
+    );
+
+    if (result.affectedRows === 0) {
+        throw new NotFoundError('Your account is not scheduled for deletion');
+    }
+
+    securityLogger.info('Account deletion cancelled', { userId });
+};
+
+/**
+ * Replace the personal details of a user with placeholders and remove everything that identifies them.
+ * Appointments and saloons stay so owners keep their booking and revenue history.
+ * @param userId User ID
+ * @param deletedBy Who deleted the account, for the security log
+ */
+export const anonymizeUser = async (userId: number, deletedBy: string): Promise<void> => {
+    const [users]: any = await pool.query('SELECT id, status FROM users WHERE id = ?', [userId]);
+    if (!users || users.length === 0) {
+        throw new NotFoundError(`User with ID ${userId} not found`);
+    }
+
+    if (users[0].status === UserStatus.DELETED) {
+        throw new ConflictError('Account has already been deleted');
+    }
+
+    await assertNoUpcomingAppointments(userId);
+
+    // End every session first so no token outlives the personal data
+    await revokeUserSessions(userId, 'account_deleted');
+    await revokeUserApiKeys(userId);
+
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        // A random hash that no password can match
+        const unusablePassword = crypto.randomBytes(32).toString('hex');
+
+        await connection.query(
+            `UPDATE users
+             SET name = ?, email = ?, phone = NULL, password = ?, password_login_enabled = FALSE,
+                 status = ?, status_reason = NULL, status_expires_at = NULL, status_changed_at = NOW(),
+                 email_verified_at = NULL, failed_login_attempts = 0, last_failed_login_at = NULL,
+                 locked_until = NULL, lock_reason = NULL, two_factor_secret = NULL,
+                 two_factor_enabled_at = NULL, two_factor_last_used_step = NULL,
+                 deletion_scheduled_at = NULL, deleted_at = NOW()
+             WHERE id = ?`,
+            [DELETED_USER_NAME, `deleted-${userId}@${DELETED_EMAIL_DOMAIN}`, unusablePassword, UserStatus.DELETED, userId]
+        );
+
+        // Free text written by the guest may hold personal details
+        await connection.query('UPDATE appointments SET notes = NULL WHERE guest_id = ?', [userId]);
+        await connection.query('UPDATE appointment_events SET reason = NULL WHERE actor_id = ?', [userId]);
+        await connection.query('UPDATE appointment_reschedules SET reason = NULL WHERE rescheduled_by = ?', [userId]);
+
+        // Pending appointments are cancelled, the timeline records it as a system change
+        await connection.query(
+            `INSERT INTO appointment_events (appointment_id, event_type, actor_id, actor_role, from_status, to_status, reason)
+             SELECT id, ?, NULL, ?, status, ?, ? FROM appointments
+             WHERE guest_id = ? AND status = ? AND appointment_date > NOW()`,
+            [
+                AppointmentEventType.STATUS_CHANGED, AppointmentActorRole.SYSTEM, AppointmentStatus.CANCELLED,
+                'Guest account deleted', userId, AppointmentStatus.PENDING
+            ]
+        );
+        await connection.query(
+            'UPDATE appointments SET status = ? WHERE guest_id = ? AND status = ? AND appointment_date > NOW()',
+            [AppointmentStatus.CANCELLED, userId, AppointmentStatus.PENDING]
+        );
+
+        // Open offers of the guest pass to the next guest once they expire
+        await connection.query(
+            'UPDATE waitlist_entries SET status = ? WHERE guest_id = ? AND status IN (?, ?)',
+            [WaitlistEntryStatus.CANCELLED, userId, WaitlistEntryStatus.WAITING, WaitlistEntryStatus.OFFERED]
+        );
+        await connection.query(
+            'UPDATE slot_holds SET status = ? WHERE guest_id = ? AND status = ?',
+            [SlotHoldStatus.RELEASED, userId, SlotHoldStatus.ACTIVE]
+        );
+
+        await connection.query('DELETE FROM user_identities WHERE user_id = ?', [userId]);
+        await connection.query('DELETE FROM two_factor_recovery_codes WHERE user_id = ?', [userId]);
+        await connection.query('DELETE FROM password_reset_codes WHERE user_id = ?', [userId]);
+        await connection.query('DELETE FROM login_attempts WHERE user_id = ?', [userId]);
+        await connection.query('DELETE FROM user_sessions WHERE user_id = ?', [userId]);
+
+        await connection.commit();
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+
+    await deleteUserDataExports(userId);
+
+    securityLogger.info('Account deleted and anonymized', { userId, deletedBy });
+    logger.info(`User ID: ${userId} anonymized`);
+};
+
+/**
+ * Delete accounts whose grace period has ended. Accounts that still have upcoming
+ * confirmed appointments are retried on the next run.
+ */
+export const anonymizeScheduledAccounts = async (): Promise<void> => {
+    const [rows]: any = await pool.query(
+        'SELECT id FROM users WHERE deletion_scheduled_at IS NOT NULL AND deletion_scheduled_at <= NOW() AND status != ?',
+        [UserStatus.DELETED]
+    );
+
+    for (const row of rows) {
+        try {
+            await anonymizeUser(row.id, 'scheduled');
+        } catch (error: any) {
+            logger.warn(`Scheduled deletion of user ID: ${row.id} postponed: ${error.message}`);
+        }
+    }
+};
@@ -0,0 +1,224 @@
+import pool from '../config/db';
+import logger, { securityLogger } from '../utils/logger';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { UserStatus } from '../models/user.model';
+import { revokeUserSessions } from './revocation.service';
+
+const ADMIN_ROLE_NAME = 'admin';
+
+export interface AccountRestriction {
+    status: UserStatus;
+    reason: string | null;
+    expiresAt: Date | null;
+}
+
+interface StatusFields {
+    status?: UserStatus | string | null;
+    status_reason?: string | null;
+    status_expires_at?: Date | null;
+}
+
+/**
+ * Work out whether an account is currently blocked. Suspensions end on their own once they expire.
+ * @param user Status columns of the user
+ * @returns The restriction in force, or null if the account may be used
+ */
+export const getRestriction = (user: StatusFields): AccountRestriction | null => {
+    if (!user.status || user.status === UserStatus.ACTIVE) {
+        return null;
+    }
+
+    if (user.status === UserStatus.SUSPENDED && user.status_expires_at && new Date(user.status_expires_at) <= new Date()) {
+        return null;
+    }
+
+    return {
+        status: user.status as UserStatus,
+        reason: user.status_reason || null,
+        expiresAt: user.status_expires_at || null
+    };
+};
+
+/**
+ * Build the message shown to a user whose account is blocked
+ * @param restriction Restriction in force
+ */
+export const describeRestriction = (restriction: AccountRestriction): string => {
+    if (restriction.status === UserStatus.DELETED) {
+        return 'This account has been deleted';
+    }
+
+    let message = restriction.status === UserStatus.BANNED
+        ? 'Your account has been banned'
+        : 'Your account has been suspended';
+
+    if (restriction.expiresAt) {
+        message += ` until ${new Date(restriction.expiresAt).toISOString()}`;
+    }
+
+    if (restriction.reason) {
+        message += `: ${restriction.reason}`;
+    }
+
+    return message;
+};
+
+/**
+ * Reject sign-in for a blocked account
+ * @param user Status columns of the user
+ */
+export const assertAccountActive = (user: StatusFields): void => {
+    const restriction = getRestriction(user);
+    if (restriction) {
+        throw new AuthorizationError(describeRestriction(restriction));
+    }
+};
+
+/**
+ * Look up whether an account is currently blocked
+ * @param userId User ID
+ * @returns The restriction in force, or null if the account may be used
+ */
+export const getAccountRestriction = async (userId: number): Promise<AccountRestriction | null> => {
+    const [rows]: any = await pool.query(
+        'SELECT status, status_reason, status_expires_at FROM users WHERE id = ?',
+        [userId]
+    );
+
+    return rows && rows.length > 0 ? getRestriction(rows[0]) : null;
+};
+
+/**
+ * Check whether a user is the only active admin left
+ * @param userId User ID
+ */
+export const isLastAdmin = async (userId: number): Promise<boolean> => {
+    const [rows]: any = await pool.query(
+        `SELECT u.id
+         FROM users u
+         JOIN user_roles r ON u.role_id = r.id
+         WHERE r.name = ? AND u.status = ?`,
+        [ADMIN_ROLE_NAME, UserStatus.ACTIVE]
+    );
+
+    return rows.length === 1 && rows[0].id === userId;
+};
+
+/**
+ * Suspend, ban or reinstate an account. Blocking an account ends all of its sessions.
+ * @param userId User ID
+ * @param status New status
+ * @param reason Reason shown to the user
+ * @param expiresAt When a suspension ends, null for no end date
+ * @param changedBy ID of the admin making the change
+ * @returns The status before the change
+ */
+export const changeAccountStatus = async (
+    userId: number,
+    status: UserStatus,
+    reason: string | null,
+    expiresAt: Date | null,
+    changedBy: number
+): Promise<UserStatus> => {
+    if (userId === changedBy) {
+        throw new AuthorizationError('You cannot change the status of your own account');
+    }
+
+    if (status === UserStatus.ACTIVE && expiresAt) {
+        throw new ValidationError('Only suspensions can have an expiry date');
+    }
+
+    const [users]: any = await pool.query('SELECT id, status FROM users WHERE id = ?', [userId]);
+    if (!users || users.length === 0) {
+        throw new NotFoundError(`User with ID ${userId} not found`);
+    }
+
+    if (users[0].status === UserStatus.DELETED) {
+        throw new ConflictError('Deleted accounts cannot be changed');
+    }
+
+    if (status !== UserStatus.ACTIVE && await isLastAdmin(userId)) {
+        throw new ConflictError('The last active admin cannot be suspended or banned');
+    }
+
+    await pool.query(
+        'UPDATE users SET status = ?, status_reason = ?, status_expires_at = ?, status_changed_at = NOW() WHERE id = ?',
+        [status, status === UserStatus.ACTIVE ? null : reason, status === UserStatus.SUSPENDED ? expiresAt : null, userId]
+    );
+
+    if (status !== UserStatus.ACTIVE) {
+        await revokeUserSessions(userId, `account_${status}`);
+    }
+
+    securityLogger.info('Account status changed', { userId, status, reason, expiresAt, changedBy });
+
+    return users[0].status;
+};
+
+/**
+ * Move a user to another role. The user's sessions are ended so new tokens carry the new role.
+ * @param userId User ID
+ * @param roleId New role ID
+ * @param changedBy ID of the admin making the change
+ * @returns Names of the previous and the new role
+ */
+export const changeUserRole = async (
+    userId: number,
+    roleId: number,
+    changedBy: number
+): Promise<{ previousRole: string; role: string }> => {
+    const [users]: any = await pool.query(
+        `SELECT u.id, u.role_id, u.status, r.name as role_name
+         FROM users u
+         JOIN user_roles r ON u.role_id = r.id
+         WHERE u.id = ?`,
+        [userId]
+    );
+
+    if (!users || users.length === 0) {
+        throw new NotFoundError(`User with ID ${userId} not found`);
+    }
+
+    const [roles]: any = await pool.query('SELECT id, name FROM user_roles WHERE id = ?', [roleId]);
+    if (!roles || roles.length === 0) {
+        throw new ValidationError(`Role with ID ${roleId} does not exist`);
+    }
+
+    const user = users[0];
+    const role = roles[0];
+
+    if (user.status === UserStatus.DELETED) {
+        throw new ConflictError('Deleted accounts cannot be changed');
+    }
+
+    if (user.role_id === role.id) {
+        throw new ConflictError(`User already has the ${role.name} role`);
+    }
+
+    if (user.role_name === ADMIN_ROLE_NAME && role.name !== ADMIN_ROLE_NAME && await isLastAdmin(userId)) {
+        throw new ConflictError('The last active admin cannot be demoted');
+    }
+
+    await pool.query('UPDATE users SET role_id = ? WHERE id = ?', [role.id, userId]);
+    await revokeUserSessions(userId, 'role_changed');
+
+    securityLogger.info('User role changed', { userId, from: user.role_name, to: role.name, changedBy });
+
+    return { previousRole: user.role_name, role: role.name };
+};
+
+/**
+ * Reset suspensions whose end date has passed
+ */
+export const reinstateExpiredSuspensions = async (): Promise<void> => {
+    const [result]: any = await pool.query(
+        `UPDATE users
+         SET status = ?, status_reason = NULL, status_expires_at = NULL, status_changed_at = NOW()
+         WHERE status = ? AND status_expires_at IS NOT NULL AND status_expires_at <= NOW()`,
+        [UserStatus.ACTIVE, UserStatus.SUSPENDED]
+    );
+
+    if (result.affectedRows > 0) {
+        logger.info(`Reinstated ${result.affectedRows} account(s) with expired suspensions`);
+    }
+};
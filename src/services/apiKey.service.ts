@@ -0,0 +1,190 @@
+import crypto from 'crypto';
+import pool from '../config/db';
+import logger, { securityLogger } from '../utils/logger';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { ApiKeyScope } from '../models/apiKey.model';
+import { hashToken } from './token.service';
+import { AccountRestriction, getRestriction } from './accountStatus.service';
+
+const KEY_PREFIX = 'sgk';
+const MAX_ACTIVE_KEYS = 10;
+const DEFAULT_LIFETIME_DAYS = 90;
+const MAX_LIFETIME_DAYS = 365;
+// Usage is written at most this often per key to keep busy integrations from writing on every request
+const USAGE_UPDATE_INTERVAL_MS = 60 * 1000;
+
+const API_KEY_COLUMNS = 'id, name, key_prefix, scopes, expires_at, last_used_at, last_used_ip, revoked_at, created_at';
+
+export interface ApiKeyPrincipal {
+    apiKeyId: number;
+    userId: number;
+    email: string;
+    roleId: number;
+    scopes: ApiKeyScope[];
+    restriction: AccountRestriction | null;
+}
+
+const lastUsageUpdate = new Map<number, number>();
+
+/**
+ * Create an API key for a user. The full key is only returned here, afterwards only its prefix is shown.
+ * @param userId Owner of the key, requests made with it act as this user
+ * @param name Name to recognise the key by
+ * @param scopes What the key may be used for
+ * @param expiresAt When the key stops working, 90 days from now when omitted
+ * @returns The stored key and the full key to hand to the integration
+ */
+export const createApiKey = async (
+    userId: number,
+    name: string,
+    scopes: ApiKeyScope[],
+    expiresAt?: Date | null
+): Promise<{ key: string; apiKey: any }> => {
+    const day = 24 * 60 * 60 * 1000;
+    const expiry = expiresAt || new Date(Date.now() + DEFAULT_LIFETIME_DAYS * day);
+
+    if (expiry.getTime() > Date.now() + MAX_LIFETIME_DAYS * day) {
+        throw new ValidationError(`API keys can be valid for at most ${MAX_LIFETIME_DAYS} days`);
+    }
+
+    const [active]: any = await pool.query(
+        'SELECT COUNT(*) as count FROM api_keys WHERE user_id = ? AND revoked_at IS NULL AND expires_at > NOW()',
+        [userId]
+    );
+
+    if (active[0].count >= MAX_ACTIVE_KEYS) {
+        throw new ConflictError(`You can have at most ${MAX_ACTIVE_KEYS} active API keys, revoke one first`);
+    }
+
+    const prefix = `${KEY_PREFIX}_${crypto.randomBytes(4).toString('hex')}`;
+    const key = `${prefix}_${crypto.randomBytes(24).toString('base64url')}`;
+
+    const [result]: any = await pool.query(
+        'INSERT INTO api_keys (user_id, name, key_prefix, key_hash, scopes, expires_at) VALUES (?, ?, ?, ?, ?, ?)',
+        [userId, name, prefix, hashToken(key), JSON.stringify(Array.from(new Set(scopes))), expiry]
+    );
+
+    securityLogger.info('API key created', { userId, apiKeyId: result.insertId, prefix, scopes });
+
+    const [rows]: any = await pool.query(`SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE id = ?`, [result.insertId]);
+    return { key, apiKey: rows[0] };
+};
+
+/**
+ * List the API keys of a user, including revoked and expired ones
+ * @param userId User ID
+ */
+export const getUserApiKeys = async (userId: number): Promise<any[]> => {
+    const [rows]: any = await pool.query(
+        `SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE user_id = ? ORDER BY created_at DESC, id DESC`,
+        [userId]
+    );
+
+    return rows || [];
+};
+
+/**
+ * Revoke an API key so it stops working immediately
+ * @param userId Owner of the key
+ * @param apiKeyId Key ID
+ */
+export const revokeApiKey = async (userId: number, apiKeyId: number): Promise<void> => {
+    const [rows]: any = await pool.query(
+        'SELECT id, revoked_at FROM api_keys WHERE id = ? AND user_id = ?',
+        [apiKeyId, userId]
+    );
+
+    if (!rows || rows.length === 0) {
+        throw new NotFoundError(`API key with ID ${apiKeyId} not found`);
+    }
+
+    if (rows[0].revoked_at) {
+        throw new ConflictError('API key has already been revoked');
+    }
+
+    await pool.query('UPDATE api_keys SET revoked_at = NOW() WHERE id = ?', [apiKeyId]);
+    lastUsageUpdate.delete(apiKeyId);
+
+    securityLogger.info('API key revoked', { userId, apiKeyId });
+};
+
+/**
+ * Revoke every API key of a user, e.g. when the account is deleted
+ * @param userId User ID
+ */
+export const revokeUserApiKeys = async (userId: number): Promise<void> => {
+    const [result]: any = await pool.query(
+        'UPDATE api_keys SET revoked_at = NOW() WHERE user_id = ? AND revoked_at IS NULL',
+        [userId]
+    );
+
+    if (result.affectedRows > 0) {
+        securityLogger.info('API keys revoked', { userId, count: result.affectedRows });
+    }
+};
+
+/**
+ * Remember when and from where a key was last used
+ * @param apiKeyId Key ID
+ * @param ipAddress IP address of the client
+ */
+const recordApiKeyUsage = (apiKeyId: number, ipAddress: string | null): void => {
+    const now = Date.now();
+    if (now - (lastUsageUpdate.get(apiKeyId) || 0) < USAGE_UPDATE_INTERVAL_MS) {
+        return;
+    }
+    lastUsageUpdate.set(apiKeyId, now);
+
+    pool.query('UPDATE api_keys SET last_used_at = NOW(), last_used_ip = ? WHERE id = ?', [ipAddress, apiKeyId])
+        .catch((error) => logger.error(`Error recording usage of API key ${apiKeyId}:`, error));
+};
+
+/**
+ * Look up the user behind an API key
+ * @param key Full API key sent by the client
+ * @param ipAddress IP address of the client
+ * @returns The key owner and scopes, or null if the key is unknown, revoked or expired
+ */
+export const verifyApiKey = async (key: string, ipAddress: string | null): Promise<ApiKeyPrincipal | null> => {
+    const match = /^(sgk_[0-9a-f]{8})_[A-Za-z0-9_-]+$/.exec(key);
+    if (!match) {
+        return null;
+    }
+
+    const [rows]: any = await pool.query(
+        `SELECT k.id, k.key_hash, k.scopes, k.expires_at, k.revoked_at,
+                u.id as user_id, u.email, u.role_id, u.status, u.status_reason, u.status_expires_at
+         FROM api_keys k
+         JOIN users u ON k.user_id = u.id
+         WHERE k.key_prefix = ?`,
+        [match[1]]
+    );
+
+    if (!rows || rows.length === 0) {
+        return null;
+    }
+
+    const apiKey = rows[0];
+    const expected = Buffer.from(apiKey.key_hash, 'hex');
+    const actual = Buffer.from(hashToken(key), 'hex');
+
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        securityLogger.warn('API key with a known prefix but wrong secret', { apiKeyId: apiKey.id, ipAddress });
+        return null;
+    }
+
+    if (apiKey.revoked_at || new Date(apiKey.expires_at) <= new Date()) {
+        return null;
+    }
+
+    recordApiKeyUsage(apiKey.id, ipAddress);
+
+    return {
+        apiKeyId: apiKey.id,
+        userId: apiKey.user_id,
+        email: apiKey.email,
+        roleId: apiKey.role_id,
+        scopes: typeof apiKey.scopes === 'string' ? JSON.parse(apiKey.scopes) : apiKey.scopes,
+        restriction: getRestriction(apiKey)
+    };
+};
@@ -0,0 +1,434 @@
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { AppointmentStatus } from '../models/appointment.model';
+import { AppointmentActorRole, AppointmentEventType } from '../models/appointmentEvent.model';
+import { NoShowEnforcement } from '../models/saloon.model';
+import { assertWithinBusinessHours } from './businessHours.service';
+import { Queryable, getBookedServices, reserveSlot } from './availability.service';
+import { sendAppointmentRescheduledEmail } from './email.service';
+
+export interface AppointmentActor {
+    // Null for changes made by the system
+    userId: number | null;
+    role: AppointmentActorRole;
+}
+
+export interface AppointmentEventInput {
+    appointmentId: number;
+    type: AppointmentEventType;
+    actor: AppointmentActor;
+    fromStatus: AppointmentStatus | null;
+    toStatus: AppointmentStatus;
+    reason?: string | null;
+    metadata?: Record<string, unknown> | null;
+}
+
+export interface NoShowPolicy {
+    no_show_threshold: number | null;
+    no_show_enforcement: NoShowEnforcement;
+}
+
+export interface NewAppointment {
+    guestId: number;
+    saloonId: number;
+    staffId: number | null;
+    appointmentDate: Date;
+    status: AppointmentStatus;
+    // In the order they are performed
+    serviceIds: number[];
+    notes?: string | null;
+    // Recurring series the appointment belongs to
+    seriesId?: number | null;
+    // Kept with the booking event, e.g. where the booking came from
+    metadata?: Record<string, unknown>;
+}
+
+export interface RescheduleChanges {
+    appointmentDate: Date;
+    // Left out to keep the current stylist, null to let any free stylist take it
+    staffId?: number | null;
+    reason?: string | null;
+}
+
+export interface RescheduleResult {
+    appointmentId: number;
+    previousDate: Date;
+    appointmentDate: Date;
+    staffId: number | null;
+    status: AppointmentStatus;
+}
+
+export interface MovedAppointment extends RescheduleResult {
+    guestId: number;
+    ownerId: number;
+    saloonName: string;
+}
+
+/**
+ * Check whether it is too late for a guest to cancel or move a confirmed appointment
+ * @param appointmentDate Start of the appointment
+ * @param cutoffHours Hours before the start from which the saloon no longer allows it
+ */
+export const isWithinCancellationCutoff = (appointmentDate: Date, cutoffHours: number): boolean =>
+    Date.now() > new Date(appointmentDate).getTime() - cutoffHours * 60 * 60 * 1000;
+
+/**
+ * Explain why a guest can no longer cancel or move a confirmed appointment
+ * @param action What the guest tried, e.g. "cancelled"
+ * @param cutoffHours Cancellation cutoff of the saloon
+ */
+export const getCutoffMessage = (action: string, cutoffHours: number): string =>
+    cutoffHours > 0
+        ? `Confirmed appointments can only be ${action} up to ${cutoffHours} hours before they start, please contact the salon`
+        : `Appointments that have already started cannot be ${action}`;
+
+/**
+ * Get how many confirmed appointments a guest did not come to
+ * @param guestId User ID of the guest
+ * @param db Pool or transaction connection
+ */
+export const getGuestNoShowCount = async (guestId: number, db: Queryable = pool): Promise<number> => {
+    const [users]: any = await db.query('SELECT no_show_count FROM users WHERE id = ?', [guestId]);
+    return users && users.length > 0 ? users[0].no_show_count : 0;
+};
+
+/**
+ * Find the enforcement a saloon applies to a guest because of their no-shows
+ * @param policy No-show settings of the saloon
+ * @param noShowCount No-shows of the guest
+ * @returns The enforcement, or null when the guest is below the threshold or the saloon has none
+ */
+export const getNoShowEnforcement = (policy: NoShowPolicy, noShowCount: number): NoShowEnforcement | null =>
+    policy.no_show_threshold && noShowCount >= policy.no_show_threshold ? policy.no_show_enforcement : null;
+
+/**
+ * Add an entry to the timeline of an appointment. Run it in the transaction that changes the appointment,
+ * so the timeline never misses a change.
+ * @param db Transaction connection
+ * @param event Event details
+ */
+export const recordAppointmentEvent = async (db: Queryable, event: AppointmentEventInput): Promise<void> => {
+    await db.query(
+        `INSERT INTO appointment_events (appointment_id, event_type, actor_id, actor_role, from_status, to_status, reason, metadata)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+            event.appointmentId,
+            event.type,
+            event.actor.userId,
+            event.actor.role,
+            event.fromStatus,
+            event.toStatus,
+            event.reason || null,
+            event.metadata ? JSON.stringify(event.metadata) : null
+        ]
+    );
+};
+
+/**
+ * Create an appointment with its services and record the booking in its timeline.
+ * Run it in the booking transaction, after reserveSlot has checked the time.
+ * @param db Transaction connection
+ * @param appointment Appointment details
+ * @returns ID of the new appointment
+ */
+export const insertAppointment = async (db: Queryable, appointment: NewAppointment): Promise<number> => {
+    const [result]: any = await db.query(
+        `INSERT INTO appointments (guest_id, saloon_id, staff_id, series_id, appointment_date, status, notes)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+            appointment.guestId, appointment.saloonId, appointment.staffId, appointment.seriesId || null,
+            appointment.appointmentDate, appointment.status, appointment.notes || null
+        ]
+    );
+
+    const appointmentId = result.insertId;
+
+    // Insert the services using a single bulk insert query
+    if (appointment.serviceIds.length > 0) {
+        await db.query(
+            `INSERT INTO appointment_services (appointment_id, service_id) VALUES ${appointment.serviceIds.map(() => '(?, ?)').join(', ')}`,
+            appointment.serviceIds.flatMap((serviceId) => [appointmentId, serviceId])
+        );
+    }
+
+    await recordAppointmentEvent(db, {
+        appointmentId,
+        type: AppointmentEventType.BOOKED,
+        actor: { userId: appointment.guestId, role: AppointmentActorRole.GUEST },
+        fromStatus: null,
+        toStatus: appointment.status,
+        metadata: {
+            appointment_date: appointment.appointmentDate.toISOString(),
+            staff_id: appointment.staffId,
+            ...appointment.metadata
+        }
+    });
+
+    return appointmentId;
+};
+
+/**
+ * Get the timeline of an appointment, oldest events first
+ * @param appointmentId Appointment ID
+ */
+export const getAppointmentHistory = async (appointmentId: number | string): Promise<any[]> => {
+    const [events]: any = await pool.query(
+        `SELECT e.id, e.event_type, e.actor_id, u.name as actor_name, e.actor_role,
+                e.from_status, e.to_status, e.reason, e.metadata, e.created_at
+         FROM appointment_events e
+         LEFT JOIN users u ON e.actor_id = u.id
+         WHERE e.appointment_id = ?
+         ORDER BY e.created_at, e.id`,
+        [appointmentId]
+    );
+
+    return events;
+};
+
+/**
+ * Change the status of an appointment and record the change in its timeline
+ * @param appointmentId Appointment ID
+ * @param fromStatus Status the change was validated against
+ * @param toStatus New status
+ * @param actor User making the change and their role
+ * @param notes New notes, left out to keep the current ones
+ * @param reason Why the status changed
+ */
+export const changeAppointmentStatus = async (
+    appointmentId: number,
+    fromStatus: AppointmentStatus,
+    toStatus: AppointmentStatus,
+    actor: AppointmentActor,
+    notes?: string | null,
+    reason?: string | null
+): Promise<void> => {
+    const connection = await pool.getConnection();
+
+    try {
+        await connection.beginTransaction();
+
+        const updateFields = ['status = ?'];
+        const updateValues: any[] = [toStatus];
+
+        if (notes !== undefined) {
+            updateFields.push('notes = ?');
+            updateValues.push(notes);
+        }
+
+        // Only applies when nobody changed the status since it was validated
+        const [result]: any = await connection.query(
+            `UPDATE appointments SET ${updateFields.join(', ')}, updated_at = NOW() WHERE id = ? AND status = ?`,
+            [...updateValues, appointmentId, fromStatus]
+        );
+
+        if (result.affectedRows === 0) {
+            throw new ConflictError('The appointment was changed by someone else, please reload it and try again');
+        }
+
+        if (toStatus === AppointmentStatus.NO_SHOW) {
+            await connection.query(
+                `UPDATE users u JOIN appointments a ON a.guest_id = u.id
+                 SET u.no_show_count = u.no_show_count + 1
+                 WHERE a.id = ?`,
+                [appointmentId]
+            );
+        }
+
+        await recordAppointmentEvent(connection, {
+            appointmentId,
+            type: AppointmentEventType.STATUS_CHANGED,
+            actor,
+            fromStatus,
+            toStatus,
+            reason
+        });
+
+        await connection.commit();
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+};
+
+/**
+ * Email the other party of an appointment that it was moved. Failures are only logged.
+ * @param recipientId User to notify
+ * @param saloonName Name of the saloon
+ * @param previousDate Old time
+ * @param newDate New time
+ * @param awaitingConfirmation Whether the saloon still has to confirm the new time
+ */
+const notifyRescheduled = async (
+    recipientId: number,
+    saloonName: string,
+    previousDate: Date,
+    newDate: Date,
+    awaitingConfirmation: boolean
+): Promise<void> => {
+    const [users]: any = await pool.query('SELECT name, email FROM users WHERE id = ?', [recipientId]);
+
+    if (!users || users.length === 0) {
+        return;
+    }
+
+    await sendAppointmentRescheduledEmail(users[0].email, users[0].name, saloonName, previousDate, newDate, awaitingConfirmation);
+};
+
+/**
+ * Move an appointment to another time inside a transaction, keeping its services and notes.
+ * The new time is checked like a new booking, and the old one is kept in the reschedule history.
+ * @param db Transaction connection
+ * @param appointmentId Appointment ID
+ * @param changes New time, stylist and reason
+ * @param actor User moving the appointment, as the guest or as the saloon owner
+ */
+export const moveAppointment = async (
+    db: Queryable,
+    appointmentId: number,
+    changes: RescheduleChanges,
+    actor: AppointmentActor
+): Promise<MovedAppointment> => {
+    const actsAsOwner = actor.role === AppointmentActorRole.OWNER;
+
+    // Lock the appointment and its saloon, bookings of the saloon are checked one at a time
+    const [appointments]: any = await db.query(
+        `SELECT a.id, a.guest_id, a.saloon_id, a.staff_id, a.appointment_date, a.status,
+                s.owner_id, s.name AS saloon_name, s.reschedule_requires_confirmation,
+                s.cancellation_cutoff_hours, s.no_show_threshold, s.no_show_enforcement,
+                u.no_show_count
+         FROM appointments a
+         JOIN saloons s ON a.saloon_id = s.id
+         JOIN users u ON a.guest_id = u.id
+         WHERE a.id = ?
+         FOR UPDATE`,
+        [appointmentId]
+    );
+
+    if (!appointments || appointments.length === 0) {
+        throw new NotFoundError(`Appointment with ID ${appointmentId} not found`);
+    }
+
+    const appointment = appointments[0];
+
+    if (![AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED].includes(appointment.status)) {
+        throw new ValidationError(`Cannot reschedule an appointment that is ${appointment.status}`);
+    }
+
+    const previousDate = new Date(appointment.appointment_date);
+
+    if (!actsAsOwner && appointment.status === AppointmentStatus.CONFIRMED &&
+        isWithinCancellationCutoff(previousDate, appointment.cancellation_cutoff_hours)) {
+        throw new ValidationError(getCutoffMessage('moved', appointment.cancellation_cutoff_hours));
+    }
+    const requestedStaffId = changes.staffId !== undefined ? changes.staffId : appointment.staff_id;
+
+    if (previousDate.getTime() === changes.appointmentDate.getTime() && requestedStaffId === appointment.staff_id) {
+        throw new ValidationError('The appointment is already booked for this time');
+    }
+
+    const [serviceRows]: any = await db.query(
+        'SELECT service_id FROM appointment_services WHERE appointment_id = ? ORDER BY id',
+        [appointmentId]
+    );
+    const serviceIds: number[] = serviceRows.map((row: any) => row.service_id);
+    const { duration } = await getBookedServices(appointment.saloon_id, serviceIds, db);
+
+    await assertWithinBusinessHours(appointment.saloon_id, changes.appointmentDate, duration);
+
+    // The appointment's own time does not count against the new one
+    const staffId = await reserveSlot(appointment.saloon_id, changes.appointmentDate, duration, {
+        serviceIds,
+        staffId: requestedStaffId,
+        excludeAppointmentId: appointment.id,
+        db
+    });
+
+    // A confirmed time the guest moves has to be confirmed again when the saloon asks for it,
+    // or when the guest missed too many appointments
+    const needsConfirmation = appointment.reschedule_requires_confirmation ||
+        getNoShowEnforcement(appointment, appointment.no_show_count) !== null;
+    const status = !actsAsOwner && appointment.status === AppointmentStatus.CONFIRMED && needsConfirmation
+        ? AppointmentStatus.PENDING
+        : appointment.status;
+
+    await db.query(
+        'UPDATE appointments SET appointment_date = ?, staff_id = ?, status = ?, updated_at = NOW() WHERE id = ?',
+        [changes.appointmentDate, staffId, status, appointmentId]
+    );
+
+    await db.query(
+        `INSERT INTO appointment_reschedules
+         (appointment_id, previous_date, new_date, previous_staff_id, new_staff_id, previous_status, new_status, rescheduled_by, reason)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+            appointmentId, previousDate, changes.appointmentDate, appointment.staff_id, staffId,
+            appointment.status, status, actor.userId, changes.reason || null
+        ]
+    );
+
+    await recordAppointmentEvent(db, {
+        appointmentId,
+        type: AppointmentEventType.RESCHEDULED,
+        actor,
+        fromStatus: appointment.status,
+        toStatus: status,
+        reason: changes.reason,
+        metadata: {
+            previous_date: previousDate.toISOString(),
+            new_date: changes.appointmentDate.toISOString(),
+            previous_staff_id: appointment.staff_id,
+            new_staff_id: staffId
+        }
+    });
+
+    return {
+        appointmentId,
+        previousDate,
+        appointmentDate: changes.appointmentDate,
+        staffId,
+        status,
+        guestId: appointment.guest_id,
+        ownerId: appointment.owner_id,
+        saloonName: appointment.saloon_name
+    };
+};
+
+/**
+ * Move an appointment to another time and let the other party know
+ * @param appointmentId Appointment ID
+ * @param changes New time, stylist and reason
+ * @param actor User moving the appointment, as the guest or as the saloon owner
+ */
+export const rescheduleAppointment = async (
+    appointmentId: number,
+    changes: RescheduleChanges,
+    actor: AppointmentActor
+): Promise<RescheduleResult> => {
+    const connection = await pool.getConnection();
+
+    try {
+        await connection.beginTransaction();
+        const { guestId, ownerId, saloonName, ...result } = await moveAppointment(connection, appointmentId, changes, actor);
+        await connection.commit();
+
+        logger.info(`Appointment ID: ${appointmentId} rescheduled from ${result.previousDate.toISOString()} to ${changes.appointmentDate.toISOString()} by user ID: ${actor.userId}`);
+
+        notifyRescheduled(
+            actor.role === AppointmentActorRole.OWNER ? guestId : ownerId,
+            saloonName,
+            result.previousDate,
+            changes.appointmentDate,
+            result.status === AppointmentStatus.PENDING
+        ).catch((error) => logger.error('Error sending appointment rescheduled email:', error));
+
+        return result;
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+};
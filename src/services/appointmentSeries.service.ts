@@ -0,0 +1,533 @@
+import pool from '../config/db';
+import logger from '../utils/logger';
+import {
+    AuthorizationError,
+    NotFoundError,
+    OccurrenceConflict,
+    SeriesConflictError,
+    SlotUnavailableError,
+    ValidationError
+} from '../utils/errors';
+import { AppointmentStatus } from '../models/appointment.model';
+import { AppointmentActorRole, AppointmentEventType } from '../models/appointmentEvent.model';
+import { RecurrenceFrequency } from '../models/appointmentSeries.model';
+import { NoShowEnforcement } from '../models/saloon.model';
+import { Queryable, findAlternativesFor, getBookedServices, reserveSlot } from './availability.service';
+import { assertWithinBusinessHours, parseDateString, toDateString } from './businessHours.service';
+import {
+    AppointmentActor,
+    MovedAppointment,
+    RescheduleChanges,
+    RescheduleResult,
+    getCutoffMessage,
+    getGuestNoShowCount,
+    getNoShowEnforcement,
+    insertAppointment,
+    isWithinCancellationCutoff,
+    moveAppointment,
+    recordAppointmentEvent
+} from './appointment.service';
+import { offerFreedSlot } from './waitlist.service';
+import { sendAppointmentSeriesRescheduledEmail } from './email.service';
+
+// Most appointments one series can book, about a year of weekly visits
+const MAX_OCCURRENCES = 52;
+
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    // Weeks or months between occurrences
+    interval: number;
+    // Either a number of occurrences or the last date they can fall on (YYYY-MM-DD)
+    count?: number;
+    until?: string;
+}
+
+export interface SeriesRequest {
+    saloonId: number;
+    serviceIds: number[];
+    staffId?: number | null;
+    // First occurrence
+    appointmentDate: Date;
+    notes?: string | null;
+    recurrence: RecurrenceRule;
+    // Book the free occurrences and report the others instead of booking nothing
+    skipConflicts?: boolean;
+}
+
+export interface BookedOccurrence {
+    appointmentId: number;
+    appointmentDate: Date;
+    staffId: number | null;
+}
+
+export interface CreatedSeries {
+    seriesId: number;
+    status: AppointmentStatus;
+    appointments: BookedOccurrence[];
+    skipped: OccurrenceConflict[];
+}
+
+/**
+ * Move a date by a number of months, keeping the time. Days that the month does not have become its last day.
+ * @param date Date to move
+ * @param months Months to add
+ */
+const addMonthsClamped = (date: Date, months: number): Date => {
+    const result = new Date(date);
+    result.setDate(1);
+    result.setMonth(result.getMonth() + months);
+
+    const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+    result.setDate(Math.min(date.getDate(), lastDay));
+
+    return result;
+};
+
+/**
+ * Work out when the appointments of a series take place, in server time so they keep their time of day
+ * @param first First occurrence
+ * @param rule How often the appointment repeats and until when
+ */
+export const getOccurrenceDates = (first: Date, rule: RecurrenceRule): Date[] => {
+    const dates: Date[] = [];
+
+    for (let index = 0; index <= MAX_OCCURRENCES; index++) {
+        if (rule.count !== undefined && index >= rule.count) {
+            break;
+        }
+
+        const date = rule.frequency === RecurrenceFrequency.MONTHLY
+            ? addMonthsClamped(first, index * rule.interval)
+            : new Date(first.getFullYear(), first.getMonth(), first.getDate() + index * 7 * rule.interval,
+                first.getHours(), first.getMinutes(), first.getSeconds());
+
+        if (rule.until !== undefined && toDateString(date) > rule.until) {
+            break;
+        }
+
+        dates.push(date);
+    }
+
+    if (dates.length > MAX_OCCURRENCES) {
+        throw new ValidationError(`A series can have at most ${MAX_OCCURRENCES} appointments, choose an earlier end date`);
+    }
+
+    if (dates.length < 2) {
+        throw new ValidationError('A series needs at least two appointments, choose a later end date');
+    }
+
+    return dates;
+};
+
+/**
+ * Look up the free times around the occurrences that could not be booked or moved.
+ * Called after the series transaction has ended, so the searches do not run while the saloon is locked.
+ * @param conflicts Occurrences that could not be booked or moved
+ */
+const addConflictAlternatives = async (conflicts: OccurrenceConflict[]): Promise<void> => {
+    for (const conflict of conflicts) {
+        if (conflict.slot) {
+            conflict.alternatives = await findAlternativesFor(conflict.slot);
+        }
+    }
+};
+
+/**
+ * Book all appointments of a recurring series in one go. Every occurrence is checked like a normal booking.
+ * @param guestId User ID of the guest
+ * @param request Services, first time and recurrence
+ * @returns The series with the booked appointments and the occurrences that were skipped
+ * @throws SeriesConflictError when an occurrence cannot be booked and conflicts are not skipped
+ */
+export const createAppointmentSeries = async (guestId: number, request: SeriesRequest): Promise<CreatedSeries> => {
+    const dates = getOccurrenceDates(request.appointmentDate, request.recurrence);
+
+    const [saloons]: any = await pool.query(
+        'SELECT id, auto_confirm_bookings, no_show_threshold, no_show_enforcement FROM saloons WHERE id = ?',
+        [request.saloonId]
+    );
+
+    if (!saloons || saloons.length === 0) {
+        throw new NotFoundError(`Salon with ID ${request.saloonId} not found`);
+    }
+
+    const enforcement = getNoShowEnforcement(saloons[0], await getGuestNoShowCount(guestId));
+    if (enforcement === NoShowEnforcement.BLOCK) {
+        throw new AuthorizationError('This salon does not take online bookings after missed appointments, please contact the salon');
+    }
+
+    const status = saloons[0].auto_confirm_bookings && !enforcement ? AppointmentStatus.CONFIRMED : AppointmentStatus.PENDING;
+    const { duration } = await getBookedServices(request.saloonId, request.serviceIds);
+
+    const connection = await pool.getConnection();
+    let series: CreatedSeries;
+
+    try {
+        await connection.beginTransaction();
+        await connection.query('SELECT id FROM saloons WHERE id = ? FOR UPDATE', [request.saloonId]);
+
+        const [result]: any = await connection.query(
+            `INSERT INTO appointment_series (guest_id, saloon_id, frequency, interval_count, starts_at, ends_on, occurrences)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [
+                guestId, request.saloonId, request.recurrence.frequency, request.recurrence.interval,
+                request.appointmentDate, request.recurrence.until || null, request.recurrence.count || null
+            ]
+        );
+        const seriesId = result.insertId;
+
+        const options = { serviceIds: request.serviceIds, staffId: request.staffId, db: connection };
+        const appointments: BookedOccurrence[] = [];
+        const conflicts: OccurrenceConflict[] = [];
+
+        for (const appointmentDate of dates) {
+            // Closed that day or outside the opening hours
+            try {
+                await assertWithinBusinessHours(request.saloonId, appointmentDate, duration);
+            } catch (error) {
+                if (!(error instanceof ValidationError)) {
+                    throw error;
+                }
+
+                conflicts.push({
+                    appointmentDate,
+                    reason: error.message,
+                    alternatives: [],
+                    slot: {
+                        saloonId: request.saloonId,
+                        start: appointmentDate,
+                        durationMinutes: duration,
+                        serviceIds: request.serviceIds,
+                        staffId: request.staffId
+                    }
+                });
+                continue;
+            }
+
+            let staffId: number | null;
+            try {
+                staffId = await reserveSlot(request.saloonId, appointmentDate, duration, options);
+            } catch (error) {
+                if (!(error instanceof SlotUnavailableError)) {
+                    throw error;
+                }
+
+                conflicts.push({ appointmentDate, reason: error.message, alternatives: [], slot: error.slot });
+                continue;
+            }
+
+            const appointmentId = await insertAppointment(connection, {
+                guestId,
+                saloonId: request.saloonId,
+                staffId,
+                seriesId,
+                appointmentDate,
+                status,
+                serviceIds: request.serviceIds,
+                notes: request.notes,
+                metadata: { series_id: seriesId }
+            });
+
+            appointments.push({ appointmentId, appointmentDate, staffId });
+        }
+
+        if (appointments.length === 0 || (conflicts.length > 0 && !request.skipConflicts)) {
+            throw new SeriesConflictError(
+                `${conflicts.length} of ${dates.length} appointments of the series cannot be booked`,
+                conflicts
+            );
+        }
+
+        await connection.commit();
+
+        logger.info(`Appointment series ID: ${seriesId} booked for guest ID: ${guestId}, ${appointments.length} appointment(s), ${conflicts.length} skipped`);
+
+        series = { seriesId, status, appointments, skipped: conflicts };
+    } catch (error) {
+        await connection.rollback();
+
+        if (error instanceof SeriesConflictError) {
+            await addConflictAlternatives(error.conflicts);
+        }
+        throw error;
+    } finally {
+        connection.release();
+    }
+
+    await addConflictAlternatives(series.skipped);
+
+    return series;
+};
+
+/**
+ * Get a recurring series with all its appointments (guest or saloon owner)
+ * @param seriesId Series ID
+ * @param userId User asking for it
+ */
+export const getAppointmentSeries = async (seriesId: number | string, userId: number): Promise<any> => {
+    const [rows]: any = await pool.query(
+        `SELECT r.id, r.guest_id, r.saloon_id, s.name as saloon_name, s.owner_id, r.frequency, r.interval_count,
+                r.starts_at, r.ends_on, r.occurrences, r.created_at
+         FROM appointment_series r
+         JOIN saloons s ON r.saloon_id = s.id
+         WHERE r.id = ?`,
+        [seriesId]
+    );
+
+    if (!rows || rows.length === 0) {
+        throw new NotFoundError(`Appointment series with ID ${seriesId} not found`);
+    }
+
+    const { owner_id: ownerId, ...series } = rows[0];
+
+    if (series.guest_id !== userId && ownerId !== userId) {
+        throw new AuthorizationError('You can only view your own appointment series');
+    }
+
+    const [appointments]: any = await pool.query(
+        'SELECT id, staff_id, appointment_date, status FROM appointments WHERE series_id = ? ORDER BY appointment_date',
+        [seriesId]
+    );
+
+    return {
+        ...series,
+        ends_on: series.ends_on ? toDateString(new Date(series.ends_on)) : null,
+        appointments
+    };
+};
+
+/**
+ * Load an appointment with its series and the occurrences from it onwards that can still change.
+ * Run it inside a transaction, the occurrences are locked.
+ * @param db Transaction connection
+ * @param appointmentId Appointment ID
+ */
+const getFollowingOccurrences = async (db: Queryable, appointmentId: number): Promise<{ appointment: any; occurrences: any[] }> => {
+    const [appointments]: any = await db.query(
+        `SELECT a.id, a.series_id, a.saloon_id, a.appointment_date, a.status, s.cancellation_cutoff_hours
+         FROM appointments a
+         JOIN saloons s ON a.saloon_id = s.id
+         WHERE a.id = ?`,
+        [appointmentId]
+    );
+
+    if (!appointments || appointments.length === 0) {
+        throw new NotFoundError(`Appointment with ID ${appointmentId} not found`);
+    }
+
+    const appointment = appointments[0];
+
+    if (!appointment.series_id) {
+        throw new ValidationError('The appointment is not part of a recurring series');
+    }
+
+    const [occurrences]: any = await db.query(
+        `SELECT id, appointment_date, status FROM appointments
+         WHERE series_id = ? AND appointment_date >= ? AND status IN (?, ?)
+         ORDER BY appointment_date
+         FOR UPDATE`,
+        [appointment.series_id, appointment.appointment_date, AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED]
+    );
+
+    return { appointment, occurrences };
+};
+
+/**
+ * Cancel an appointment and all later appointments of its series
+ * @param appointmentId Appointment ID, the first one to cancel
+ * @param actor User cancelling, as the guest or as the saloon owner
+ * @param reason Why the appointments were cancelled
+ * @returns IDs of the cancelled appointments
+ */
+export const cancelFollowingOccurrences = async (
+    appointmentId: number,
+    actor: AppointmentActor,
+    reason?: string | null
+): Promise<number[]> => {
+    const connection = await pool.getConnection();
+    let appointment: any;
+    let occurrences: any[];
+
+    try {
+        await connection.beginTransaction();
+        ({ appointment, occurrences } = await getFollowingOccurrences(connection, appointmentId));
+
+        for (const occurrence of occurrences) {
+            if (actor.role === AppointmentActorRole.GUEST && occurrence.status === AppointmentStatus.CONFIRMED &&
+                isWithinCancellationCutoff(new Date(occurrence.appointment_date), appointment.cancellation_cutoff_hours)) {
+                throw new ValidationError(getCutoffMessage('cancelled', appointment.cancellation_cutoff_hours));
+            }
+
+            await connection.query(
+                'UPDATE appointments SET status = ?, updated_at = NOW() WHERE id = ?',
+                [AppointmentStatus.CANCELLED, occurrence.id]
+            );
+
+            await recordAppointmentEvent(connection, {
+                appointmentId: occurrence.id,
+                type: AppointmentEventType.STATUS_CHANGED,
+                actor,
+                fromStatus: occurrence.status,
+                toStatus: AppointmentStatus.CANCELLED,
+                reason,
+                metadata: { series_id: appointment.series_id, cancelled_from: appointmentId }
+            });
+        }
+
+        await connection.commit();
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+
+    logger.info(`Cancelled ${occurrences.length} appointment(s) of series ID: ${appointment.series_id} from appointment ID: ${appointmentId}`);
+
+    // Guests waiting for a fully booked day get the freed times offered
+    for (const occurrence of occurrences) {
+        offerFreedSlot(occurrence.id)
+            .catch((error) => logger.error(`Error offering freed time of appointment ID ${occurrence.id} to the waitlist:`, error));
+    }
+
+    return occurrences.map((occurrence) => occurrence.id);
+};
+
+/**
+ * Move an appointment and all later appointments of its series by the same number of days, to the same
+ * new time of day. Either every appointment moves or none does.
+ * @param appointmentId Appointment ID, the first one to move
+ * @param changes New time of the first appointment, stylist and reason
+ * @param actor User moving the appointments, as the guest or as the saloon owner
+ * @returns The moved appointments
+ * @throws SeriesConflictError when an appointment cannot be moved
+ */
+export const rescheduleFollowingOccurrences = async (
+    appointmentId: number,
+    changes: RescheduleChanges,
+    actor: AppointmentActor
+): Promise<RescheduleResult[]> => {
+    const connection = await pool.getConnection();
+    let moved: MovedAppointment[] = [];
+
+    try {
+        await connection.beginTransaction();
+        const { appointment, occurrences } = await getFollowingOccurrences(connection, appointmentId);
+
+        if (appointment.status !== AppointmentStatus.PENDING && appointment.status !== AppointmentStatus.CONFIRMED) {
+            throw new ValidationError(`Cannot reschedule an appointment that is ${appointment.status}`);
+        }
+
+        if (occurrences.length === 0) {
+            throw new ValidationError('No appointments of the series are left to move');
+        }
+
+        const previousDate = new Date(appointment.appointment_date);
+        if (previousDate.getTime() === changes.appointmentDate.getTime() && changes.staffId === undefined) {
+            throw new ValidationError('The appointment is already booked for this time');
+        }
+
+        const dayShift = Math.round(
+            ((parseDateString(toDateString(changes.appointmentDate)) as Date).getTime() -
+                (parseDateString(toDateString(previousDate)) as Date).getTime()) / (24 * 60 * 60 * 1000)
+        );
+
+        const targets = occurrences.map((occurrence) => {
+            const date = new Date(occurrence.appointment_date);
+            return {
+                id: occurrence.id,
+                appointmentDate: new Date(date.getFullYear(), date.getMonth(), date.getDate() + dayShift,
+                    changes.appointmentDate.getHours(), changes.appointmentDate.getMinutes())
+            };
+        });
+
+        // Moving later starts with the last appointment, so each one can take the place the next one leaves
+        if (changes.appointmentDate > previousDate) {
+            targets.reverse();
+        }
+
+        const conflicts: OccurrenceConflict[] = [];
+
+        for (const target of targets) {
+            try {
+                moved.push(await moveAppointment(connection, target.id, {
+                    appointmentDate: target.appointmentDate,
+                    staffId: changes.staffId,
+                    reason: changes.reason
+                }, actor));
+            } catch (error) {
+                if (!(error instanceof ValidationError) && !(error instanceof SlotUnavailableError)) {
+                    throw error;
+                }
+
+                conflicts.push({
+                    appointmentId: target.id,
+                    appointmentDate: target.appointmentDate,
+                    reason: error.message,
+                    alternatives: [],
+                    slot: error instanceof SlotUnavailableError ? error.slot : undefined
+                });
+            }
+        }
+
+        if (conflicts.length > 0) {
+            throw new SeriesConflictError(
+                `${conflicts.length} of ${targets.length} appointments of the series cannot be moved`,
+                conflicts.sort((a, b) => a.appointmentDate.getTime() - b.appointmentDate.getTime())
+            );
+        }
+
+        await connection.commit();
+
+        logger.info(`Moved ${moved.length} appointment(s) of series ID: ${appointment.series_id} from appointment ID: ${appointmentId} by user ID: ${actor.userId}`);
+    } catch (error) {
+        await connection.rollback();
+
+        if (error instanceof SeriesConflictError) {
+            await addConflictAlternatives(error.conflicts);
+        }
+        throw error;
+    } finally {
+        connection.release();
+    }
+
+    moved = moved.sort((a, b) => a.appointmentDate.getTime() - b.appointmentDate.getTime());
+    const first = moved[0];
+
+    notifySeriesRescheduled(
+        actor.role === AppointmentActorRole.OWNER ? first.guestId : first.ownerId,
+        first.saloonName,
+        moved.length,
+        first.previousDate,
+        first.appointmentDate,
+        moved.some((appointment) => appointment.status === AppointmentStatus.PENDING)
+    ).catch((error) => logger.error('Error sending appointment series rescheduled email:', error));
+
+    return moved.map(({ guestId, ownerId, saloonName, ...result }) => result);
+};
+
+/**
+ * Email the other party of a series that its appointments were moved. Failures are only logged.
+ * @param recipientId User to notify
+ * @param saloonName Name of the saloon
+ * @param count Number of appointments moved
+ * @param previousDate Old time of the first moved appointment
+ * @param newDate New time of the first moved appointment
+ * @param awaitingConfirmation Whether the saloon still has to confirm the new times
+ */
+const notifySeriesRescheduled = async (
+    recipientId: number,
+    saloonName: string,
+    count: number,
+    previousDate: Date,
+    newDate: Date,
+    awaitingConfirmation: boolean
+): Promise<void> => {
+    const [users]: any = await pool.query('SELECT name, email FROM users WHERE id = ?', [recipientId]);
+
+    if (!users || users.length === 0) {
+        return;
+    }
+
+    await sendAppointmentSeriesRescheduledEmail(users[0].email, users[0].name, saloonName, count, previousDate, newDate, awaitingConfirmation);
+};
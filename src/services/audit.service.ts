@@ -0,0 +1,157 @@
+import { Request } from 'express';
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { AuditChange, AuditEventType } from '../models/auditEvent.model';
+import { getSessionContext } from './session.service';
+
+// Values of these fields never end up in the audit log, only the fact that they changed
+const REDACTED_FIELDS = ['password'];
+const REDACTED = '[redacted]';
+
+export interface AuditEventInput {
+    type: AuditEventType;
+    // Defaults to the authenticated user of the request
+    actorId?: number | null;
+    targetType?: string | null;
+    targetId?: number | string | null;
+    changes?: Record<string, AuditChange> | null;
+    metadata?: Record<string, unknown> | null;
+}
+
+export interface AuditEventFilters {
+    actorId?: number;
+    type?: string;
+    targetType?: string;
+    targetId?: string;
+    from?: Date;
+    to?: Date;
+    page: number;
+    limit: number;
+}
+
+/**
+ * Compare two versions of a record and list the fields that changed
+ * @param before Values before the change
+ * @param after Values after the change, fields that are undefined were not changed
+ * @returns Changed fields with their old and new values, null if nothing changed
+ */
+export const diffChanges = (
+    before: Record<string, unknown>,
+    after: Record<string, unknown>
+): Record<string, AuditChange> | null => {
+    const changes: Record<string, AuditChange> = {};
+
+    for (const [field, value] of Object.entries(after)) {
+        if (value === undefined || value === before[field]) {
+            continue;
+        }
+
+        changes[field] = REDACTED_FIELDS.includes(field)
+            ? { from: REDACTED, to: REDACTED }
+            : { from: before[field] ?? null, to: value };
+    }
+
+    return Object.keys(changes).length > 0 ? changes : null;
+};
+
+/**
+ * Write an event to the audit log. Failures are logged and never interrupt the request.
+ * @param req Request that caused the event, null for background jobs
+ * @param event Event details
+ */
+export const recordAuditEvent = async (req: Request | null, event: AuditEventInput): Promise<void> => {
+    const context = req ? getSessionContext(req) : null;
+    const actorId = event.actorId !== undefined ? event.actorId : req?.user?.userId ?? null;
+    // Actions taken through an integration name the key that was used
+    const metadata = req?.user?.apiKeyId ? { ...event.metadata, apiKeyId: req.user.apiKeyId } : event.metadata;
+
+    try {
+        await pool.query(
+            `INSERT INTO audit_events (event_type, actor_id, target_type, target_id, ip_address, user_agent, changes, metadata)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                event.type,
+                actorId,
+                event.targetType || null,
+                event.targetId !== undefined && event.targetId !== null ? String(event.targetId) : null,
+                context ? context.ipAddress : null,
+                context ? context.userAgent : null,
+                event.changes ? JSON.stringify(event.changes) : null,
+                metadata ? JSON.stringify(metadata) : null
+            ]
+        );
+    } catch (error) {
+        logger.error(`Error recording audit event ${event.type}:`, error);
+    }
+};
+
+/**
+ * Search the audit log, newest events first
+ * @param filters Search filters and page
+ */
+export const queryAuditEvents = async (filters: AuditEventFilters): Promise<{ events: any[]; pagination: any }> => {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.actorId) {
+        conditions.push('e.actor_id = ?');
+        params.push(filters.actorId);
+    }
+
+    // A type ending in a dot matches every event of that group, e.g. "auth."
+    if (filters.type) {
+        if (filters.type.endsWith('.')) {
+            conditions.push('e.event_type LIKE ?');
+            params.push(`${filters.type}%`);
+        } else {
+            conditions.push('e.event_type = ?');
+            params.push(filters.type);
+        }
+    }
+
+    if (filters.targetType) {
+        conditions.push('e.target_type = ?');
+        params.push(filters.targetType);
+    }
+
+    if (filters.targetId) {
+        conditions.push('e.target_id = ?');
+        params.push(filters.targetId);
+    }
+
+    if (filters.from) {
+        conditions.push('e.created_at >= ?');
+        params.push(filters.from);
+    }
+
+    if (filters.to) {
+        conditions.push('e.created_at <= ?');
+        params.push(filters.to);
+    }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    const offset = (filters.page - 1) * filters.limit;
+
+    const [rows]: any = await pool.query(
+        `SELECT e.id, e.event_type, e.actor_id, u.name as actor_name, u.email as actor_email,
+                e.target_type, e.target_id, e.ip_address, e.user_agent, e.changes, e.metadata, e.created_at
+         FROM audit_events e
+         LEFT JOIN users u ON e.actor_id = u.id${where}
+         ORDER BY e.created_at DESC, e.id DESC
+         LIMIT ? OFFSET ?`,
+        [...params, filters.limit, offset]
+    );
+
+    const [countResult]: any = await pool.query(`SELECT COUNT(*) as total FROM audit_events e${where}`, params);
+    const total = countResult[0].total;
+
+    return {
+        events: rows,
+        pagination: {
+            page: filters.page,
+            limit: filters.limit,
+            total,
+            totalPages: Math.ceil(total / filters.limit)
+        }
+    };
+};
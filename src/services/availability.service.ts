@@ -0,0 +1,570 @@
+import pool from '../config/db';
+import { NotFoundError, RequestedSlot, SlotUnavailableError, ValidationError } from '../utils/errors';
+import { AppointmentStatus } from '../models/appointment.model';
+import { WaitlistOfferStatus } from '../models/waitlist.model';
+import { SlotHoldStatus } from '../models/slotHold.model';
+import { OpeningHours, addDays, getOpeningHours, getOpeningHoursForRange, parseDateString, toDateString } from './businessHours.service';
+import { StaffAvailability, getStaffAvailability, getStaffAvailabilityForDays } from './staff.service';
+
+const SLOT_INTERVAL_MINUTES = 30;
+// Length of services without a duration
+const DEFAULT_SERVICE_DURATION = 60;
+// Where to look for other times when the requested one is taken
+const ALTERNATIVE_SEARCH_DAYS = 7;
+const MAX_ALTERNATIVES = 5;
+
+// The pool, or a connection when the queries have to run inside a transaction
+export type Queryable = { query: (...args: any[]) => Promise<any> };
+
+export interface Booking {
+    id: number;
+    staff_id: number | null;
+    appointment_date: Date;
+    duration: number;
+    // Set for times kept for a guest who has not booked yet, a waitlist offer or a hold during checkout.
+    // The ID is then the offer's or the hold's.
+    hold?: boolean;
+}
+
+export interface BookedService {
+    id: number;
+    name: string;
+    duration: number | null;
+    buffer_minutes: number;
+}
+
+export interface StaffSchedule extends StaffAvailability {
+    bookings: Booking[];
+}
+
+export interface SlotOptions {
+    // Only stylists who perform all of these services
+    serviceIds?: number[];
+    // Only this stylist
+    staffId?: number | null;
+    // Appointment being moved, it does not block its own new time
+    excludeAppointmentId?: number;
+    // Waitlist offer being claimed, it does not block the booking made from it
+    excludeOfferId?: number;
+    // Hold of the guest who is booking, it does not block the guest's own booking
+    excludeHoldId?: number;
+    db?: Queryable;
+}
+
+export interface AvailableSlot {
+    time: Date;
+    // Stylists free at this time, null at saloons without staff
+    staffIds: number[] | null;
+}
+
+export interface DayAvailability {
+    openingHours: OpeningHours;
+    // Null when the saloon has no active staff
+    staff: StaffSchedule[] | null;
+    slots: AvailableSlot[];
+}
+
+/**
+ * Format a time for display, e.g. 9:30 AM
+ * @param date Time to format
+ */
+export const formatTime = (date: Date): string => {
+    let hours = date.getHours();
+    const minutes = date.getMinutes();
+    const ampm = hours >= 12 ? 'PM' : 'AM';
+
+    hours = hours % 12;
+    hours = hours ? hours : 12; // Convert 0 to 12
+
+    const formattedMinutes = minutes < 10 ? '0' + minutes : minutes;
+
+    return `${hours}:${formattedMinutes} ${ampm}`;
+};
+
+/**
+ * Format an available slot for API responses
+ * @param slot Available slot
+ */
+export const formatSlot = (slot: AvailableSlot) => ({
+    time: slot.time.toISOString(),
+    formatted_time: formatTime(slot.time),
+    ...(slot.staffIds ? { staff_ids: slot.staffIds } : {})
+});
+
+/**
+ * Get the time a service keeps a chair busy, including the clean-up buffer after it
+ * @param service Service
+ */
+export const getServiceLength = (service: { duration: number | null; buffer_minutes?: number | null }): number =>
+    (service.duration || DEFAULT_SERVICE_DURATION) + (service.buffer_minutes || 0);
+
+/**
+ * Load the services of a booking and work out how long they take one after another
+ * @param saloonId Saloon ID
+ * @param serviceIds Service IDs, in the order they are performed
+ * @param db Pool or transaction connection
+ * @returns The services and their combined length in minutes, buffers included
+ */
+export const getBookedServices = async (
+    saloonId: number | string,
+    serviceIds: number[],
+    db: Queryable = pool
+): Promise<{ services: BookedService[]; duration: number }> => {
+    if (serviceIds.length === 0) {
+        return { services: [], duration: DEFAULT_SERVICE_DURATION };
+    }
+
+    const [rows]: any = await db.query(
+        `SELECT id, name, duration, buffer_minutes FROM saloon_services WHERE id IN (${serviceIds.map(() => '?').join(',')}) AND saloon_id = ?`,
+        [...serviceIds, saloonId]
+    );
+
+    const missingServiceIds = serviceIds.filter((id) => !rows.some((service: BookedService) => service.id === id));
+    if (missingServiceIds.length > 0) {
+        throw new NotFoundError(`Services with IDs [${missingServiceIds.join(', ')}] not found in this salon`);
+    }
+
+    const services: BookedService[] = serviceIds.map((id) => rows.find((service: BookedService) => service.id === id));
+
+    return {
+        services,
+        duration: services.reduce((total, service) => total + getServiceLength(service), 0)
+    };
+};
+
+/**
+ * Check whether an appointment overlaps a time range
+ * @param booking Appointment
+ * @param start Start of the range
+ * @param end End of the range
+ */
+export const bookingOverlaps = (booking: Booking, start: Date, end: Date): boolean => {
+    const bookingStart = new Date(booking.appointment_date);
+    const bookingEnd = new Date(bookingStart.getTime() + booking.duration * 60 * 1000);
+    return bookingStart < end && start < bookingEnd;
+};
+
+/**
+ * Check that a time slot still has a free chair
+ * @param slotTime Start of the slot
+ * @param slotDuration Length of the slot in minutes
+ * @param bookings Existing appointments
+ * @param chairs Appointments the saloon can run at the same time
+ */
+export const isTimeSlotAvailable = (slotTime: Date, slotDuration: number, bookings: Booking[], chairs = 1): boolean => {
+    const slotEnd = new Date(slotTime.getTime() + slotDuration * 60 * 1000);
+    const overlapping = bookings.filter((booking) => bookingOverlaps(booking, slotTime, slotEnd));
+
+    // The most appointments run at once either at the start of the slot or when one of them starts
+    const moments = [slotTime, ...overlapping.map((booking) => new Date(booking.appointment_date)).filter((moment) => moment > slotTime)];
+    const busiest = Math.max(...moments.map((moment) =>
+        overlapping.filter((booking) => bookingOverlaps(booking, moment, new Date(moment.getTime() + 1))).length
+    ));
+
+    return busiest < chairs;
+};
+
+/**
+ * Get the pending and confirmed appointments of a saloon that overlap a period,
+ * with their length worked out from their services and buffers, the times offered to guests on the waitlist
+ * and the times guests hold during checkout
+ * @param saloonId Saloon ID
+ * @param from Start of the period
+ * @param to End of the period
+ * @param db Pool or transaction connection
+ * @param excludeAppointmentId Appointment to leave out
+ * @param excludeOfferId Waitlist offer to leave out
+ * @param excludeHoldId Hold to leave out
+ */
+export const getSaloonBookings = async (
+    saloonId: number | string,
+    from: Date,
+    to: Date,
+    db: Queryable = pool,
+    excludeAppointmentId?: number,
+    excludeOfferId?: number,
+    excludeHoldId?: number
+): Promise<Booking[]> => {
+    // No appointment lasts longer than a day, so earlier ones cannot reach into the period
+    const earliestStart = new Date(from.getTime() - 24 * 60 * 60 * 1000);
+
+    const [rows]: any = await db.query(
+        `SELECT a.id, a.staff_id, a.appointment_date,
+                COALESCE(SUM(COALESCE(ss.duration, ?) + COALESCE(ss.buffer_minutes, 0)), ?) as duration
+         FROM appointments a
+         LEFT JOIN appointment_services aps ON aps.appointment_id = a.id
+         LEFT JOIN saloon_services ss ON aps.service_id = ss.id
+         WHERE a.saloon_id = ? AND a.status IN (?, ?) AND a.appointment_date >= ? AND a.appointment_date < ?
+         GROUP BY a.id, a.staff_id, a.appointment_date
+         ORDER BY a.appointment_date`,
+        [DEFAULT_SERVICE_DURATION, DEFAULT_SERVICE_DURATION, saloonId, AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED, earliestStart, to]
+    );
+
+    // Offers and holds stop blocking the moment they expire, whether or not the cleanup jobs have run yet
+    const [offers]: any = await db.query(
+        `SELECT id, staff_id, appointment_date, duration
+         FROM waitlist_offers
+         WHERE saloon_id = ? AND status = ? AND expires_at > NOW() AND appointment_date >= ? AND appointment_date < ?`,
+        [saloonId, WaitlistOfferStatus.PENDING, earliestStart, to]
+    );
+
+    // Holds stop blocking the moment they expire, whether or not the cleanup job has run yet
+    const [holds]: any = await db.query(
+        `SELECT id, staff_id, appointment_date, duration
+         FROM slot_holds
+         WHERE saloon_id = ? AND status = ? AND expires_at > NOW() AND appointment_date >= ? AND appointment_date < ?`,
+        [saloonId, SlotHoldStatus.ACTIVE, earliestStart, to]
+    );
+
+    const bookings: Booking[] = [
+        ...rows
+            .map((row: any) => ({ ...row, duration: Number(row.duration) }))
+            .filter((booking: Booking) => booking.id !== excludeAppointmentId),
+        ...offers
+            .map((row: any) => ({ ...row, duration: Number(row.duration), hold: true }))
+            .filter((booking: Booking) => booking.id !== excludeOfferId),
+        ...holds
+            .map((row: any) => ({ ...row, duration: Number(row.duration), hold: true }))
+            .filter((booking: Booking) => booking.id !== excludeHoldId)
+    ];
+
+    return bookings
+        .filter((booking) => bookingOverlaps(booking, from, to))
+        .sort((a, b) => new Date(a.appointment_date).getTime() - new Date(b.appointment_date).getTime());
+};
+
+/**
+ * Get how many appointments a saloon can run at the same time
+ * @param saloonId Saloon ID
+ * @param db Pool or transaction connection
+ */
+const getParallelChairs = async (saloonId: number | string, db: Queryable): Promise<number> => {
+    const [saloons]: any = await db.query('SELECT parallel_chairs FROM saloons WHERE id = ?', [saloonId]);
+
+    if (!saloons || saloons.length === 0) {
+        throw new NotFoundError(`Salon with ID ${saloonId} not found`);
+    }
+
+    return saloons[0].parallel_chairs || 1;
+};
+
+/**
+ * Attach the existing appointments to each stylist
+ * @param staff Staff availability
+ * @param bookings Appointments of the saloon
+ */
+const toStaffSchedules = (staff: StaffAvailability[], bookings: Booking[]): StaffSchedule[] =>
+    staff.map((member) => ({ ...member, bookings: bookings.filter((booking) => booking.staff_id === member.id) }));
+
+/**
+ * Find the stylists who are working and free for a whole appointment
+ * @param staff Stylists with their appointments
+ * @param unassigned Appointments made before the saloon had staff, each one keeps one stylist busy
+ * @param start Start of the appointment
+ * @param durationMinutes Length of the appointment
+ * @returns Free stylists, the least busy first
+ */
+export const findAvailableStaff = (
+    staff: StaffSchedule[],
+    unassigned: Booking[],
+    start: Date,
+    durationMinutes: number
+): StaffSchedule[] => {
+    const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+
+    const free = staff
+        .filter((member) =>
+            member.intervals.some((interval) => start >= interval.start && end <= interval.end) &&
+            !member.bookings.some((booking) => bookingOverlaps(booking, start, end))
+        )
+        .sort((a, b) => a.bookings.length - b.bookings.length);
+
+    const busyWithUnassigned = unassigned.filter((booking) => bookingOverlaps(booking, start, end)).length;
+
+    return free.length > busyWithUnassigned ? free : [];
+};
+
+/**
+ * List the times on a date at which an appointment can start
+ * @param openingHours Opening hours of the saloon on the date
+ * @param staff Stylists with their appointments, null at saloons without staff
+ * @param bookings Appointments of the saloon
+ * @param chairs Appointments the saloon can run at the same time
+ * @param durationMinutes Length of the appointment
+ */
+const getDaySlots = (
+    openingHours: OpeningHours,
+    staff: StaffSchedule[] | null,
+    bookings: Booking[],
+    chairs: number,
+    durationMinutes: number
+): AvailableSlot[] => {
+    const dayEnd = new Date((parseDateString(openingHours.date) as Date).getTime() + 24 * 60 * 60 * 1000);
+    const unassigned = bookings.filter((booking) => booking.staff_id === null);
+
+    const slots: AvailableSlot[] = [];
+    const now = new Date();
+
+    // Generate time slots within each opening interval, the whole appointment has to fit before closing
+    for (const interval of openingHours.intervals) {
+        // Round up to the nearest slot interval
+        const nextSlot = new Date(interval.start);
+        const minutes = nextSlot.getHours() * 60 + nextSlot.getMinutes();
+        nextSlot.setHours(0, Math.ceil(minutes / SLOT_INTERVAL_MINUTES) * SLOT_INTERVAL_MINUTES, 0, 0);
+
+        // Slots after midnight are listed on the next day
+        while (nextSlot < dayEnd && nextSlot.getTime() + durationMinutes * 60 * 1000 <= interval.end.getTime()) {
+            const slotTime = new Date(nextSlot);
+            nextSlot.setMinutes(nextSlot.getMinutes() + SLOT_INTERVAL_MINUTES);
+
+            if (slotTime < now) {
+                continue;
+            }
+
+            // Salons without staff are limited by their chairs, salons with staff by their free stylists
+            if (!staff) {
+                if (isTimeSlotAvailable(slotTime, durationMinutes, bookings, chairs)) {
+                    slots.push({ time: slotTime, staffIds: null });
+                }
+                continue;
+            }
+
+            // The slot is offered while any stylist who performs the services is free
+            const freeStaff = findAvailableStaff(staff, unassigned, slotTime, durationMinutes);
+            if (freeStaff.length > 0) {
+                slots.push({ time: slotTime, staffIds: freeStaff.map((member) => member.id) });
+            }
+        }
+    }
+
+    return slots;
+};
+
+/**
+ * List the times on each date of a range at which an appointment of the given length can start.
+ * Appointments, opening hours and staff are loaded once for the whole range.
+ * @param saloonId Saloon ID
+ * @param from First date, YYYY-MM-DD
+ * @param to Last date, YYYY-MM-DD
+ * @param durationMinutes Length of the appointment
+ * @param options Services, stylist and connection to use
+ */
+export const getRangeAvailability = async (
+    saloonId: number | string,
+    from: string,
+    to: string,
+    durationMinutes: number,
+    options: SlotOptions = {}
+): Promise<DayAvailability[]> => {
+    const db = options.db || pool;
+    const chairs = await getParallelChairs(saloonId, db);
+
+    // Weekly schedule, holidays and hours carried over from the night before
+    const days = await getOpeningHoursForRange(saloonId, from, to);
+    const staffByDay = await getStaffAvailabilityForDays(saloonId, days, options.serviceIds || [], options.staffId || undefined);
+
+    const rangeStart = parseDateString(from) as Date;
+    // Intervals of the last day can run past midnight
+    const rangeEnd = days.reduce(
+        (end, day) => day.intervals.reduce((dayEnd, interval) => (interval.end > dayEnd ? interval.end : dayEnd), end),
+        new Date((parseDateString(to) as Date).getTime() + 24 * 60 * 60 * 1000)
+    );
+
+    const bookings = await getSaloonBookings(saloonId, rangeStart, rangeEnd, db, options.excludeAppointmentId, options.excludeOfferId, options.excludeHoldId);
+
+    return days.map((openingHours, index) => {
+        const staff = staffByDay ? toStaffSchedules(staffByDay[index], bookings) : null;
+
+        return {
+            openingHours,
+            staff,
+            slots: getDaySlots(openingHours, staff, bookings, chairs, durationMinutes)
+        };
+    });
+};
+
+/**
+ * List the times on a date at which an appointment of the given length can start
+ * @param saloonId Saloon ID
+ * @param date Date, YYYY-MM-DD
+ * @param durationMinutes Length of the appointment
+ * @param options Services, stylist and connection to use
+ */
+export const getDayAvailability = async (
+    saloonId: number | string,
+    date: string,
+    durationMinutes: number,
+    options: SlotOptions = {}
+): Promise<DayAvailability> =>
+    (await getRangeAvailability(saloonId, date, date, durationMinutes, options))[0];
+
+/**
+ * Find other times close to a requested one at which the same appointment can be booked
+ * @param saloonId Saloon ID
+ * @param start Requested start
+ * @param durationMinutes Length of the appointment
+ * @param options Services, stylist and connection to use
+ * @returns Up to five free times, the closest ones on the same day first and then the following days
+ */
+export const findAlternativeSlots = async (
+    saloonId: number | string,
+    start: Date,
+    durationMinutes: number,
+    options: SlotOptions = {}
+): Promise<AvailableSlot[]> => {
+    const date = toDateString(start);
+    const distance = (slot: AvailableSlot) => Math.abs(slot.time.getTime() - start.getTime());
+
+    const [sameDay, ...followingDays] = await getRangeAvailability(
+        saloonId, date, addDays(date, ALTERNATIVE_SEARCH_DAYS), durationMinutes, options
+    );
+
+    const alternatives = [
+        ...sameDay.slots.sort((a, b) => distance(a) - distance(b)),
+        ...followingDays.flatMap((day) => day.slots)
+    ].slice(0, MAX_ALTERNATIVES);
+
+    return alternatives.sort((a, b) => a.time.getTime() - b.time.getTime());
+};
+
+/**
+ * Find the free times around a time that could not be booked. Call it once the booking transaction
+ * has ended, the search covers several days and should not run while the saloon is locked.
+ * @param slot Time that could not be booked, with its services and stylist
+ */
+export const findAlternativesFor = async (slot: RequestedSlot): Promise<AvailableSlot[]> => {
+    const { saloonId, start, durationMinutes, ...options } = slot;
+    return findAlternativeSlots(saloonId, start, durationMinutes, options);
+};
+
+/**
+ * Add the free times around the taken time to a slot error, once the booking transaction has ended
+ * @param error Error thrown by reserveSlot
+ */
+export const addAlternativeSlots = async (error: SlotUnavailableError): Promise<void> => {
+    if (error.slot && error.alternatives.length === 0) {
+        error.alternatives = await findAlternativesFor(error.slot);
+    }
+};
+
+/**
+ * Look up who could take an appointment at a time, without looking for alternatives
+ * @param saloonId Saloon ID
+ * @param start Start of the appointment
+ * @param durationMinutes Length of the appointment
+ * @param options Services, the stylist chosen by the guest and the connection to use
+ * @returns The free stylists (null at saloons without staff) and the opening hours of the day, or why the time is taken
+ */
+const checkSlot = async (
+    saloonId: number | string,
+    start: Date,
+    durationMinutes: number,
+    options: SlotOptions
+): Promise<{ openingHours: OpeningHours; free: StaffSchedule[] | null; unavailable: string | null }> => {
+    const db = options.db || pool;
+    const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+
+    const chairs = await getParallelChairs(saloonId, db);
+    const openingHours = await getOpeningHours(saloonId, toDateString(start));
+    const staffAvailability = await getStaffAvailability(saloonId, openingHours, options.serviceIds || [], options.staffId || undefined);
+
+    if (options.staffId && !staffAvailability) {
+        throw new ValidationError('This salon does not take bookings for specific stylists');
+    }
+
+    if (options.staffId && staffAvailability && staffAvailability.length === 0) {
+        throw new ValidationError(`Stylist with ID ${options.staffId} does not work at this salon or does not perform all selected services`);
+    }
+
+    const bookings = await getSaloonBookings(saloonId, start, end, db, options.excludeAppointmentId, options.excludeOfferId, options.excludeHoldId);
+
+    // Salons without staff are limited by their chairs, salons with staff are booked per stylist
+    if (!staffAvailability) {
+        return {
+            openingHours,
+            free: null,
+            unavailable: isTimeSlotAvailable(start, durationMinutes, bookings, chairs) ? null : 'The requested time is already booked'
+        };
+    }
+
+    const free = findAvailableStaff(
+        toStaffSchedules(staffAvailability, bookings),
+        bookings.filter((booking) => booking.staff_id === null),
+        start,
+        durationMinutes
+    );
+
+    if (free.length === 0) {
+        return {
+            openingHours,
+            free,
+            unavailable: options.staffId
+                ? 'The selected stylist is not available at the requested time'
+                : 'No stylist is available at the requested time'
+        };
+    }
+
+    return { openingHours, free, unavailable: null };
+};
+
+/**
+ * Check at booking time that an appointment still fits and pick its stylist.
+ * Run it inside the booking transaction after locking the saloon row, so concurrent bookings are checked one by one.
+ * A taken time throws without alternatives, add them with addAlternativeSlots after the transaction.
+ * @param saloonId Saloon ID
+ * @param start Start of the appointment
+ * @param durationMinutes Length of the appointment
+ * @param options Services, the stylist chosen by the guest and the transaction connection
+ * @returns The stylist's ID, or null when the saloon has no staff
+ */
+export const reserveSlot = async (
+    saloonId: number | string,
+    start: Date,
+    durationMinutes: number,
+    options: SlotOptions = {}
+): Promise<number | null> => {
+    const { free, unavailable } = await checkSlot(saloonId, start, durationMinutes, options);
+
+    if (unavailable) {
+        throw new SlotUnavailableError(unavailable, [], {
+            saloonId,
+            start,
+            durationMinutes,
+            serviceIds: options.serviceIds,
+            staffId: options.staffId,
+            excludeAppointmentId: options.excludeAppointmentId,
+            excludeOfferId: options.excludeOfferId,
+            excludeHoldId: options.excludeHoldId
+        });
+    }
+
+    return free ? free[0].id : null;
+};
+
+/**
+ * Check whether an appointment can still be booked at a time: the saloon is open for all of it and a chair
+ * and a stylist are free. Stylists who left or stopped doing the services count as not free.
+ * @param saloonId Saloon ID
+ * @param start Start of the appointment
+ * @param durationMinutes Length of the appointment
+ * @param options Services, stylist and connection to use
+ */
+export const isSlotAvailable = async (
+    saloonId: number | string,
+    start: Date,
+    durationMinutes: number,
+    options: SlotOptions = {}
+): Promise<boolean> => {
+    const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+
+    try {
+        const { openingHours, unavailable } = await checkSlot(saloonId, start, durationMinutes, options);
+
+        return !unavailable && openingHours.intervals.some((interval) => start >= interval.start && end <= interval.end);
+    } catch (error) {
+        if (error instanceof ValidationError) {
+            return false;
+        }
+        throw error;
+    }
+};
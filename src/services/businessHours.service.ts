@@ -0,0 +1,508 @@
+import pool from '../config/db';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface TimeInterval {
+    open_time: string;
+    close_time: string;
+}
+
+export interface WeeklyInterval extends TimeInterval {
+    day_of_week: number;
+}
+
+// Hours configured for one calendar day
+export interface DaySchedule {
+    date: string;
+    closed: boolean;
+    reason: string | null;
+    intervals: TimeInterval[];
+}
+
+export interface OpeningInterval {
+    start: Date;
+    end: Date;
+}
+
+// Times at which the salon is actually open on a day, including overnight hours carried over from the day before
+export interface OpeningHours {
+    date: string;
+    closed: boolean;
+    reason: string | null;
+    intervals: OpeningInterval[];
+}
+
+interface LoadedSchedule {
+    weekly: WeeklyInterval[];
+    // The saloon's opening_time/closing_time, used every day while no weekly schedule is set
+    fallback: TimeInterval | null;
+    exceptions: Map<string, DaySchedule>;
+}
+
+const pad = (value: number): string => (value < 10 ? `0${value}` : `${value}`);
+
+// MySQL returns TIME values as HH:MM:SS
+const toTime = (value: string): string => value.slice(0, 5);
+
+const toMinutes = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+/**
+ * Length of an interval in minutes. A closing time at or before the opening time ends the next day.
+ * @param interval Opening and closing time
+ */
+const intervalLength = (interval: TimeInterval): number => {
+    const length = toMinutes(interval.close_time) - toMinutes(interval.open_time);
+    return length > 0 ? length : length + MINUTES_PER_DAY;
+};
+
+/**
+ * Format a date as YYYY-MM-DD in server time
+ * @param date Date to format
+ */
+export const toDateString = (date: Date): string =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Parse a YYYY-MM-DD date as midnight in server time
+ * @param value Date string
+ * @returns The date, or null if the value is not a real calendar date
+ */
+export const parseDateString = (value: string): Date | null => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) {
+        return null;
+    }
+
+    const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    const date = new Date(year, month - 1, day);
+
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+        return null;
+    }
+
+    return date;
+};
+
+/**
+ * Move a YYYY-MM-DD date by a number of days
+ * @param value Date string
+ * @param days Days to add, negative to go back
+ */
+export const addDays = (value: string, days: number): string => {
+    const date = parseDateString(value) as Date;
+    date.setDate(date.getDate() + days);
+    return toDateString(date);
+};
+
+/**
+ * Reject intervals that overlap each other
+ * @param ranges Intervals as minute offsets
+ * @param cycle Length of a repeating schedule, so the last interval of the week is compared with the first
+ * @param describe Describes an interval for the error message
+ * @param label Names the kind of hours in the error message
+ */
+const assertNoOverlap = (
+    ranges: { start: number; end: number }[],
+    cycle: number | null,
+    describe: (index: number) => string,
+    label = 'Opening hours'
+): void => {
+    const shifts = cycle ? [-cycle, 0, cycle] : [0];
+
+    for (let i = 0; i < ranges.length; i++) {
+        for (let j = i + 1; j < ranges.length; j++) {
+            const overlaps = shifts.some((shift) =>
+                ranges[i].start < ranges[j].end + shift && ranges[j].start + shift < ranges[i].end
+            );
+
+            if (overlaps) {
+                throw new ValidationError(`${label} ${describe(i)} and ${describe(j)} overlap`);
+            }
+        }
+    }
+};
+
+/**
+ * Reject a weekly schedule whose intervals overlap, including across midnight and from Saturday into Sunday
+ * @param hours Weekly schedule
+ * @param label Names the kind of hours in the error message
+ */
+export const assertValidWeeklySchedule = (hours: WeeklyInterval[], label = 'Opening hours'): void => {
+    assertNoOverlap(
+        hours.map((interval) => {
+            const start = interval.day_of_week * MINUTES_PER_DAY + toMinutes(interval.open_time);
+            return { start, end: start + intervalLength(interval) };
+        }),
+        MINUTES_PER_WEEK,
+        (index) => `${DAY_NAMES[hours[index].day_of_week]} ${hours[index].open_time}-${hours[index].close_time}`,
+        label
+    );
+};
+
+/**
+ * Group exception rows by date
+ * @param rows Rows of saloon_hours_exceptions ordered by date
+ */
+const groupExceptions = (rows: any[]): Map<string, DaySchedule> => {
+    const exceptions = new Map<string, DaySchedule>();
+
+    for (const row of rows) {
+        const day: DaySchedule = exceptions.get(row.exception_date)
+            || { date: row.exception_date, closed: true, reason: row.reason || null, intervals: [] };
+
+        // A row without times closes the salon for the whole day
+        if (row.open_time && row.close_time) {
+            day.closed = false;
+            day.intervals.push({ open_time: toTime(row.open_time), close_time: toTime(row.close_time) });
+        }
+
+        exceptions.set(row.exception_date, day);
+    }
+
+    return exceptions;
+};
+
+/**
+ * Load the exceptions of a saloon between two dates
+ * @param saloonId Saloon ID
+ * @param from First date, YYYY-MM-DD
+ * @param to Last date, YYYY-MM-DD
+ */
+const loadExceptions = async (saloonId: number | string, from: string, to: string): Promise<Map<string, DaySchedule>> => {
+    const [rows]: any = await pool.query(
+        `SELECT DATE_FORMAT(exception_date, '%Y-%m-%d') as exception_date, open_time, close_time, reason
+         FROM saloon_hours_exceptions
+         WHERE saloon_id = ? AND exception_date BETWEEN ? AND ?
+         ORDER BY exception_date, open_time`,
+        [saloonId, from, to]
+    );
+
+    return groupExceptions(rows);
+};
+
+/**
+ * Load everything needed to work out a saloon's opening hours between two dates
+ * @param saloonId Saloon ID
+ * @param from First date, YYYY-MM-DD
+ * @param to Last date, YYYY-MM-DD
+ */
+const loadSchedule = async (saloonId: number | string, from: string, to: string): Promise<LoadedSchedule> => {
+    const [saloons]: any = await pool.query('SELECT opening_time, closing_time FROM saloons WHERE id = ?', [saloonId]);
+
+    if (!saloons || saloons.length === 0) {
+        throw new NotFoundError(`Salon with ID ${saloonId} not found`);
+    }
+
+    const { opening_time, closing_time } = saloons[0];
+
+    return {
+        weekly: await getWeeklyHours(saloonId),
+        fallback: opening_time && closing_time
+            ? { open_time: toTime(opening_time), close_time: toTime(closing_time) }
+            : null,
+        exceptions: await loadExceptions(saloonId, from, to)
+    };
+};
+
+/**
+ * Work out the hours configured for one day: an exception wins over the weekly schedule
+ * @param schedule Loaded schedule
+ * @param date Date, YYYY-MM-DD
+ */
+const resolveDay = (schedule: LoadedSchedule, date: string): DaySchedule => {
+    const exception = schedule.exceptions.get(date);
+    if (exception) {
+        return exception;
+    }
+
+    if (schedule.weekly.length === 0) {
+        return { date, closed: !schedule.fallback, reason: null, intervals: schedule.fallback ? [schedule.fallback] : [] };
+    }
+
+    const dayOfWeek = (parseDateString(date) as Date).getDay();
+    const intervals = schedule.weekly
+        .filter((interval) => interval.day_of_week === dayOfWeek)
+        .map(({ open_time, close_time }) => ({ open_time, close_time }));
+
+    return { date, closed: intervals.length === 0, reason: null, intervals };
+};
+
+/**
+ * Turn the configured hours of a day into points in time
+ * @param day Configured hours
+ */
+const toOpeningIntervals = (day: DaySchedule): OpeningInterval[] =>
+    day.intervals.map((interval) => {
+        const start = parseDateString(day.date) as Date;
+        start.setMinutes(toMinutes(interval.open_time));
+
+        return { start, end: new Date(start.getTime() + intervalLength(interval) * 60 * 1000) };
+    });
+
+/**
+ * Turn a weekly schedule into points in time on one date, including intervals carried over from the night before
+ * @param weekly Weekly schedule
+ * @param date Date, YYYY-MM-DD
+ */
+export const getWeeklyIntervalsOn = (weekly: WeeklyInterval[], date: string): OpeningInterval[] => {
+    const intervalsOn = (day: string): OpeningInterval[] => {
+        const dayOfWeek = (parseDateString(day) as Date).getDay();
+        const intervals = weekly.filter((interval) => interval.day_of_week === dayOfWeek);
+        return toOpeningIntervals({ date: day, closed: intervals.length === 0, reason: null, intervals });
+    };
+
+    const dayStart = parseDateString(date) as Date;
+    const carriedOver = intervalsOn(addDays(date, -1))
+        .filter((interval) => interval.end > dayStart)
+        .map((interval) => ({ start: dayStart, end: interval.end }));
+
+    return [...carriedOver, ...intervalsOn(date)];
+};
+
+/**
+ * Keep only the time covered by both lists of intervals
+ * @param first Intervals
+ * @param second Intervals
+ */
+export const intersectIntervals = (first: OpeningInterval[], second: OpeningInterval[]): OpeningInterval[] => {
+    const result: OpeningInterval[] = [];
+
+    for (const a of first) {
+        for (const b of second) {
+            const start = a.start > b.start ? a.start : b.start;
+            const end = a.end < b.end ? a.end : b.end;
+
+            if (start < end) {
+                result.push({ start, end });
+            }
+        }
+    }
+
+    return result.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+/**
+ * Remove blocked periods, e.g. time off, from a list of intervals
+ * @param intervals Intervals
+ * @param blocked Periods to remove
+ */
+export const subtractIntervals = (intervals: OpeningInterval[], blocked: OpeningInterval[]): OpeningInterval[] =>
+    blocked.reduce((remaining, block) => remaining.flatMap((interval) => {
+        if (block.end <= interval.start || block.start >= interval.end) {
+            return [interval];
+        }
+
+        const parts: OpeningInterval[] = [];
+        if (block.start > interval.start) {
+            parts.push({ start: interval.start, end: block.start });
+        }
+        if (block.end < interval.end) {
+            parts.push({ start: block.end, end: interval.end });
+        }
+        return parts;
+    }), intervals);
+
+/**
+ * Get the opening hours of a saloon for every day in a range
+ * @param saloonId Saloon ID
+ * @param from First date, YYYY-MM-DD
+ * @param to Last date, YYYY-MM-DD
+ */
+export const getOpeningHoursForRange = async (
+    saloonId: number | string,
+    from: string,
+    to: string
+): Promise<OpeningHours[]> => {
+    const schedule = await loadSchedule(saloonId, addDays(from, -1), to);
+    const days: OpeningHours[] = [];
+
+    let previous = toOpeningIntervals(resolveDay(schedule, addDays(from, -1)));
+
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+        const day = resolveDay(schedule, date);
+        const own = toOpeningIntervals(day);
+        const dayStart = parseDateString(date) as Date;
+
+        // Hours past midnight belong to the previous day's schedule, even when this day is a holiday
+        const carriedOver = previous
+            .filter((interval) => interval.end > dayStart)
+            .map((interval) => ({ start: dayStart, end: interval.end }));
+
+        const intervals = [...carriedOver, ...own];
+        days.push({ date, closed: intervals.length === 0, reason: day.reason, intervals });
+
+        previous = own;
+    }
+
+    return days;
+};
+
+/**
+ * Get the opening hours of a saloon on one day
+ * @param saloonId Saloon ID
+ * @param date Date, YYYY-MM-DD
+ */
+export const getOpeningHours = async (saloonId: number | string, date: string): Promise<OpeningHours> =>
+    (await getOpeningHoursForRange(saloonId, date, date))[0];
+
+/**
+ * Check that the saloon is open for the whole length of an appointment
+ * @param saloonId Saloon ID
+ * @param start Start of the appointment
+ * @param durationMinutes Length of the appointment
+ */
+export const assertWithinBusinessHours = async (
+    saloonId: number | string,
+    start: Date,
+    durationMinutes: number
+): Promise<void> => {
+    const date = toDateString(start);
+    const hours = await getOpeningHours(saloonId, date);
+
+    if (hours.closed) {
+        throw new ValidationError(hours.reason ? `The salon is closed on ${date}: ${hours.reason}` : `The salon is closed on ${date}`);
+    }
+
+    const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+    const fits = hours.intervals.some((interval) => start >= interval.start && end <= interval.end);
+
+    if (!fits) {
+        throw new ValidationError('The appointment must start and end within the salon\'s opening hours');
+    }
+};
+
+/**
+ * Get the weekly schedule of a saloon
+ * @param saloonId Saloon ID
+ * @returns Opening intervals ordered by day and time, empty when the saloon uses its default hours
+ */
+export const getWeeklyHours = async (saloonId: number | string): Promise<WeeklyInterval[]> => {
+    const [rows]: any = await pool.query(
+        'SELECT day_of_week, open_time, close_time FROM saloon_business_hours WHERE saloon_id = ? ORDER BY day_of_week, open_time',
+        [saloonId]
+    );
+
+    return rows.map((row: any) => ({
+        day_of_week: row.day_of_week,
+        open_time: toTime(row.open_time),
+        close_time: toTime(row.close_time)
+    }));
+};
+
+/**
+ * Replace the weekly schedule of a saloon. Days without intervals are closed.
+ * @param saloonId Saloon ID
+ * @param hours Opening intervals, several per day for split shifts
+ * @returns The new schedule
+ */
+export const replaceWeeklyHours = async (saloonId: number | string, hours: WeeklyInterval[]): Promise<WeeklyInterval[]> => {
+    assertValidWeeklySchedule(hours);
+
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        await connection.query('DELETE FROM saloon_business_hours WHERE saloon_id = ?', [saloonId]);
+
+        if (hours.length > 0) {
+            const placeholders = hours.map(() => '(?, ?, ?, ?)').join(', ');
+            const values = hours.flatMap((interval) => [saloonId, interval.day_of_week, interval.open_time, interval.close_time]);
+
+            await connection.query(
+                `INSERT INTO saloon_business_hours (saloon_id, day_of_week, open_time, close_time) VALUES ${placeholders}`,
+                values
+            );
+        }
+
+        await connection.commit();
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+
+    return getWeeklyHours(saloonId);
+};
+
+/**
+ * List the holidays and special hours of a saloon between two dates
+ * @param saloonId Saloon ID
+ * @param from First date, YYYY-MM-DD
+ * @param to Last date, YYYY-MM-DD
+ */
+export const getHoursExceptions = async (saloonId: number | string, from: string, to: string): Promise<DaySchedule[]> =>
+    Array.from((await loadExceptions(saloonId, from, to)).values());
+
+/**
+ * Close a saloon or set special hours on one date, replacing any earlier exception for that date
+ * @param saloonId Saloon ID
+ * @param date Date, YYYY-MM-DD
+ * @param intervals Opening intervals, empty to close for the whole day
+ * @param reason Shown to guests, e.g. the name of the holiday
+ */
+export const setHoursException = async (
+    saloonId: number | string,
+    date: string,
+    intervals: TimeInterval[],
+    reason: string | null
+): Promise<DaySchedule> => {
+    assertNoOverlap(
+        intervals.map((interval) => {
+            const start = toMinutes(interval.open_time);
+            return { start, end: start + intervalLength(interval) };
+        }),
+        null,
+        (index) => `${intervals[index].open_time}-${intervals[index].close_time}`
+    );
+
+    const rows = intervals.length > 0
+        ? intervals.map((interval) => [saloonId, date, interval.open_time, interval.close_time, reason])
+        : [[saloonId, date, null, null, reason]];
+
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        await connection.query(
+            'DELETE FROM saloon_hours_exceptions WHERE saloon_id = ? AND exception_date = ?',
+            [saloonId, date]
+        );
+        await connection.query(
+            `INSERT INTO saloon_hours_exceptions (saloon_id, exception_date, open_time, close_time, reason)
+             VALUES ${rows.map(() => '(?, ?, ?, ?, ?)').join(', ')}`,
+            rows.flat()
+        );
+
+        await connection.commit();
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+
+    return { date, closed: intervals.length === 0, reason, intervals };
+};
+
+/**
+ * Remove the exception on a date so the weekly schedule applies again
+ * @param saloonId Saloon ID
+ * @param date Date, YYYY-MM-DD
+ */
+export const deleteHoursException = async (saloonId: number | string, date: string): Promise<void> => {
+    const [result]: any = await pool.query(
+        'DELETE FROM saloon_hours_exceptions WHERE saloon_id = ? AND exception_date = ?',
+        [saloonId, date]
+    );
+
+    if (result.affectedRows === 0) {
+        throw new NotFoundError(`No special hours are set for ${date}`);
+    }
+};
@@ -0,0 +1,394 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import archiver from 'archiver';
+import pool from '../config/db';
+import logger, { securityLogger } from '../utils/logger';
+import { ConflictError, NotFoundError, TooManyRequestsError } from '../utils/errors';
+import { DataExportStatus } from '../models/dataExport.model';
+import { sendDataExportReadyEmail } from './email.service';
+
+dotenv.config();
+
+const EXPORT_DIR = process.env.DATA_EXPORT_DIR || path.join(process.cwd(), 'exports');
+const EXPORT_TTL_DAYS = parseInt(process.env.DATA_EXPORT_TTL_DAYS || '7');
+const MAX_EXPORTS_PER_DAY = 3;
+// Exports stuck in processing this long are assumed lost to a restart and picked up again
+const STALE_PROCESSING_MINUTES = 30;
+
+const EXPORT_COLUMNS = 'id, status, file_size, error, started_at, completed_at, expires_at, created_at';
+
+interface ExportData {
+    exportedAt: string;
+    profile: any;
+    identities: any[];
+    sessions: any[];
+    loginAttempts: any[];
+    appointments: any[];
+    saloons: any[];
+}
+
+/**
+ * Gather everything stored about a user
+ * @param userId User ID
+ */
+const collectUserData = async (userId: number): Promise<ExportData> => {
+    const [users]: any = await pool.query(
+        `SELECT u.id, u.name, u.email, u.phone, r.name as role, u.status, u.status_reason, u.status_expires_at,
+                u.email_verified_at, u.two_factor_enabled_at, u.created_at, u.updated_at
+         FROM users u
+         JOIN user_roles r ON u.role_id = r.id
+         WHERE u.id = ?`,
+        [userId]
+    );
+
+    if (!users || users.length === 0) {
+        throw new NotFoundError(`User with ID ${userId} not found`);
+    }
+
+    const [identities]: any = await pool.query(
+        'SELECT provider, email, linked_at, last_used_at FROM user_identities WHERE user_id = ? ORDER BY linked_at',
+        [userId]
+    );
+
+    const [sessions]: any = await pool.query(
+        `SELECT device_name, ip_address, user_agent, last_seen_at, expires_at, revoked_at, created_at
+         FROM user_sessions WHERE user_id = ? ORDER BY created_at`,
+        [userId]
+    );
+
+    const [loginAttempts]: any = await pool.query(
+        `SELECT email, ip_address, user_agent, successful, failure_reason, created_at
+         FROM login_attempts WHERE user_id = ? ORDER BY created_at`,
+        [userId]
+    );
+
+    const [appointments]: any = await pool.query(
+        `SELECT a.id, a.saloon_id, s.name as saloon_name, a.appointment_date, a.status, a.notes, a.created_at, a.updated_at
+         FROM appointments a
+         JOIN saloons s ON a.saloon_id = s.id
+         WHERE a.guest_id = ?
+         ORDER BY a.appointment_date`,
+        [userId]
+    );
+
+    const [appointmentServices]: any = appointments.length > 0
+        ? await pool.query(
+            `SELECT aps.appointment_id, ss.id, ss.name, ss.price, ss.duration
+             FROM appointment_services aps
+             JOIN saloon_services ss ON aps.service_id = ss.id
+             WHERE aps.appointment_id IN (?)`,
+            [appointments.map((appointment: any) => appointment.id)]
+        )
+        : [[]];
+
+    const [saloons]: any = await pool.query(
+        `SELECT id, name, description, address, phone, email, website, opening_time, closing_time,
+                latitude, longitude, created_at, updated_at
+         FROM saloons WHERE owner_id = ? ORDER BY id`,
+        [userId]
+    );
+
+    const [saloonServices]: any = saloons.length > 0
+        ? await pool.query(
+            `SELECT id, saloon_id, name, description, price, duration, created_at, updated_at
+             FROM saloon_services WHERE saloon_id IN (?) ORDER BY id`,
+            [saloons.map((saloon: any) => saloon.id)]
+        )
+        : [[]];
+
+    return {
+        exportedAt: new Date().toISOString(),
+        profile: { ...users[0], two_factor_enabled: users[0].two_factor_enabled_at !== null },
+        identities,
+        sessions,
+        loginAttempts,
+        appointments: appointments.map((appointment: any) => ({
+            ...appointment,
+            services: appointmentServices
+                .filter((service: any) => service.appointment_id === appointment.id)
+                .map(({ appointment_id, ...service }: any) => service)
+        })),
+        saloons: saloons.map((saloon: any) => ({
+            ...saloon,
+            services: saloonServices.filter((service: any) => service.saloon_id === saloon.id)
+        }))
+    };
+};
+
+const toCsvValue = (value: any): string => {
+    if (value === null || value === undefined) {
+        return '';
+    }
+
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Turn a list of rows into CSV with a header line
+ * @param rows Rows to convert
+ */
+const toCsv = (rows: any[]): string => {
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    const lines = [columns.join(',')];
+
+    for (const row of rows) {
+        lines.push(columns.map(column => toCsvValue(row[column])).join(','));
+    }
+
+    return lines.join('\r\n') + '\r\n';
+};
+
+/**
+ * Write the export archive: the full data as JSON plus one CSV file per table
+ * @param filePath Where to write the archive
+ * @param data Collected user data
+ */
+const writeArchive = async (filePath: string, data: ExportData): Promise<void> => {
+    const output = fs.createWriteStream(filePath);
+    const archive = archiver('zip', { zlib: { level: 9 } });
+
+    const finished = new Promise<void>((resolve, reject) => {
+        output.on('close', resolve);
+        output.on('error', reject);
+        archive.on('error', reject);
+    });
+
+    archive.pipe(output);
+
+    archive.append(JSON.stringify(data, null, 2), { name: 'data.json' });
+    archive.append(toCsv([data.profile]), { name: 'csv/profile.csv' });
+    archive.append(toCsv(data.identities), { name: 'csv/identities.csv' });
+    archive.append(toCsv(data.sessions), { name: 'csv/sessions.csv' });
+    archive.append(toCsv(data.loginAttempts), { name: 'csv/login_attempts.csv' });
+    archive.append(toCsv(data.appointments.map(({ services, ...appointment }) => appointment)), { name: 'csv/appointments.csv' });
+    archive.append(
+        toCsv(data.appointments.flatMap(appointment => appointment.services.map((service: any) => ({
+            appointment_id: appointment.id,
+            service_id: service.id,
+            name: service.name,
+            price: service.price,
+            duration: service.duration
+        })))),
+        { name: 'csv/appointment_services.csv' }
+    );
+    archive.append(toCsv(data.saloons.map(({ services, ...saloon }) => saloon)), { name: 'csv/saloons.csv' });
+    archive.append(toCsv(data.saloons.flatMap(saloon => saloon.services)), { name: 'csv/saloon_services.csv' });
+
+    await archive.finalize();
+    await finished;
+};
+
+/**
+ * Build the archive for a pending export and let the user know it is ready
+ * @param exportId Export ID
+ */
+export const processDataExport = async (exportId: number): Promise<void> => {
+    // Claim the export so a second worker does not build it too
+    const [claimed]: any = await pool.query(
+        'UPDATE data_exports SET status = ?, started_at = NOW() WHERE id = ? AND status = ?',
+        [DataExportStatus.PROCESSING, exportId, DataExportStatus.PENDING]
+    );
+
+    if (claimed.affectedRows === 0) {
+        return;
+    }
+
+    const [rows]: any = await pool.query(
+        `SELECT e.user_id, u.name, u.email
+         FROM data_exports e
+         JOIN users u ON e.user_id = u.id
+         WHERE e.id = ?`,
+        [exportId]
+    );
+    const { user_id: userId, name, email } = rows[0];
+
+    const fileName = `export-${userId}-${exportId}-${crypto.randomBytes(8).toString('hex')}.zip`;
+    const filePath = path.join(EXPORT_DIR, fileName);
+
+    try {
+        await fs.promises.mkdir(EXPORT_DIR, { recursive: true });
+        await writeArchive(filePath, await collectUserData(userId));
+
+        const { size } = await fs.promises.stat(filePath);
+        const expiresAt = new Date(Date.now() + EXPORT_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+        await pool.query(
+            'UPDATE data_exports SET status = ?, file_name = ?, file_size = ?, completed_at = NOW(), expires_at = ? WHERE id = ?',
+            [DataExportStatus.COMPLETED, fileName, size, expiresAt, exportId]
+        );
+
+        logger.info(`Data export ${exportId} completed for user ID: ${userId}`);
+
+        sendDataExportReadyEmail(email, name, expiresAt)
+            .catch((error) => logger.error('Error sending data export ready email:', error));
+    } catch (error: any) {
+        logger.error(`Data export ${exportId} failed for user ID: ${userId}:`, error);
+
+        await fs.promises.rm(filePath, { force: true }).catch(() => undefined);
+        await pool.query(
+            'UPDATE data_exports SET status = ?, error = ? WHERE id = ?',
+            [DataExportStatus.FAILED, 'The export could not be generated, please request a new one', exportId]
+        );
+    }
+};
+
+/**
+ * Queue a new export of the user's personal data. The archive is built in the background.
+ * @param userId User ID
+ * @returns The queued export
+ */
+export const requestDataExport = async (userId: number): Promise<any> => {
+    const [active]: any = await pool.query(
+        'SELECT id FROM data_exports WHERE user_id = ? AND status IN (?, ?)',
+        [userId, DataExportStatus.PENDING, DataExportStatus.PROCESSING]
+    );
+
+    if (active.length > 0) {
+        throw new ConflictError('An export is already being prepared for your account');
+    }
+
+    const [recent]: any = await pool.query(
+        'SELECT COUNT(*) as count FROM data_exports WHERE user_id = ? AND created_at > DATE_SUB(NOW(), INTERVAL 1 DAY)',
+        [userId]
+    );
+
+    if (recent[0].count >= MAX_EXPORTS_PER_DAY) {
+        throw new TooManyRequestsError(`You can request at most ${MAX_EXPORTS_PER_DAY} exports per day`);
+    }
+
+    const [result]: any = await pool.query(
+        'INSERT INTO data_exports (user_id, status) VALUES (?, ?)',
+        [userId, DataExportStatus.PENDING]
+    );
+
+    securityLogger.info('Personal data export requested', { userId, exportId: result.insertId });
+
+    processDataExport(result.insertId)
+        .catch((error) => logger.error(`Error processing data export ${result.insertId}:`, error));
+
+    return getUserDataExport(userId, result.insertId);
+};
+
+/**
+ * List the exports of a user, newest first
+ * @param userId User ID
+ */
+export const getUserDataExports = async (userId: number): Promise<any[]> => {
+    const [rows]: any = await pool.query(
+        `SELECT ${EXPORT_COLUMNS} FROM data_exports WHERE user_id = ? ORDER BY created_at DESC, id DESC`,
+        [userId]
+    );
+
+    return rows || [];
+};
+
+/**
+ * Get one export of a user
+ * @param userId User ID
+ * @param exportId Export ID
+ */
+export const getUserDataExport = async (userId: number, exportId: number): Promise<any> => {
+    const [rows]: any = await pool.query(
+        `SELECT ${EXPORT_COLUMNS} FROM data_exports WHERE id = ? AND user_id = ?`,
+        [exportId, userId]
+    );
+
+    if (!rows || rows.length === 0) {
+        throw new NotFoundError(`Export with ID ${exportId} not found`);
+    }
+
+    return rows[0];
+};
+
+/**
+ * Find the archive of a completed export so it can be downloaded
+ * @param userId User ID
+ * @param exportId Export ID
+ * @returns Path of the archive and the file name offered to the user
+ */
+export const getDataExportFile = async (userId: number, exportId: number): Promise<{ filePath: string; downloadName: string }> => {
+    const [rows]: any = await pool.query(
+        'SELECT status, file_name, expires_at, created_at FROM data_exports WHERE id = ? AND user_id = ?',
+        [exportId, userId]
+    );
+
+    if (!rows || rows.length === 0) {
+        throw new NotFoundError(`Export with ID ${exportId} not found`);
+    }
+
+    const record = rows[0];
+
+    if (record.status !== DataExportStatus.COMPLETED || !record.file_name) {
+        throw new ConflictError(`Export is ${record.status} and cannot be downloaded`);
+    }
+
+    if (record.expires_at && new Date(record.expires_at) <= new Date()) {
+        throw new NotFoundError('Export has expired, please request a new one');
+    }
+
+    securityLogger.info('Personal data export downloaded', { userId, exportId });
+
+    return {
+        filePath: path.join(EXPORT_DIR, record.file_name),
+        downloadName: `saloon-guide-data-${new Date(record.created_at).toISOString().slice(0, 10)}.zip`
+    };
+};
+
+/**
+ * Build exports that are still waiting, e.g. because the server restarted before they finished
+ */
+export const processPendingDataExports = async (): Promise<void> => {
+    await pool.query(
+        `UPDATE data_exports SET status = ?, started_at = NULL
+         WHERE status = ? AND started_at < DATE_SUB(NOW(), INTERVAL ? MINUTE)`,
+        [DataExportStatus.PENDING, DataExportStatus.PROCESSING, STALE_PROCESSING_MINUTES]
+    );
+
+    const [rows]: any = await pool.query(
+        'SELECT id FROM data_exports WHERE status = ? ORDER BY created_at LIMIT 10',
+        [DataExportStatus.PENDING]
+    );
+
+    for (const row of rows) {
+        await processDataExport(row.id);
+    }
+};
+
+/**
+ * Delete export archives whose download period has passed
+ */
+export const purgeExpiredDataExports = async (): Promise<void> => {
+    const [rows]: any = await pool.query(
+        'SELECT id, file_name FROM data_exports WHERE expires_at IS NOT NULL AND expires_at <= NOW()'
+    );
+
+    for (const row of rows) {
+        if (row.file_name) {
+            await fs.promises.rm(path.join(EXPORT_DIR, row.file_name), { force: true });
+        }
+        await pool.query('DELETE FROM data_exports WHERE id = ?', [row.id]);
+    }
+
+    if (rows.length > 0) {
+        logger.info(`Purged ${rows.length} expired data export(s)`);
+    }
+};
+
+/**
+ * Delete all exports of a user together with their archives
+ * @param userId User ID
+ */
+export const deleteUserDataExports = async (userId: number): Promise<void> => {
+    const [rows]: any = await pool.query('SELECT id, file_name FROM data_exports WHERE user_id = ?', [userId]);
+
+    for (const row of rows) {
+        if (row.file_name) {
+            await fs.promises.rm(path.join(EXPORT_DIR, row.file_name), { force: true });
+        }
+    }
+
+    await pool.query('DELETE FROM data_exports WHERE user_id = ?', [userId]);
+};
@@ -100,31 +100,18 @@ async function sendMailWithRetry(
 }
 
 /**
- * Send an email with the login token
- * @param to Recipient email address
- * @param name Recipient name
- * @param token Authentication token
- * @returns Promise resolving to boolean indicating success
+ * Wrap email content in the standard Saloon Guide layout
+ * @param title Email title shown in the browser tab
+ * @param content HTML content of the message body
+ * @returns Complete HTML document
  */
-export const sendLoginToken = async (to: string, name: string, token: string): Promise<boolean> => {
-  // Verify connection before attempting to send
-  const isConnected = await verifyEmailConnection();
-  if (!isConnected) {
-    console.error('Failed to establish email service connection');
-    return false;
-  }
-
-  const mailOptions = {
-    from: `"${process.env.EMAIL_FROM_NAME || 'Saloon Guide'}" <${process.env.EMAIL_FROM || 'noreply@saloonguide.com'}>`,
-    to,
-    subject: 'Welcome to Saloon Guide - Your Registration Token',
-    html: `
+const renderEmailLayout = (title: string, content: string): string => `
         <!DOCTYPE html>
         <html lang="en">
         <head>
           <meta charset="UTF-8">
           <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Welcome to Saloon Guide</title>
+          <title>${title}</title>
         </head>
         <body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f9f9f9; color: #333;">
           <table align="center" border="0" cellpadding="0" cellspacing="0" width="600" style="border-collapse: collapse; background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 4px 8px rgba(0,0,0,0.1); margin-top: 20px;">
@@ -136,22 +123,7 @@ export const sendLoginToken = async (to: string, name: string, token: string): P
             </tr>
             <tr>
               <td style="padding: 30px 40px;">
-                <h2 style="color: #333; margin: 0 0 20px 0; font-weight: 500;">Welcome, ${name}!</h2>
-                <p style="font-size: 16px; line-height: 24px; margin-bottom: 25px;">Thank you for registering with Saloon Guide. We're excited to have you join our community.</p>
-                <p style="font-size: 16px; line-height: 24px; margin-bottom: 25px;">Your account has been successfully created, and you can use the authentication token below to access all our services:</p>
-                
-                <div style="background-color: #f5f5f5; border-left: 4px solid #7952B3; padding: 15px; margin: 20px 0; border-radius: 4px; word-break: break-all; font-family: monospace; font-size: 14px;">
-                  ${token}
-                </div>
-                
-                <p style="font-size: 16px; line-height: 24px; margin-bottom: 10px;"><strong>Important:</strong></p>
-                <ul style="padding-left: 20px; margin-bottom: 25px;">
-                  <li style="margin-bottom: 8px;">This token is valid for 24 hours</li>
-                  <li style="margin-bottom: 8px;">Keep this token confidential</li>
-                  <li style="margin-bottom: 8px;">If you didn't register for an account, please contact our support team immediately</li>
-                </ul>
-                
-                <p style="font-size: 16px; line-height: 24px;">Discover the best salons near you and book your appointments with ease!</p>
+                ${content}
               </td>
             </tr>
             <tr>
@@ -164,20 +136,267 @@ export const sendLoginToken = async (to: string, name: string, token: string): P
           </table>
         </body>
         </html>
-      `
+      `;
+
+/**
+ * Send an email using the standard layout
+ * @param to Recipient email address
+ * @param subject Email subject
+ * @param title Email title
+ * @param content HTML content of the message body
+ * @returns Promise resolving to boolean indicating success
+ */
+const sendEmail = async (to: string, subject: string, title: string, content: string): Promise<boolean> => {
+  // Verify connection before attempting to send
+  const isConnected = await verifyEmailConnection();
+  if (!isConnected) {
+    console.error('Failed to establish email service connection');
+    return false;
+  }
+
+  const mailOptions = {
+    from: `"${process.env.EMAIL_FROM_NAME || 'Saloon Guide'}" <${process.env.EMAIL_FROM || 'noreply@saloonguide.com'}>`,
+    to,
+    subject,
+    html: renderEmailLayout(title, content)
   };
 
   try {
-    // Use the retry mechanism
     const result = await sendMailWithRetry(mailOptions);
     if (result) {
-      console.log(`Email successfully sent to ${to}`);
+      console.log(`Email "${subject}" successfully sent to ${to}`);
     } else {
-      console.error(`Failed to send email to ${to} after multiple attempts`);
+      console.error(`Failed to send email "${subject}" to ${to} after multiple attempts`);
     }
     return result;
   } catch (error) {
-    console.error('Error in sendLoginToken:', error);
+    console.error(`Error sending email "${subject}":`, error);
     return false;
   }
 };
+
+/**
+ * Send a one-time password reset code
+ * @param to Recipient email address
+ * @param name Recipient name
+ * @param code Reset code
+ * @param expiresInMinutes How long the code stays valid
+ * @returns Promise resolving to boolean indicating success
+ */
+export const sendPasswordResetCode = async (to: string, name: string, code: string, expiresInMinutes: number): Promise<boolean> => {
+  return sendEmail(to, 'Saloon Guide - Password Reset Code', 'Reset your password', `
+                <h2 style="color: #333; margin: 0 0 20px 0; font-weight: 500;">Hi ${name},</h2>
+                <p style="font-size: 16px; line-height: 24px; margin-bottom: 25px;">We received a request to reset the password of your Saloon Guide account. Use the code below to choose a new password:</p>
+
+                <div style="background-color: #f5f5f5; border-left: 4px solid #7952B3; padding: 15px; margin: 20px 0; border-radius: 4px; font-family: monospace; font-size: 28px; letter-spacing: 6px; text-align: center;">
+                  ${code}
+                </div>
+
+                <p style="font-size: 16px; line-height: 24px; margin-bottom: 10px;"><strong>Important:</strong></p>
+                <ul style="padding-left: 20px; margin-bottom: 25px;">
+                  <li style="margin-bottom: 8px;">This code is valid for ${expiresInMinutes} minutes and can only be used once</li>
+                  <li style="margin-bottom: 8px;">Never share this code with anyone</li>
+                  <li style="margin-bottom: 8px;">If you didn't request a password reset, you can safely ignore this email</li>
+                </ul>
+  `);
+};
+
+/**
+ * Send the email address verification link
+ * @param to Recipient email address
+ * @param name Recipient name
+ * @param verificationLink Signed verification link
+ * @returns Promise resolving to boolean indicating success
+ */
+export const sendEmailVerification = async (to: string, name: string, verificationLink: string): Promise<boolean> => {
+  return sendEmail(to, 'Welcome to Saloon Guide - Verify Your Email', 'Verify your email address', `
+                <h2 style="color: #333; margin: 0 0 20px 0; font-weight: 500;">Welcome, ${name}!</h2>
+                <p style="font-size: 16px; line-height: 24px; margin-bottom: 25px;">Thank you for registering with Saloon Guide. Please confirm that this is your email address to finish setting up your account:</p>
+
+                <p style="text-align: center; margin: 30px 0;">
+                  <a href="${verificationLink}" style="background-color: #7952B3; color: #ffffff; padding: 14px 28px; border-radius: 4px; text-decoration: none; font-size: 16px; display: inline-block;">Verify Email Address</a>
+                </p>
+
+                <p style="font-size: 14px; line-height: 20px; margin-bottom: 25px; color: #666; word-break: break-all;">If the button does not work, copy this link into your browser:<br>${verificationLink}</p>
+
+                <p style="font-size: 16px; line-height: 24px; margin-bottom: 10px;"><strong>Important:</strong></p>
+                <ul style="padding-left: 20px; margin-bottom: 25px;">
+                  <li style="margin-bottom: 8px;">This link is valid for 24 hours</li>
+                  <li style="margin-bottom: 8px;">If you didn't register for an account, please contact our support team immediately</li>
+                </ul>
+
+                <p style="font-size: 16px; line-height: 24px;">Discover the best salons near you and book your appointments with ease!</p>
+  `);
+};
+
+/**
+ * Let a user know their account was locked after repeated failed logins
+ * @param to Recipient email address
+ * @param name Recipient name
+ * @param unlockLink Signed link that unlocks the account
+ * @param lockoutMinutes How long the lockout lasts if the link is not used
+ * @returns Promise resolving to boolean indicating success
+ */
+export const sendAccountLockedEmail = async (to: string, name: string, unlockLink: string, lockoutMinutes: number): Promise<boolean> => {
+  return sendEmail(to, 'Saloon Guide - Your Account Has Been Locked', 'Account locked', `
+                <h2 style="color: #333; margin: 0 0 20px 0; font-weight: 500;">Hi ${name},</h2>
+                <p style="font-size: 16px; line-height: 24px; margin-bottom: 25px;">We noticed several failed attempts to sign in to your Saloon Guide account, so we have locked it for ${lockoutMinutes} minutes to keep it safe.</p>
+                <p style="font-size: 16px; line-height: 24px; margin-bottom: 25px;">If these attempts were you, you can unlock your account right away:</p>
+
+                <p style="text-align: center; margin: 30px 0;">
+                  <a href="${unlockLink}" style="background-color: #7952B3; color: #ffffff; padding: 14px 28px; border-radius: 4px; text-decoration: none; font-size: 16px; display: inline-block;">Unlock My Account</a>
+                </p>
+
+                <p style="font-size: 16px; line-height: 24px; margin-bottom: 10px;"><strong>Important:</strong></p>
+                <ul style="padding-left: 20px; margin-bottom: 25px;">
+                  <li style="margin-bottom: 8px;">If these attempts were not you, we recommend resetting your password</li>
+                  <li style="margin-bottom: 8px;">Our support team will never ask for your password</li>
+                </ul>
+  `);
+};
+
+/**
+ * Let a user know their personal data export can be downloaded
+ * @param to Recipient email address
+ * @param name Recipient name
+ * @param expiresAt When the export is deleted
+ * @returns Promise resolving to boolean indicating success
+ */
+export const sendDataExportReadyEmail = async (to: string, name: string, expiresAt: Date): Promise<boolean> => {
+  return sendEmail(to, 'Saloon Guide - Your Data Export Is Ready', 'Data export ready', `
+                <h2 style="color: #333; margin: 0 0 20px 0; font-weight: 500;">Hi ${name},</h2>
+                <p style="font-size: 16px; line-height: 24px; margin-bottom: 25px;">The copy of your personal data you requested is ready. Sign in to the Saloon Guide app and open your account settings to download it.</p>
+
+                <p style="font-size: 16px; line-height: 24px; margin-bottom: 10px;"><strong>Important:</strong></p>
+                <ul style="padding-left: 20px; margin-bottom: 25px;">
+                  <li style="margin-bottom: 8px;">The download is available until ${expiresAt.toUTCString()}</li>
+                  <li style="margin-bottom: 8px;">If you did not request this export, please change your password</li>
+                </ul>
+  `);
+};
+
+/**
+ * Let a user know their account is scheduled for deletion
+ * @param to Recipient email address
+ * @param name Recipient name
+ * @param scheduledAt When the account will be deleted
+ * @returns Promise resolving to boolean indicating success
+ */
+export const sendAccountDeletionScheduledEmail = async (to: string, name: string, scheduledAt: Date): Promise<boolean> => {
+  return sendEmail(to, 'Saloon Guide - Your Account Will Be Deleted', 'Account deletion scheduled', `
+                <h2 style="color: #333; margin: 0 0 20px 0; font-weight: 500;">Hi ${name},</h2>
+                <p style="font-size: 16px; line-height: 24px; margin-bottom: 25px;">We received your request to delete your Saloon Guide account. Your account and personal details will be removed on ${scheduledAt.toUTCString()}.</p>
+                <p style="font-size: 16px; line-height: 24px; margin-bottom: 25px;">Changed your mind? Sign in to the Saloon Guide app before then and cancel the deletion from your account settings.</p>
+
+                <p style="font-size: 16px; line-height: 24px; margin-bottom: 10px;"><strong>Important:</strong></p>
+                <ul style="padding-left: 20px; margin-bottom: 25px;">
+                  <li style="margin-bottom: 8px;">Once deleted, your account cannot be restored</li>
+                  <li style="margin-bottom: 8px;">If you did not request this, sign in and cancel the deletion, then change your password</li>
+                </ul>
+  `);
+};
+
+/**
+ * Let the guest or the salon owner know that the other party moved an appointment
+ * @param to Recipient email address
+ * @param name Recipient name
+ * @param saloonName Name of the salon
+ * @param previousDate Time the appointment was booked for
+ * @param newDate New time of the appointment
+ * @param awaitingConfirmation Whether the salon still has to confirm the new time
+ * @returns Promise resolving to boolean indicating success
+ */
+export const sendAppointmentRescheduledEmail = async (
+  to: string,
+  name: string,
+  saloonName: string,
+  previousDate: Date,
+  newDate: Date,
+  awaitingConfirmation: boolean
+): Promise<boolean> => {
+  return sendEmail(to, 'Saloon Guide - Appointment Rescheduled', 'Appointment rescheduled', `
+                <h2 style="color: #333; margin: 0 0 20px 0; font-weight: 500;">Hi ${name},</h2>
+                <p style="font-size: 16px; line-height: 24px; margin-bottom: 25px;">An appointment at ${saloonName} has been moved to a new time.</p>
+
+                <ul style="padding-left: 20px; margin-bottom: 25px;">
+                  <li style="margin-bottom: 8px;">Previous time: ${previousDate.toUTCString()}</li>
+                  <li style="margin-bottom: 8px;">New time: <strong>${newDate.toUTCString()}</strong></li>
+                </ul>
+
+                <p style="font-size: 16px; line-height: 24px;">${awaitingConfirmation
+                  ? 'The new time is waiting for the salon to confirm it. Open the Saloon Guide app to review the appointment.'
+                  : 'No action is needed. Open the Saloon Guide app to see the appointment.'}</p>
+  `);
+};
+
+/**
+ * Offer a guest on the waitlist a time that was freed by a cancellation
+ * @param to Recipient email address
+ * @param name Recipient name
+ * @param saloonName Name of the salon
+ * @param appointmentDate Time that can be booked
+ * @param claimLink Signed link that books the time
+ * @param expiresAt When the offer passes to the next guest
+ * @returns Promise resolving to boolean indicating success
+ */
+export const sendWaitlistOfferEmail = async (
+  to: string,
+  name: string,
+  saloonName: string,
+  appointmentDate: Date,
+  claimLink: string,
+  expiresAt: Date
+): Promise<boolean> => {
+  return sendEmail(to, 'Saloon Guide - A Time Has Opened Up', 'Waitlist offer', `
+                <h2 style="color: #333; margin: 0 0 20px 0; font-weight: 500;">Hi ${name},</h2>
+                <p style="font-size: 16px; line-height: 24px; margin-bottom: 25px;">Good news! A time you were waiting for at ${saloonName} has opened up: <strong>${appointmentDate.toUTCString()}</strong>.</p>
+
+                <p style="text-align: center; margin: 30px 0;">
+                  <a href="${claimLink}" style="background-color: #7952B3; color: #ffffff; padding: 14px 28px; border-radius: 4px; text-decoration: none; font-size: 16px; display: inline-block;">Book This Time</a>
+                </p>
+
+                <p style="font-size: 14px; line-height: 20px; margin-bottom: 25px; color: #666; word-break: break-all;">If the button does not work, copy this link into your browser:<br>${claimLink}</p>
+
+                <p style="font-size: 16px; line-height: 24px; margin-bottom: 10px;"><strong>Important:</strong></p>
+                <ul style="padding-left: 20px; margin-bottom: 25px;">
+                  <li style="margin-bottom: 8px;">The offer is held for you until ${expiresAt.toUTCString()}, after that it goes to the next guest on the waitlist</li>
+                  <li style="margin-bottom: 8px;">If you do not book it, you stay on the waitlist for your other dates</li>
+                </ul>
+  `);
+};
+
+/**
+ * Let the guest or the salon owner know that the other party moved the rest of a recurring series
+ * @param to Recipient email address
+ * @param name Recipient name
+ * @param saloonName Name of the salon
+ * @param count Number of appointments moved
+ * @param previousDate Time the first moved appointment was booked for
+ * @param newDate New time of the first moved appointment
+ * @param awaitingConfirmation Whether the salon still has to confirm the new times
+ * @returns Promise resolving to boolean indicating success
+ */
+export const sendAppointmentSeriesRescheduledEmail = async (
+  to: string,
+  name: string,
+  saloonName: string,
+  count: number,
+  previousDate: Date,
+  newDate: Date,
+  awaitingConfirmation: boolean
+): Promise<boolean> => {
+  return sendEmail(to, 'Saloon Guide - Recurring Appointments Rescheduled', 'Recurring appointments rescheduled', `
+                <h2 style="color: #333; margin: 0 0 20px 0; font-weight: 500;">Hi ${name},</h2>
+                <p style="font-size: 16px; line-height: 24px; margin-bottom: 25px;">${count} recurring appointment(s) at ${saloonName} have been moved to new times.</p>
+
+                <ul style="padding-left: 20px; margin-bottom: 25px;">
+                  <li style="margin-bottom: 8px;">The next one was booked for: ${previousDate.toUTCString()}</li>
+                  <li style="margin-bottom: 8px;">It is now: <strong>${newDate.toUTCString()}</strong></li>
+                  <li style="margin-bottom: 8px;">The following appointments moved by the same amount</li>
+                </ul>
+
+                <p style="font-size: 16px; line-height: 24px;">${awaitingConfirmation
+                  ? 'The new times are waiting for the salon to confirm them. Open the Saloon Guide app to review the appointments.'
+                  : 'No action is needed. Open the Saloon Guide app to see the appointments.'}</p>
+  `);
+};
@@ -0,0 +1,81 @@
+import dotenv from 'dotenv';
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { generateActionToken, verifyActionToken } from './token.service';
+import { sendEmailVerification } from './email.service';
+
+dotenv.config();
+
+const EMAIL_VERIFICATION_PURPOSE = 'email_verification';
+const EMAIL_VERIFICATION_EXPIRES_IN = '24h';
+
+// Where the link in the email points to, e.g. a page of the web app that posts the token back
+const EMAIL_VERIFICATION_URL = process.env.EMAIL_VERIFICATION_URL
+    || `${process.env.HOST || 'http://localhost'}:${process.env.PORT || 3000}/api/v1/auth/email/verify`;
+
+// Actions that need a verified email address, configurable as a comma separated list
+const REQUIRED_FOR = (process.env.EMAIL_VERIFICATION_REQUIRED_FOR ?? 'book_appointment,create_saloon')
+    .split(',')
+    .map(action => action.trim())
+    .filter(Boolean);
+
+export type VerifiedEmailAction = 'book_appointment' | 'create_saloon';
+
+interface EmailVerificationPayload {
+    userId: number;
+    email: string;
+}
+
+/**
+ * Send a signed verification link to the user's current email address
+ * @param userId User ID
+ * @param email Email address to verify
+ * @param name Recipient name
+ * @returns Whether the email was sent
+ */
+export const sendVerificationEmail = async (userId: number, email: string, name: string): Promise<boolean> => {
+    const token = generateActionToken(EMAIL_VERIFICATION_PURPOSE, { userId, email }, EMAIL_VERIFICATION_EXPIRES_IN);
+    const separator = EMAIL_VERIFICATION_URL.includes('?') ? '&' : '?';
+    const link = `${EMAIL_VERIFICATION_URL}${separator}token=${encodeURIComponent(token)}`;
+
+    const sent = await sendEmailVerification(email, name, link);
+    logger.info(`Verification email for user ID: ${userId} sent: ${sent}`);
+
+    return sent;
+};
+
+/**
+ * Mark an email address as verified using a token from a verification link
+ * @param token Verification token
+ * @returns ID of the verified user, or null if the token is invalid or the email has changed since
+ */
+export const confirmEmailVerification = async (token: string): Promise<number | null> => {
+    const payload = verifyActionToken<EmailVerificationPayload>(token, EMAIL_VERIFICATION_PURPOSE);
+    if (!payload) {
+        return null;
+    }
+
+    const [result]: any = await pool.query(
+        'UPDATE users SET email_verified_at = COALESCE(email_verified_at, NOW()) WHERE id = ? AND email = ?',
+        [payload.userId, payload.email]
+    );
+
+    return result.affectedRows > 0 ? payload.userId : null;
+};
+
+/**
+ * Check whether an action requires a verified email address
+ * @param action Action being performed
+ */
+export const isVerificationRequiredFor = (action: VerifiedEmailAction): boolean => {
+    return REQUIRED_FOR.includes(action);
+};
+
+/**
+ * Check whether a user has verified their email address
+ * @param userId User ID
+ */
+export const isEmailVerified = async (userId: number): Promise<boolean> => {
+    const [rows]: any = await pool.query('SELECT email_verified_at FROM users WHERE id = ?', [userId]);
+    return rows && rows.length > 0 && rows[0].email_verified_at !== null;
+};
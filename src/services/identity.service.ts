@@ -0,0 +1,102 @@
+import pool from '../config/db';
+import logger, { securityLogger } from '../utils/logger';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import { getOAuthProvider, OAuthUserInfo } from './oauth.service';
+
+const providerLabel = (provider: string): string => {
+    const oauthProvider = getOAuthProvider(provider);
+    return oauthProvider ? oauthProvider.displayName : provider;
+};
+
+/**
+ * Find the identity linked to a provider account
+ * @param provider Provider name
+ * @param subject The provider's user ID
+ * @returns The linked identity or null
+ */
+export const findIdentity = async (provider: string, subject: string): Promise<any | null> => {
+    const [rows]: any = await pool.query(
+        'SELECT id, user_id, provider, subject, email FROM user_identities WHERE provider = ? AND subject = ?',
+        [provider, subject]
+    );
+
+    return rows && rows.length > 0 ? rows[0] : null;
+};
+
+/**
+ * List the identities linked to a user
+ * @param userId User ID
+ */
+export const getUserIdentities = async (userId: number): Promise<any[]> => {
+    const [rows]: any = await pool.query(
+        'SELECT provider, email, linked_at, last_used_at FROM user_identities WHERE user_id = ? ORDER BY linked_at',
+        [userId]
+    );
+
+    return rows || [];
+};
+
+/**
+ * Link a provider account to a user
+ * @param userId User ID
+ * @param profile User information from the provider
+ */
+export const linkIdentity = async (userId: number, profile: OAuthUserInfo): Promise<void> => {
+    const existing = await findIdentity(profile.provider, profile.subject);
+    if (existing) {
+        if (existing.user_id === userId) {
+            throw new ConflictError(`This ${providerLabel(profile.provider)} account is already linked to your account`);
+        }
+        throw new ConflictError(`This ${providerLabel(profile.provider)} account is already linked to another user`);
+    }
+
+    try {
+        await pool.query(
+            'INSERT INTO user_identities (user_id, provider, subject, email, last_used_at) VALUES (?, ?, ?, ?, NOW())',
+            [userId, profile.provider, profile.subject, profile.email]
+        );
+    } catch (error: any) {
+        if (error.code === 'ER_DUP_ENTRY') {
+            throw new ConflictError(`A ${providerLabel(profile.provider)} account is already linked, unlink it first`);
+        }
+        throw error;
+    }
+
+    securityLogger.info('External identity linked', { userId, provider: profile.provider, email: profile.email });
+};
+
+/**
+ * Remember when a linked identity was last used to sign in
+ * @param identityId Identity ID
+ * @param email Current email address at the provider
+ */
+export const touchIdentity = async (identityId: number, email: string): Promise<void> => {
+    await pool.query('UPDATE user_identities SET last_used_at = NOW(), email = ? WHERE id = ?', [email, identityId]);
+};
+
+/**
+ * Unlink a provider from a user, unless it is the only way left to sign in
+ * @param userId User ID
+ * @param provider Provider name
+ */
+export const unlinkIdentity = async (userId: number, provider: string): Promise<void> => {
+    const [users]: any = await pool.query('SELECT password_login_enabled FROM users WHERE id = ?', [userId]);
+    if (!users || users.length === 0) {
+        throw new NotFoundError(`User with ID ${userId} not found`);
+    }
+
+    const identities = await getUserIdentities(userId);
+    if (!identities.some(identity => identity.provider === provider)) {
+        throw new NotFoundError(`No ${providerLabel(provider)} account is linked`);
+    }
+
+    // Accounts created through a provider have no usable password until one is set
+    if (!users[0].password_login_enabled && identities.length === 1) {
+        throw new ConflictError('Set a password before unlinking your only sign-in method');
+    }
+
+    await pool.query('DELETE FROM user_identities WHERE user_id = ? AND provider = ?', [userId, provider]);
+
+    securityLogger.info('External identity unlinked', { userId, provider });
+    logger.info(`${provider} identity unlinked from user ID: ${userId}`);
+};
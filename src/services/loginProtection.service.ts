@@ -0,0 +1,209 @@
+import dotenv from 'dotenv';
+import pool from '../config/db';
+import logger, { securityLogger } from '../utils/logger';
+import { AccountLockedError, TooManyRequestsError } from '../utils/errors';
+import { generateActionToken, verifyActionToken } from './token.service';
+import { sendAccountLockedEmail } from './email.service';
+import { SessionContext } from './session.service';
+
+dotenv.config();
+
+const MAX_FAILED_ATTEMPTS = parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5');
+const LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15');
+const MAX_FAILED_ATTEMPTS_PER_IP = parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS_PER_IP || '20');
+const IP_WINDOW_MINUTES = 15;
+// Failed attempts allowed back to back before each further attempt has to wait
+const FREE_ATTEMPTS = 2;
+const MAX_DELAY_SECONDS = 60;
+
+const ACCOUNT_UNLOCK_PURPOSE = 'account_unlock';
+const ACCOUNT_UNLOCK_URL = process.env.ACCOUNT_UNLOCK_URL
+    || `${process.env.HOST || 'http://localhost'}:${process.env.PORT || 3000}/api/v1/auth/unlock`;
+
+export interface LoginCandidate {
+    id: number;
+    name: string;
+    email: string;
+    failed_login_attempts: number;
+    last_failed_login_at: Date | null;
+    locked_until: Date | null;
+}
+
+/**
+ * Reject a login attempt that arrives while the IP address or account is throttled
+ * @param ipAddress IP address of the client
+ * @param user Account being logged into, null when the email is unknown
+ */
+export const enforceLoginThrottle = async (ipAddress: string | null, user: LoginCandidate | null): Promise<void> => {
+    if (ipAddress) {
+        const [rows]: any = await pool.query(
+            `SELECT COUNT(*) as count FROM login_attempts
+             WHERE ip_address = ? AND successful = FALSE AND created_at > DATE_SUB(NOW(), INTERVAL ? MINUTE)`,
+            [ipAddress, IP_WINDOW_MINUTES]
+        );
+
+        if (rows[0].count >= MAX_FAILED_ATTEMPTS_PER_IP) {
+            securityLogger.warn('Login blocked for IP address', { ipAddress, failedAttempts: rows[0].count });
+            throw new TooManyRequestsError('Too many failed login attempts from this network, please try again later');
+        }
+    }
+
+    if (!user) {
+        return;
+    }
+
+    const now = Date.now();
+
+    if (user.locked_until && new Date(user.locked_until).getTime() > now) {
+        securityLogger.warn('Login attempt on locked account', { userId: user.id, email: user.email, ipAddress, lockedUntil: user.locked_until });
+        throw new AccountLockedError('Account is temporarily locked due to too many failed login attempts. Check your email to unlock it or try again later');
+    }
+
+    // Progressive delay: every failure beyond the free attempts doubles the wait
+    if (user.last_failed_login_at && user.failed_login_attempts > FREE_ATTEMPTS) {
+        const delaySeconds = Math.min(Math.pow(2, user.failed_login_attempts - FREE_ATTEMPTS - 1), MAX_DELAY_SECONDS);
+        const retryAt = new Date(user.last_failed_login_at).getTime() + delaySeconds * 1000;
+
+        if (retryAt > now) {
+            const waitSeconds = Math.ceil((retryAt - now) / 1000);
+            throw new TooManyRequestsError(`Too many failed login attempts, please wait ${waitSeconds} seconds before trying again`);
+        }
+    }
+};
+
+/**
+ * Record a failed login and lock the account once it reaches the limit
+ * @param email Email address used for the attempt
+ * @param user Account being logged into, null when the email is unknown
+ * @param context Client information
+ * @param reason Why the attempt failed
+ */
+export const recordFailedLogin = async (
+    email: string,
+    user: LoginCandidate | null,
+    context: SessionContext,
+    reason: string
+): Promise<void> => {
+    await pool.query(
+        'INSERT INTO login_attempts (email, user_id, ip_address, user_agent, successful, failure_reason) VALUES (?, ?, ?, ?, FALSE, ?)',
+        [email, user ? user.id : null, context.ipAddress, context.userAgent, reason]
+    );
+
+    securityLogger.info('Failed login attempt', { email, userId: user ? user.id : null, ipAddress: context.ipAddress, reason });
+
+    if (!user) {
+        return;
+    }
+
+    // Counted in the database, so concurrent attempts cannot overwrite each other's count
+    await pool.query(
+        'UPDATE users SET failed_login_attempts = failed_login_attempts + 1, last_failed_login_at = NOW() WHERE id = ?',
+        [user.id]
+    );
+
+    const lockedUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
+    const lockReason = `${MAX_FAILED_ATTEMPTS} consecutive failed login attempts, last from IP ${context.ipAddress || 'unknown'}`;
+
+    // Only the attempt that reaches the limit locks the account, the counter starts over once the lockout has passed
+    const [result]: any = await pool.query(
+        `UPDATE users SET failed_login_attempts = 0, last_failed_login_at = NULL, locked_until = ?, lock_reason = ?
+         WHERE id = ? AND failed_login_attempts >= ?`,
+        [lockedUntil, lockReason, user.id, MAX_FAILED_ATTEMPTS]
+    );
+
+    if (result.affectedRows === 0) {
+        return;
+    }
+
+    securityLogger.warn('Account locked', { userId: user.id, email: user.email, ipAddress: context.ipAddress, lockedUntil, reason: lockReason });
+    logger.warn(`Account locked for user ID: ${user.id} until ${lockedUntil.toISOString()}`);
+
+    const token = generateActionToken(ACCOUNT_UNLOCK_PURPOSE, { userId: user.id }, '24h');
+    const separator = ACCOUNT_UNLOCK_URL.includes('?') ? '&' : '?';
+    const link = `${ACCOUNT_UNLOCK_URL}${separator}token=${encodeURIComponent(token)}`;
+
+    sendAccountLockedEmail(user.email, user.name, link, LOCKOUT_MINUTES)
+        .catch((error) => logger.error('Error sending account locked email:', error));
+};
+
+/**
+ * Record a successful login and reset the failure counter
+ * @param user Account that logged in
+ * @param context Client information
+ */
+export const recordSuccessfulLogin = async (user: LoginCandidate, context: SessionContext): Promise<void> => {
+    await pool.query(
+        'INSERT INTO login_attempts (email, user_id, ip_address, user_agent, successful) VALUES (?, ?, ?, ?, TRUE)',
+        [user.email, user.id, context.ipAddress, context.userAgent]
+    );
+
+    if (user.failed_login_attempts > 0 || user.locked_until) {
+        await pool.query(
+            'UPDATE users SET failed_login_attempts = 0, last_failed_login_at = NULL, locked_until = NULL, lock_reason = NULL WHERE id = ?',
+            [user.id]
+        );
+    }
+};
+
+/**
+ * Lift a lockout and reset the failure counter
+ * @param userId User ID
+ * @param unlockedBy Who unlocked the account, for the security log
+ * @returns Whether the user exists
+ */
+export const unlockAccount = async (userId: number, unlockedBy: string): Promise<boolean> => {
+    const [result]: any = await pool.query(
+        'UPDATE users SET failed_login_attempts = 0, last_failed_login_at = NULL, locked_until = NULL, lock_reason = NULL WHERE id = ?',
+        [userId]
+    );
+
+    if (result.affectedRows > 0) {
+        securityLogger.info('Account unlocked', { userId, unlockedBy });
+    }
+
+    return result.affectedRows > 0;
+};
+
+/**
+ * Unlock an account using the token from the lockout email
+ * @param token Unlock token
+ * @returns ID of the unlocked user, or null if the token is invalid
+ */
+export const unlockAccountWithToken = async (token: string): Promise<number | null> => {
+    const payload = verifyActionToken<{ userId: number }>(token, ACCOUNT_UNLOCK_PURPOSE);
+    if (!payload) {
+        return null;
+    }
+
+    const unlocked = await unlockAccount(payload.userId, 'email_link');
+    return unlocked ? payload.userId : null;
+};
+
+/**
+ * Get recent login attempts of a user for support staff
+ * @param userId User ID
+ * @param limit Maximum number of attempts to return
+ */
+export const getRecentLoginAttempts = async (userId: number, limit = 50): Promise<any[]> => {
+    const [rows]: any = await pool.query(
+        `SELECT id, email, ip_address, user_agent, successful, failure_reason, created_at
+         FROM login_attempts
+         WHERE user_id = ?
+         ORDER BY created_at DESC
+         LIMIT ?`,
+        [userId, limit]
+    );
+
+    return rows || [];
+};
+
+/**
+ * Remove login attempts older than the retention period
+ */
+export const purgeOldLoginAttempts = async (): Promise<void> => {
+    const [result]: any = await pool.query(
+        'DELETE FROM login_attempts WHERE created_at < DATE_SUB(NOW(), INTERVAL 90 DAY)'
+    );
+
+    logger.info(`Purged ${result.affectedRows} old login attempt(s)`);
+};
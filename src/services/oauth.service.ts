@@ -14,11 +14,26 @@ const client = new OAuth2Client(
     clientId || 'dummy-client-id-for-development'
 );
 
-export interface GoogleUserInfo {
+/**
+ * User information returned by an identity provider
+ */
+export interface OAuthUserInfo {
+    provider: string;
+    subject: string; // The provider's stable user ID
     email: string;
     name: string;
     picture?: string;
-    googleId: string;
+    emailVerified: boolean;
+}
+
+/**
+ * An external identity provider that users can sign in with.
+ * New providers only need to implement this and be added to the registry below.
+ */
+export interface OAuthProvider {
+    name: string;
+    displayName: string;
+    verifyToken(token: string): Promise<OAuthUserInfo | null>;
 }
 
 /**
@@ -26,7 +41,7 @@ export interface GoogleUserInfo {
  * @param token Google ID token from client
  * @returns User information or null if invalid
  */
-export const verifyGoogleToken = async (token: string): Promise<GoogleUserInfo | null> => {
+export const verifyGoogleToken = async (token: string): Promise<OAuthUserInfo | null> => {
     try {
         // Fail fast if no client ID is configured
         if (!clientId) {
@@ -54,13 +69,42 @@ export const verifyGoogleToken = async (token: string): Promise<GoogleUserInfo |
 
         // Return user information
         return {
+            provider: 'google',
+            subject: payload.sub, // Google's user ID
             email: payload.email,
             name: payload.name || '',
             picture: payload.picture,
-            googleId: payload.sub // Google's user ID
+            emailVerified: payload.email_verified === true
         };
     } catch (error) {
         logger.error('Error verifying Google token:', error);
         return null;
     }
 };
+
+const googleProvider: OAuthProvider = {
+    name: 'google',
+    displayName: 'Google',
+    verifyToken: verifyGoogleToken
+};
+
+// Registry of supported identity providers by name
+const providers: Record<string, OAuthProvider> = {
+    [googleProvider.name]: googleProvider
+};
+
+/**
+ * Look up an identity provider by name
+ * @param name Provider name, e.g. 'google'
+ * @returns The provider or null if it is not supported
+ */
+export const getOAuthProvider = (name: string): OAuthProvider | null => {
+    return providers[name.toLowerCase()] || null;
+};
+
+/**
+ * Names of all supported identity providers
+ */
+export const getSupportedProviders = (): string[] => {
+    return Object.keys(providers);
+};
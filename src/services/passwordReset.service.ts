@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { hashToken } from './token.service';
+import { sendPasswordResetCode } from './email.service';
+
+const RESET_CODE_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_CODE_TTL_MINUTES || '15');
+const MAX_REQUESTS_PER_HOUR = parseInt(process.env.PASSWORD_RESET_MAX_REQUESTS_PER_HOUR || '3');
+const MAX_CODE_ATTEMPTS = 5;
+
+/**
+ * Issue a reset code for the account with the given email and mail it.
+ * Unknown emails and rate limited requests are ignored silently so callers
+ * cannot tell whether an account exists.
+ * @param email Email address of the account
+ * @param ipAddress IP address of the requester
+ */
+export const requestPasswordReset = async (email: string, ipAddress: string | null): Promise<void> => {
+    const [users]: any = await pool.query('SELECT id, name, email FROM users WHERE email = ?', [email]);
+
+    if (!users || users.length === 0) {
+        logger.info(`Password reset requested for unknown email: ${email}`);
+        return;
+    }
+
+    const user = users[0];
+
+    // Limit how many codes can be mailed to one account per hour
+    const [recent]: any = await pool.query(
+        'SELECT COUNT(*) as count FROM password_reset_codes WHERE user_id = ? AND created_at > DATE_SUB(NOW(), INTERVAL 1 HOUR)',
+        [user.id]
+    );
+
+    if (recent[0].count >= MAX_REQUESTS_PER_HOUR) {
+        logger.warn(`Password reset rate limit reached for user ID: ${user.id}`);
+        return;
+    }
+
+    // Only the newest code is valid
+    await pool.query(
+        'UPDATE password_reset_codes SET used_at = NOW() WHERE user_id = ? AND used_at IS NULL',
+        [user.id]
+    );
+
+    const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    const expiresAt = new Date(Date.now() + RESET_CODE_TTL_MINUTES * 60 * 1000);
+
+    await pool.query(
+        'INSERT INTO password_reset_codes (user_id, code_hash, ip_address, expires_at) VALUES (?, ?, ?, ?)',
+        [user.id, hashToken(code), ipAddress, expiresAt]
+    );
+
+    logger.info(`Password reset code issued for user ID: ${user.id}`);
+
+    // Deliver in the background so the response time does not reveal the account exists
+    sendPasswordResetCode(user.email, user.name, code, RESET_CODE_TTL_MINUTES)
+        .then((sent) => {
+            if (!sent) {
+                logger.error(`Failed to send password reset code to user ID: ${user.id}`);
+            }
+        })
+        .catch((error) => logger.error('Error sending password reset code:', error));
+};
+
+/**
+ * Check a reset code and mark it as used
+ * @param email Email address of the account
+ * @param code Code entered by the user
+ * @returns ID of the user whose password may be reset, or null if the code is not valid
+ */
+export const consumePasswordResetCode = async (email: string, code: string): Promise<number | null> => {
+    const [rows]: any = await pool.query(
+        `SELECT prc.id, prc.user_id, prc.code_hash
+         FROM password_reset_codes prc
+         JOIN users u ON prc.user_id = u.id
+         WHERE u.email = ? AND prc.used_at IS NULL AND prc.expires_at > NOW()
+         ORDER BY prc.created_at DESC
+         LIMIT 1`,
+        [email]
+    );
+
+    if (!rows || rows.length === 0) {
+        return null;
+    }
+
+    const resetCode = rows[0];
+
+    // Count the attempt before comparing, so parallel guesses cannot all pass the limit
+    const [attempt]: any = await pool.query(
+        'UPDATE password_reset_codes SET attempts = attempts + 1 WHERE id = ? AND attempts < ?',
+        [resetCode.id, MAX_CODE_ATTEMPTS]
+    );
+
+    if (attempt.affectedRows === 0) {
+        return null;
+    }
+
+    const expected = Buffer.from(resetCode.code_hash, 'hex');
+    const actual = Buffer.from(hashToken(code), 'hex');
+
+    if (!crypto.timingSafeEqual(expected, actual)) {
+        logger.warn(`Invalid password reset code entered for user ID: ${resetCode.user_id}`);
+        return null;
+    }
+
+    // Guard against the same code being redeemed twice concurrently
+    const [result]: any = await pool.query(
+        'UPDATE password_reset_codes SET used_at = NOW() WHERE id = ? AND used_at IS NULL',
+        [resetCode.id]
+    );
+
+    return result.affectedRows > 0 ? resetCode.user_id : null;
+};
@@ -0,0 +1,134 @@
+import pool from '../config/db';
+import logger, { securityLogger } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { defaultPermissions } from '../models/permission.model';
+
+// Role permissions are read on every authorized request, keep them in memory for a short while
+const CACHE_TTL_MS = 60 * 1000;
+const permissionCache = new Map<number, { permissions: Set<string>; loadedAt: number }>();
+
+/**
+ * Create missing permissions and grant each newly created one to its default roles
+ */
+export const seedDefaultPermissions = async (): Promise<void> => {
+    const [roles]: any = await pool.query('SELECT id, name FROM user_roles');
+    const roleIds = new Map<string, number>(roles.map((role: any) => [role.name, role.id]));
+
+    for (const permission of defaultPermissions) {
+        const [result]: any = await pool.query(
+            'INSERT IGNORE INTO permissions (name, description) VALUES (?, ?)',
+            [permission.name, permission.description]
+        );
+
+        // Existing permissions keep whatever grants admins have configured
+        if (result.affectedRows === 0) {
+            continue;
+        }
+
+        for (const roleName of permission.roles) {
+            const roleId = roleIds.get(roleName);
+            if (roleId) {
+                await pool.query(
+                    'INSERT IGNORE INTO role_permissions (role_id, permission_id) VALUES (?, ?)',
+                    [roleId, result.insertId]
+                );
+            }
+        }
+
+        logger.info(`Permission ${permission.name} created and granted to: ${permission.roles.join(', ')}`);
+    }
+
+    permissionCache.clear();
+};
+
+/**
+ * Get the names of the permissions granted to a role
+ * @param roleId Role ID
+ */
+export const getRolePermissions = async (roleId: number): Promise<string[]> => {
+    const cached = permissionCache.get(roleId);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+        return Array.from(cached.permissions);
+    }
+
+    const [rows]: any = await pool.query(
+        `SELECT p.name
+         FROM role_permissions rp
+         JOIN permissions p ON rp.permission_id = p.id
+         WHERE rp.role_id = ?
+         ORDER BY p.name`,
+        [roleId]
+    );
+
+    const permissions: string[] = rows.map((row: any) => row.name);
+    permissionCache.set(roleId, { permissions: new Set(permissions), loadedAt: Date.now() });
+
+    return permissions;
+};
+
+/**
+ * Check whether a role has been granted a permission
+ * @param roleId Role ID
+ * @param permission Permission name, e.g. 'saloon:update'
+ */
+export const hasPermission = async (roleId: number, permission: string): Promise<boolean> => {
+    const permissions = await getRolePermissions(roleId);
+    return permissions.includes(permission);
+};
+
+/**
+ * List every permission that can be granted
+ */
+export const getAllPermissions = async (): Promise<any[]> => {
+    const [rows]: any = await pool.query('SELECT id, name, description FROM permissions ORDER BY name');
+    return rows || [];
+};
+
+/**
+ * Replace the permissions granted to a role
+ * @param roleId Role ID
+ * @param permissionNames Names of the permissions the role should have
+ * @param changedBy ID of the admin making the change, for the security log
+ */
+export const setRolePermissions = async (roleId: number, permissionNames: string[], changedBy?: number): Promise<string[]> => {
+    const [roles]: any = await pool.query('SELECT id FROM user_roles WHERE id = ?', [roleId]);
+    if (!roles || roles.length === 0) {
+        throw new NotFoundError(`Role with ID ${roleId} not found`);
+    }
+
+    const names = Array.from(new Set(permissionNames));
+    let permissionIds: number[] = [];
+
+    if (names.length > 0) {
+        const [permissions]: any = await pool.query('SELECT id, name FROM permissions WHERE name IN (?)', [names]);
+
+        const known = permissions.map((permission: any) => permission.name);
+        const unknown = names.filter(name => !known.includes(name));
+        if (unknown.length > 0) {
+            throw new ValidationError(`Unknown permissions: ${unknown.join(', ')}`);
+        }
+
+        permissionIds = permissions.map((permission: any) => permission.id);
+    }
+
+    const previous = await getRolePermissions(roleId);
+
+    await pool.query('DELETE FROM role_permissions WHERE role_id = ?', [roleId]);
+    if (permissionIds.length > 0) {
+        await pool.query(
+            'INSERT INTO role_permissions (role_id, permission_id) VALUES ?',
+            [permissionIds.map(permissionId => [roleId, permissionId])]
+        );
+    }
+
+    permissionCache.delete(roleId);
+
+    securityLogger.info('Role permissions changed', {
+        roleId,
+        changedBy,
+        granted: names.filter(name => !previous.includes(name)),
+        revoked: previous.filter(name => !names.includes(name))
+    });
+
+    return getRolePermissions(roleId);
+};
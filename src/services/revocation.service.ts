@@ -0,0 +1,90 @@
+import pool from '../config/db';
+import logger from '../utils/logger';
+
+/**
+ * Add an access token to the revocation list
+ * @param jti Token ID
+ * @param userId Owner of the token
+ * @param expiresAt When the token would have expired on its own
+ * @param reason Why the token was revoked
+ */
+export const revokeToken = async (jti: string, userId: number, expiresAt: Date, reason: string): Promise<void> => {
+    await pool.query(
+        'INSERT IGNORE INTO revoked_tokens (jti, user_id, reason, expires_at) VALUES (?, ?, ?, ?)',
+        [jti, userId, reason, expiresAt]
+    );
+};
+
+/**
+ * Check whether an access token has been revoked
+ * @param jti Token ID
+ */
+export const isTokenRevoked = async (jti: string): Promise<boolean> => {
+    const [rows]: any = await pool.query('SELECT jti FROM revoked_tokens WHERE jti = ?', [jti]);
+    return rows && rows.length > 0;
+};
+
+/**
+ * Revoke sessions of a user together with their latest access tokens
+ * @param userId Owner of the sessions
+ * @param reason Why the sessions were revoked
+ * @param sessionIds Sessions to revoke, all active sessions when omitted
+ * @param exceptSessionId Session to keep, e.g. the one changing the password
+ * @returns Number of revoked sessions
+ */
+export const revokeUserSessions = async (
+    userId: number,
+    reason: string,
+    sessionIds?: number[],
+    exceptSessionId?: number
+): Promise<number> => {
+    let query = `SELECT id, access_token_jti, access_token_expires_at FROM user_sessions
+                 WHERE user_id = ? AND revoked_at IS NULL`;
+    const params: any[] = [userId];
+
+    if (sessionIds) {
+        if (sessionIds.length === 0) {
+            return 0;
+        }
+        query += ` AND id IN (${sessionIds.map(() => '?').join(',')})`;
+        params.push(...sessionIds);
+    }
+
+    if (exceptSessionId) {
+        query += ' AND id != ?';
+        params.push(exceptSessionId);
+    }
+
+    const [sessions]: any = await pool.query(query, params);
+    if (!sessions || sessions.length === 0) {
+        return 0;
+    }
+
+    const now = new Date();
+    for (const session of sessions) {
+        if (session.access_token_jti && session.access_token_expires_at && new Date(session.access_token_expires_at) > now) {
+            await revokeToken(session.access_token_jti, userId, session.access_token_expires_at, reason);
+        }
+    }
+
+    const ids = sessions.map((session: any) => session.id);
+    await pool.query(
+        `UPDATE user_sessions SET revoked_at = NOW() WHERE id IN (${ids.map(() => '?').join(',')})`,
+        ids
+    );
+
+    logger.info(`Revoked ${ids.length} session(s) for user ID: ${userId}, reason: ${reason}`);
+    return ids.length;
+};
+
+/**
+ * Remove revocation entries and sessions that can no longer be used
+ */
+export const purgeExpiredRevocations = async (): Promise<void> => {
+    const [tokens]: any = await pool.query('DELETE FROM revoked_tokens WHERE expires_at <= NOW()');
+    const [sessions]: any = await pool.query(
+        'DELETE FROM user_sessions WHERE expires_at <= NOW() OR revoked_at <= DATE_SUB(NOW(), INTERVAL 30 DAY)'
+    );
+
+    logger.info(`Purged ${tokens.affectedRows} expired revoked token(s) and ${sessions.affectedRows} stale session(s)`);
+};
@@ -0,0 +1,57 @@
+import pool from '../config/db';
+import { AuthorizationError, NotFoundError } from '../utils/errors';
+
+const SALOON_COLUMNS = 'id, name, description, address, phone, email, website, owner_id, opening_time, closing_time, latitude, longitude, parallel_chairs, reschedule_requires_confirmation, auto_confirm_bookings, cancellation_cutoff_hours, no_show_threshold, no_show_enforcement';
+
+/**
+ * Load a saloon and make sure the user owns it. Owners can have several saloons,
+ * so every check is made against the saloon being changed.
+ * @param saloonId Saloon ID
+ * @param userId ID of the user acting on the saloon
+ * @param message Error shown when the user does not own the saloon
+ * @returns The saloon
+ */
+export const getOwnedSaloon = async (
+    saloonId: number | string,
+    userId: number,
+    message = 'You can only manage your own salons'
+): Promise<any> => {
+    const [rows]: any = await pool.query(`SELECT ${SALOON_COLUMNS} FROM saloons WHERE id = ?`, [saloonId]);
+
+    if (!rows || rows.length === 0) {
+        throw new NotFoundError(`Salon with ID ${saloonId} not found`);
+    }
+
+    if (rows[0].owner_id !== userId) {
+        throw new AuthorizationError(message);
+    }
+
+    return rows[0];
+};
+
+/**
+ * List the saloons of an owner together with their services
+ * @param ownerId Owner's user ID
+ */
+export const getSaloonsOfOwner = async (ownerId: number | string): Promise<any[]> => {
+    const [saloons]: any = await pool.query(
+        `SELECT ${SALOON_COLUMNS}, created_at FROM saloons WHERE owner_id = ? ORDER BY created_at, id`,
+        [ownerId]
+    );
+
+    if (!saloons || saloons.length === 0) {
+        return [];
+    }
+
+    const [services]: any = await pool.query(
+        'SELECT id, saloon_id, name, description, price, duration, buffer_minutes FROM saloon_services WHERE saloon_id IN (?)',
+        [saloons.map((saloon: any) => saloon.id)]
+    );
+
+    return saloons.map((saloon: any) => ({
+        ...saloon,
+        services: services
+            .filter((service: any) => service.saloon_id === saloon.id)
+            .map(({ saloon_id, ...service }: any) => service)
+    }));
+};
@@ -0,0 +1,195 @@
+import { Request } from 'express';
+import pool from '../config/db';
+import logger from '../utils/logger';
+import {
+    generateToken,
+    generateRefreshToken,
+    getRefreshTokenExpiry,
+    getTokenClaims,
+    hashToken,
+    TokenPayload
+} from './token.service';
+import { revokeToken, revokeUserSessions } from './revocation.service';
+
+export interface SessionContext {
+    deviceName: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+}
+
+export interface AuthTokens {
+    token: string;
+    refreshToken: string;
+    sessionId: number;
+    expiresAt: string | null;
+}
+
+/**
+ * Build the device information stored with a session from the incoming request
+ * @param req Express request
+ * @param deviceName Optional device name supplied by the client
+ */
+export const getSessionContext = (req: Request, deviceName?: string | null): SessionContext => {
+    const userAgent = req.get('user-agent');
+
+    return {
+        deviceName: deviceName ? deviceName.trim().slice(0, 100) : null,
+        ipAddress: req.ip || null,
+        userAgent: userAgent ? userAgent.slice(0, 255) : null
+    };
+};
+
+/**
+ * Sign an access token bound to a session and remember its ID so it can be
+ * revoked together with the session
+ */
+const issueAccessToken = async (payload: TokenPayload, sessionId: number): Promise<{ token: string; expiresAt: string | null }> => {
+    const token = generateToken({
+        userId: payload.userId,
+        email: payload.email,
+        roleId: payload.roleId,
+        sessionId
+    });
+    const { jti, expiresAt } = getTokenClaims(token);
+
+    await pool.query(
+        'UPDATE user_sessions SET access_token_jti = ?, access_token_expires_at = ? WHERE id = ?',
+        [jti, expiresAt, sessionId]
+    );
+
+    return { token, expiresAt: expiresAt ? expiresAt.toISOString() : null };
+};
+
+/**
+ * Start a new session for a user and issue its first access and refresh tokens
+ * @param payload User data to include in the access token
+ * @param context Device information for the session
+ */
+export const createSession = async (payload: TokenPayload, context: SessionContext): Promise<AuthTokens> => {
+    const refreshToken = generateRefreshToken();
+
+    const [result]: any = await pool.query(
+        `INSERT INTO user_sessions (user_id, refresh_token_hash, device_name, ip_address, user_agent, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [payload.userId, hashToken(refreshToken), context.deviceName, context.ipAddress, context.userAgent, getRefreshTokenExpiry()]
+    );
+
+    const sessionId = result.insertId;
+    logger.info(`Session ${sessionId} created for user ID: ${payload.userId}`);
+
+    return {
+        ...(await issueAccessToken(payload, sessionId)),
+        refreshToken,
+        sessionId
+    };
+};
+
+/**
+ * Exchange a refresh token for a new access token and a new refresh token.
+ * Presenting an already rotated refresh token revokes the whole session.
+ * @param refreshToken Refresh token presented by the client
+ * @param context Device information of the refreshing client
+ * @returns New tokens or null if the refresh token is not valid
+ */
+export const rotateRefreshToken = async (refreshToken: string, context: SessionContext): Promise<AuthTokens | null> => {
+    const tokenHash = hashToken(refreshToken);
+
+    const [sessions]: any = await pool.query(
+        `SELECT s.id, s.user_id, s.expires_at, s.revoked_at, s.access_token_jti, s.access_token_expires_at, u.email, u.role_id
+         FROM user_sessions s
+         JOIN users u ON s.user_id = u.id
+         WHERE s.refresh_token_hash = ?`,
+        [tokenHash]
+    );
+
+    if (!sessions || sessions.length === 0) {
+        // A rotated token being replayed means it has leaked, end the session it belonged to
+        const [reused]: any = await pool.query(
+            'SELECT id, user_id FROM user_sessions WHERE previous_refresh_token_hash = ? AND revoked_at IS NULL',
+            [tokenHash]
+        );
+
+        if (reused && reused.length > 0) {
+            logger.warn(`Refresh token reuse detected for session ${reused[0].id}, user ID: ${reused[0].user_id}`);
+            await revokeUserSessions(reused[0].user_id, 'refresh_token_reuse', [reused[0].id]);
+        }
+
+        return null;
+    }
+
+    const session = sessions[0];
+
+    if (session.revoked_at || new Date(session.expires_at) <= new Date()) {
+        return null;
+    }
+
+    const newRefreshToken = generateRefreshToken();
+
+    // Only the request that still finds the presented token rotates it
+    const [rotated]: any = await pool.query(
+        `UPDATE user_sessions
+         SET refresh_token_hash = ?, previous_refresh_token_hash = ?, expires_at = ?,
+             ip_address = ?, user_agent = COALESCE(?, user_agent), last_seen_at = NOW()
+         WHERE id = ? AND refresh_token_hash = ? AND revoked_at IS NULL`,
+        [hashToken(newRefreshToken), tokenHash, getRefreshTokenExpiry(), context.ipAddress, context.userAgent, session.id, tokenHash]
+    );
+
+    if (rotated.affectedRows === 0) {
+        // Another request rotated the same token first, the token is being used twice
+        logger.warn(`Refresh token reuse detected for session ${session.id}, user ID: ${session.user_id}`);
+        await revokeUserSessions(session.user_id, 'refresh_token_reuse', [session.id]);
+        return null;
+    }
+
+    // The access token being replaced must not outlive a later revocation of the session
+    if (session.access_token_jti && session.access_token_expires_at && new Date(session.access_token_expires_at) > new Date()) {
+        await revokeToken(session.access_token_jti, session.user_id, session.access_token_expires_at, 'token_rotated');
+    }
+
+    return {
+        ...(await issueAccessToken({ userId: session.user_id, email: session.email, roleId: session.role_id }, session.id)),
+        refreshToken: newRefreshToken,
+        sessionId: session.id
+    };
+};
+
+/**
+ * Check whether a session exists and has not been revoked or expired
+ * @param sessionId Session ID
+ * @param userId Owner of the session
+ */
+export const isSessionActive = async (sessionId: number, userId: number): Promise<boolean> => {
+    const [rows]: any = await pool.query(
+        'SELECT id FROM user_sessions WHERE id = ? AND user_id = ? AND revoked_at IS NULL AND expires_at > NOW()',
+        [sessionId, userId]
+    );
+
+    return rows && rows.length > 0;
+};
+
+/**
+ * List the active sessions of a user, most recently used first
+ * @param userId User ID
+ */
+export const getActiveSessions = async (userId: number): Promise<any[]> => {
+    const [rows]: any = await pool.query(
+        `SELECT id, device_name, ip_address, user_agent, last_seen_at, expires_at, created_at
+         FROM user_sessions
+         WHERE user_id = ? AND revoked_at IS NULL AND expires_at > NOW()
+         ORDER BY last_seen_at DESC`,
+        [userId]
+    );
+
+    return rows || [];
+};
+
+/**
+ * Revoke one session of a user
+ * @param userId Owner of the session
+ * @param sessionId Session ID
+ * @returns Whether an active session was revoked
+ */
+export const revokeSession = async (userId: number, sessionId: number): Promise<boolean> => {
+    const revoked = await revokeUserSessions(userId, 'session_revoked', [sessionId]);
+    return revoked > 0;
+};
@@ -0,0 +1,209 @@
+import dotenv from 'dotenv';
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { AuthorizationError, ConflictError, NotFoundError } from '../utils/errors';
+import { NoShowEnforcement } from '../models/saloon.model';
+import { SlotHoldStatus } from '../models/slotHold.model';
+import { Queryable, getBookedServices, reserveSlot } from './availability.service';
+import { assertWithinBusinessHours } from './businessHours.service';
+import { getGuestNoShowCount, getNoShowEnforcement } from './appointment.service';
+
+dotenv.config();
+
+// How long a held time stays reserved for the guest before other guests can book it again
+const HOLD_TTL_MINUTES = parseInt(process.env.SLOT_HOLD_TTL_MINUTES || '10');
+// How many salons a guest can hold a time at at once, a new hold at the same salon replaces the old one
+const MAX_ACTIVE_HOLDS = parseInt(process.env.SLOT_HOLD_MAX_PER_GUEST || '3');
+
+const HOLD_COLUMNS = 'h.id, h.saloon_id, s.name as saloon_name, h.staff_id, h.appointment_date, h.duration, h.status, h.expires_at, h.created_at';
+
+export interface SlotHoldRequest {
+    serviceIds: number[];
+    staffId?: number | null;
+    appointmentDate: Date;
+}
+
+/**
+ * Get one hold of a guest
+ * @param guestId User ID of the guest
+ * @param holdId Hold ID
+ */
+export const getSlotHold = async (guestId: number, holdId: number | string): Promise<any> => {
+    const [rows]: any = await pool.query(
+        `SELECT ${HOLD_COLUMNS}
+         FROM slot_holds h
+         JOIN saloons s ON h.saloon_id = s.id
+         WHERE h.id = ? AND h.guest_id = ?`,
+        [holdId, guestId]
+    );
+
+    if (!rows || rows.length === 0) {
+        throw new NotFoundError(`Slot hold with ID ${holdId} not found`);
+    }
+
+    return rows[0];
+};
+
+/**
+ * Hold a time for a guest while they finish booking. The time is checked like a booking and hidden
+ * from the availability of other guests until the hold expires, is released or is booked.
+ * @param guestId User ID of the guest
+ * @param saloonId Saloon ID
+ * @param request Services, stylist and start of the appointment
+ * @returns The new hold
+ */
+export const holdSlot = async (guestId: number, saloonId: number | string, request: SlotHoldRequest): Promise<any> => {
+    const [saloons]: any = await pool.query(
+        'SELECT id, no_show_threshold, no_show_enforcement FROM saloons WHERE id = ?',
+        [saloonId]
+    );
+
+    if (!saloons || saloons.length === 0) {
+        throw new NotFoundError(`Salon with ID ${saloonId} not found`);
+    }
+
+    if (getNoShowEnforcement(saloons[0], await getGuestNoShowCount(guestId)) === NoShowEnforcement.BLOCK) {
+        throw new AuthorizationError('This salon does not take online bookings after missed appointments, please contact the salon');
+    }
+
+    const { duration } = await getBookedServices(saloonId, request.serviceIds);
+    await assertWithinBusinessHours(saloonId, request.appointmentDate, duration);
+
+    const connection = await pool.getConnection();
+    let holdId: number;
+
+    try {
+        await connection.beginTransaction();
+        await connection.query('SELECT id FROM saloons WHERE id = ? FOR UPDATE', [saloonId]);
+
+        const [active]: any = await connection.query(
+            'SELECT id, saloon_id FROM slot_holds WHERE guest_id = ? AND status = ? AND expires_at > NOW() FOR UPDATE',
+            [guestId, SlotHoldStatus.ACTIVE]
+        );
+
+        // Picking another time at the same salon gives up the time held before
+        const replaced = active.find((hold: any) => Number(hold.saloon_id) === Number(saloonId));
+
+        if (!replaced && active.length >= MAX_ACTIVE_HOLDS) {
+            throw new ConflictError(`You can hold times at no more than ${MAX_ACTIVE_HOLDS} salons at once`);
+        }
+
+        const staffId = await reserveSlot(saloonId, request.appointmentDate, duration, {
+            serviceIds: request.serviceIds,
+            staffId: request.staffId,
+            excludeHoldId: replaced?.id,
+            db: connection
+        });
+
+        if (replaced) {
+            await connection.query('UPDATE slot_holds SET status = ? WHERE id = ?', [SlotHoldStatus.RELEASED, replaced.id]);
+        }
+
+        const [result]: any = await connection.query(
+            'INSERT INTO slot_holds (guest_id, saloon_id, staff_id, appointment_date, duration, status, expires_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+            [
+                guestId, saloonId, staffId, request.appointmentDate, duration, SlotHoldStatus.ACTIVE,
+                new Date(Date.now() + HOLD_TTL_MINUTES * 60 * 1000)
+            ]
+        );
+        holdId = result.insertId;
+
+        await connection.commit();
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+
+    logger.info(`Guest ID: ${guestId} holds ${request.appointmentDate.toISOString()} at salon ID: ${saloonId} for ${HOLD_TTL_MINUTES} minutes`);
+
+    return getSlotHold(guestId, holdId);
+};
+
+/**
+ * List the holds of a guest that have not expired yet
+ * @param guestId User ID of the guest
+ */
+export const getGuestSlotHolds = async (guestId: number): Promise<any[]> => {
+    const [rows]: any = await pool.query(
+        `SELECT ${HOLD_COLUMNS}
+         FROM slot_holds h
+         JOIN saloons s ON h.saloon_id = s.id
+         WHERE h.guest_id = ? AND h.status = ? AND h.expires_at > NOW()
+         ORDER BY h.expires_at`,
+        [guestId, SlotHoldStatus.ACTIVE]
+    );
+
+    return rows || [];
+};
+
+/**
+ * Give up a held time so other guests can book it
+ * @param guestId User ID of the guest
+ * @param holdId Hold ID
+ */
+export const releaseSlotHold = async (guestId: number, holdId: number | string): Promise<void> => {
+    const hold = await getSlotHold(guestId, holdId);
+
+    if (hold.status !== SlotHoldStatus.ACTIVE || new Date(hold.expires_at) <= new Date()) {
+        throw new ConflictError('Slot hold is no longer active');
+    }
+
+    await pool.query('UPDATE slot_holds SET status = ? WHERE id = ? AND status = ?', [SlotHoldStatus.RELEASED, hold.id, SlotHoldStatus.ACTIVE]);
+
+    logger.info(`Guest ID: ${guestId} released slot hold ID: ${hold.id}`);
+};
+
+/**
+ * Find the active hold of a guest for the time they are booking.
+ * Run it inside the booking transaction, the hold is locked.
+ * @param db Transaction connection
+ * @param guestId User ID of the guest
+ * @param saloonId Saloon ID
+ * @param appointmentDate Start of the appointment
+ * @returns The hold's ID, or null when the guest holds no such time
+ */
+export const findGuestSlotHold = async (
+    db: Queryable,
+    guestId: number,
+    saloonId: number | string,
+    appointmentDate: Date
+): Promise<number | null> => {
+    const [rows]: any = await db.query(
+        `SELECT id FROM slot_holds
+         WHERE guest_id = ? AND saloon_id = ? AND appointment_date = ? AND status = ? AND expires_at > NOW()
+         LIMIT 1 FOR UPDATE`,
+        [guestId, saloonId, appointmentDate, SlotHoldStatus.ACTIVE]
+    );
+
+    return rows && rows.length > 0 ? rows[0].id : null;
+};
+
+/**
+ * Mark a hold as turned into an appointment
+ * @param db Transaction connection
+ * @param holdId Hold ID
+ * @param appointmentId Appointment booked for the held time
+ */
+export const convertSlotHold = async (db: Queryable, holdId: number, appointmentId: number): Promise<void> => {
+    await db.query(
+        'UPDATE slot_holds SET status = ?, appointment_id = ? WHERE id = ?',
+        [SlotHoldStatus.CONVERTED, appointmentId, holdId]
+    );
+};
+
+/**
+ * Mark holds that were not booked in time as expired. They stop blocking availability when they expire,
+ * the job only keeps the table tidy.
+ */
+export const expireSlotHolds = async (): Promise<void> => {
+    const [result]: any = await pool.query(
+        'UPDATE slot_holds SET status = ? WHERE status = ? AND expires_at <= NOW()',
+        [SlotHoldStatus.EXPIRED, SlotHoldStatus.ACTIVE]
+    );
+
+    if (result.affectedRows > 0) {
+        logger.info(`Expired ${result.affectedRows} slot hold(s)`);
+    }
+};
@@ -0,0 +1,485 @@
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { AppointmentStatus } from '../models/appointment.model';
+import { UserStatus } from '../models/user.model';
+import {
+    OpeningHours,
+    OpeningInterval,
+    WeeklyInterval,
+    assertValidWeeklySchedule,
+    getWeeklyIntervalsOn,
+    intersectIntervals,
+    parseDateString,
+    subtractIntervals
+} from './businessHours.service';
+import { getSaloonBookings } from './availability.service';
+
+const STAFF_COLUMNS = 'id, saloon_id, user_id, name, email, phone, bio, is_active, created_at, updated_at';
+// What guests can see, contact details and the linked account are for the owner only
+const PUBLIC_STAFF_COLUMNS = 'id, saloon_id, name, bio, is_active';
+const STAFF_FIELDS = ['name', 'email', 'phone', 'bio', 'user_id', 'is_active'];
+
+export interface StaffInput {
+    name?: string;
+    email?: string | null;
+    phone?: string | null;
+    bio?: string | null;
+    user_id?: number | null;
+    is_active?: boolean;
+    service_ids?: number[];
+}
+
+export interface StaffHoursInput {
+    day_of_week: number;
+    start_time: string;
+    end_time: string;
+}
+
+// When one stylist can take appointments on a date
+export interface StaffAvailability {
+    id: number;
+    name: string;
+    intervals: OpeningInterval[];
+}
+
+// MySQL returns TIME values as HH:MM:SS
+const toTime = (value: string): string => value.slice(0, 5);
+
+/**
+ * Add the services and working hours to a list of staff members
+ * @param staff Staff rows
+ */
+const withDetails = async (staff: any[]): Promise<any[]> => {
+    if (staff.length === 0) {
+        return [];
+    }
+
+    const ids = staff.map((member) => member.id);
+    const placeholders = ids.map(() => '?').join(',');
+
+    const [services]: any = await pool.query(
+        `SELECT staff_id, service_id FROM staff_services WHERE staff_id IN (${placeholders}) ORDER BY service_id`,
+        ids
+    );
+    const [hours]: any = await pool.query(
+        `SELECT staff_id, day_of_week, start_time, end_time FROM staff_working_hours
+         WHERE staff_id IN (${placeholders}) ORDER BY day_of_week, start_time`,
+        ids
+    );
+
+    return staff.map((member) => ({
+        ...member,
+        is_active: !!member.is_active,
+        service_ids: services.filter((row: any) => row.staff_id === member.id).map((row: any) => row.service_id),
+        working_hours: hours
+            .filter((row: any) => row.staff_id === member.id)
+            .map((row: any) => ({ day_of_week: row.day_of_week, start_time: toTime(row.start_time), end_time: toTime(row.end_time) }))
+    }));
+};
+
+/**
+ * Make sure every service is offered by the saloon
+ * @param saloonId Saloon ID
+ * @param serviceIds Service IDs
+ */
+const assertServicesBelongToSaloon = async (saloonId: number | string, serviceIds: number[]): Promise<void> => {
+    if (serviceIds.length === 0) {
+        return;
+    }
+
+    const [services]: any = await pool.query(
+        `SELECT id FROM saloon_services WHERE id IN (${serviceIds.map(() => '?').join(',')}) AND saloon_id = ?`,
+        [...serviceIds, saloonId]
+    );
+
+    const found = services.map((service: any) => service.id);
+    const missing = serviceIds.filter((id) => !found.includes(id));
+
+    if (missing.length > 0) {
+        throw new ValidationError(`Services with IDs [${missing.join(', ')}] are not offered by this salon`);
+    }
+};
+
+/**
+ * Make sure a linked user account exists and has not been deleted
+ * @param userId User ID
+ */
+const assertUserExists = async (userId: number): Promise<void> => {
+    const [users]: any = await pool.query('SELECT id FROM users WHERE id = ? AND status != ?', [userId, UserStatus.DELETED]);
+
+    if (!users || users.length === 0) {
+        throw new NotFoundError(`User with ID ${userId} not found`);
+    }
+};
+
+/**
+ * List the staff of a saloon with their services and working hours
+ * @param saloonId Saloon ID
+ * @param includeInactive Also list staff members who no longer take bookings
+ * @param includeContact Also return the email, phone and linked user account (owner only)
+ */
+export const getSaloonStaff = async (saloonId: number | string, includeInactive = false, includeContact = false): Promise<any[]> => {
+    const [staff]: any = await pool.query(
+        `SELECT ${includeContact ? STAFF_COLUMNS : PUBLIC_STAFF_COLUMNS} FROM saloon_staff
+         WHERE saloon_id = ?${includeInactive ? '' : ' AND is_active = TRUE'}
+         ORDER BY name, id`,
+        [saloonId]
+    );
+
+    return withDetails(staff);
+};
+
+/**
+ * Get one staff member of a saloon
+ * @param saloonId Saloon ID
+ * @param staffId Staff member ID
+ * @param includeContact Also return the email, phone and linked user account (owner only)
+ */
+export const getStaffMember = async (saloonId: number | string, staffId: number | string, includeContact = false): Promise<any> => {
+    const [staff]: any = await pool.query(
+        `SELECT ${includeContact ? STAFF_COLUMNS : PUBLIC_STAFF_COLUMNS} FROM saloon_staff WHERE id = ? AND saloon_id = ?`,
+        [staffId, saloonId]
+    );
+
+    if (!staff || staff.length === 0) {
+        throw new NotFoundError(`Staff member with ID ${staffId} not found in this salon`);
+    }
+
+    return (await withDetails(staff))[0];
+};
+
+/**
+ * Replace the services a staff member performs
+ * @param connection Connection running the transaction
+ * @param staffId Staff member ID
+ * @param serviceIds Service IDs
+ */
+const replaceStaffServices = async (connection: any, staffId: number, serviceIds: number[]): Promise<void> => {
+    await connection.query('DELETE FROM staff_services WHERE staff_id = ?', [staffId]);
+
+    if (serviceIds.length > 0) {
+        await connection.query(
+            `INSERT INTO staff_services (staff_id, service_id) VALUES ${serviceIds.map(() => '(?, ?)').join(', ')}`,
+            serviceIds.flatMap((serviceId) => [staffId, serviceId])
+        );
+    }
+};
+
+/**
+ * Add a staff member to a saloon
+ * @param saloonId Saloon ID
+ * @param input Profile and the services the staff member performs
+ * @returns The new staff member
+ */
+export const createStaff = async (saloonId: number | string, input: StaffInput): Promise<any> => {
+    const serviceIds = Array.from(new Set(input.service_ids || []));
+    await assertServicesBelongToSaloon(saloonId, serviceIds);
+
+    if (input.user_id) {
+        await assertUserExists(input.user_id);
+    }
+
+    const connection = await pool.getConnection();
+    let staffId: number;
+
+    try {
+        await connection.beginTransaction();
+
+        const [result]: any = await connection.query(
+            'INSERT INTO saloon_staff (saloon_id, user_id, name, email, phone, bio) VALUES (?, ?, ?, ?, ?, ?)',
+            [saloonId, input.user_id || null, input.name, input.email || null, input.phone || null, input.bio || null]
+        );
+        staffId = result.insertId;
+
+        await replaceStaffServices(connection, staffId, serviceIds);
+
+        await connection.commit();
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+
+    logger.info(`Staff member ID: ${staffId} added to salon ID: ${saloonId}`);
+    return getStaffMember(saloonId, staffId, true);
+};
+
+/**
+ * Update the profile or services of a staff member
+ * @param saloonId Saloon ID
+ * @param staffId Staff member ID
+ * @param input Fields to change, services are replaced when given
+ * @returns The updated staff member
+ */
+export const updateStaff = async (saloonId: number | string, staffId: number | string, input: StaffInput): Promise<any> => {
+    const existing = await getStaffMember(saloonId, staffId);
+
+    const serviceIds = input.service_ids ? Array.from(new Set(input.service_ids)) : null;
+    if (serviceIds) {
+        await assertServicesBelongToSaloon(saloonId, serviceIds);
+    }
+
+    if (input.user_id) {
+        await assertUserExists(input.user_id);
+    }
+
+    const fields = STAFF_FIELDS.filter((field) => (input as any)[field] !== undefined);
+
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        if (fields.length > 0) {
+            await connection.query(
+                `UPDATE saloon_staff SET ${fields.map((field) => `${field} = ?`).join(', ')} WHERE id = ?`,
+                [...fields.map((field) => (input as any)[field] === '' ? null : (input as any)[field]), existing.id]
+            );
+        }
+
+        if (serviceIds) {
+            await replaceStaffServices(connection, existing.id, serviceIds);
+        }
+
+        await connection.commit();
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+
+    return getStaffMember(saloonId, staffId, true);
+};
+
+/**
+ * Remove a staff member. Refused while they still have upcoming appointments, deactivate them instead.
+ * @param saloonId Saloon ID
+ * @param staffId Staff member ID
+ * @returns The removed staff member
+ */
+export const deleteStaff = async (saloonId: number | string, staffId: number | string): Promise<any> => {
+    const existing = await getStaffMember(saloonId, staffId, true);
+
+    const [upcoming]: any = await pool.query(
+        'SELECT COUNT(*) as count FROM appointments WHERE staff_id = ? AND status IN (?, ?) AND appointment_date > NOW()',
+        [existing.id, AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED]
+    );
+
+    if (upcoming[0].count > 0) {
+        throw new ConflictError(
+            `${existing.name} has ${upcoming[0].count} upcoming appointment(s), deactivate the staff member or move the appointments first`
+        );
+    }
+
+    await pool.query('DELETE FROM saloon_staff WHERE id = ?', [existing.id]);
+    logger.info(`Staff member ID: ${existing.id} removed from salon ID: ${saloonId}`);
+
+    return existing;
+};
+
+/**
+ * Replace the working hours of a staff member. Without working hours they work whenever the salon is open.
+ * @param saloonId Saloon ID
+ * @param staffId Staff member ID
+ * @param hours Shifts, several per day for split shifts
+ * @returns The updated staff member
+ */
+export const replaceStaffHours = async (
+    saloonId: number | string,
+    staffId: number | string,
+    hours: StaffHoursInput[]
+): Promise<any> => {
+    const existing = await getStaffMember(saloonId, staffId);
+
+    assertValidWeeklySchedule(
+        hours.map((shift) => ({ day_of_week: shift.day_of_week, open_time: shift.start_time, close_time: shift.end_time })),
+        'Working hours'
+    );
+
+    const connection = await pool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        await connection.query('DELETE FROM staff_working_hours WHERE staff_id = ?', [existing.id]);
+
+        if (hours.length > 0) {
+            await connection.query(
+                `INSERT INTO staff_working_hours (staff_id, day_of_week, start_time, end_time) VALUES ${hours.map(() => '(?, ?, ?, ?)').join(', ')}`,
+                hours.flatMap((shift) => [existing.id, shift.day_of_week, shift.start_time, shift.end_time])
+            );
+        }
+
+        await connection.commit();
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+
+    return getStaffMember(saloonId, staffId, true);
+};
+
+/**
+ * List the time off of a staff member that has not ended yet
+ * @param saloonId Saloon ID
+ * @param staffId Staff member ID
+ */
+export const getStaffTimeOff = async (saloonId: number | string, staffId: number | string): Promise<any[]> => {
+    const existing = await getStaffMember(saloonId, staffId);
+
+    const [rows]: any = await pool.query(
+        'SELECT id, starts_at, ends_at, reason, created_at FROM staff_time_off WHERE staff_id = ? AND ends_at > NOW() ORDER BY starts_at',
+        [existing.id]
+    );
+
+    return rows;
+};
+
+/**
+ * Block a period in which a staff member takes no appointments
+ * @param saloonId Saloon ID
+ * @param staffId Staff member ID
+ * @param startsAt Start of the time off
+ * @param endsAt End of the time off
+ * @param reason Optional note for the owner
+ * @returns The new time off entry
+ */
+export const addStaffTimeOff = async (
+    saloonId: number | string,
+    staffId: number | string,
+    startsAt: Date,
+    endsAt: Date,
+    reason: string | null
+): Promise<any> => {
+    const existing = await getStaffMember(saloonId, staffId);
+
+    // Appointments already assigned to the staff member have to be moved first, also those that start earlier and run into it
+    const overlapping = (await getSaloonBookings(saloonId, startsAt, endsAt))
+        .filter((booking) => !booking.hold && booking.staff_id === existing.id);
+
+    if (overlapping.length > 0) {
+        throw new ConflictError(`${existing.name} has ${overlapping.length} appointment(s) during this time off`);
+    }
+
+    const [result]: any = await pool.query(
+        'INSERT INTO staff_time_off (staff_id, starts_at, ends_at, reason) VALUES (?, ?, ?, ?)',
+        [existing.id, startsAt, endsAt, reason]
+    );
+
+    const [rows]: any = await pool.query(
+        'SELECT id, starts_at, ends_at, reason, created_at FROM staff_time_off WHERE id = ?',
+        [result.insertId]
+    );
+
+    return rows[0];
+};
+
+/**
+ * Remove a time off entry
+ * @param saloonId Saloon ID
+ * @param staffId Staff member ID
+ * @param timeOffId Time off ID
+ */
+export const deleteStaffTimeOff = async (
+    saloonId: number | string,
+    staffId: number | string,
+    timeOffId: number | string
+): Promise<void> => {
+    const existing = await getStaffMember(saloonId, staffId);
+
+    const [result]: any = await pool.query(
+        'DELETE FROM staff_time_off WHERE id = ? AND staff_id = ?',
+        [timeOffId, existing.id]
+    );
+
+    if (result.affectedRows === 0) {
+        throw new NotFoundError(`Time off with ID ${timeOffId} not found`);
+    }
+};
+
+/**
+ * Work out when each stylist of a saloon can take appointments on a run of dates, before existing appointments are taken into account
+ * @param saloonId Saloon ID
+ * @param days Opening hours of the saloon on each date
+ * @param serviceIds Only stylists who perform all of these services
+ * @param staffId Only this stylist
+ * @returns The stylists of each date in the order of the dates, null when the saloon has no active staff and works by chairs
+ */
+export const getStaffAvailabilityForDays = async (
+    saloonId: number | string,
+    days: OpeningHours[],
+    serviceIds: number[] = [],
+    staffId?: number
+): Promise<StaffAvailability[][] | null> => {
+    const allStaff = await getSaloonStaff(saloonId);
+
+    if (allStaff.length === 0) {
+        return null;
+    }
+
+    const staff = allStaff.filter((member) =>
+        (staffId === undefined || member.id === staffId) &&
+        serviceIds.every((serviceId) => member.service_ids.includes(serviceId))
+    );
+
+    if (staff.length === 0 || days.length === 0) {
+        return days.map(() => []);
+    }
+
+    // Intervals of a day can run past midnight
+    const rangeStart = parseDateString(days[0].date) as Date;
+    const rangeEnd = days.reduce(
+        (end, day) => day.intervals.reduce((dayEnd, interval) => (interval.end > dayEnd ? interval.end : dayEnd), end),
+        new Date((parseDateString(days[days.length - 1].date) as Date).getTime() + 24 * 60 * 60 * 1000)
+    );
+
+    // One query for the whole run of dates
+    const [timeOff]: any = await pool.query(
+        `SELECT staff_id, starts_at, ends_at FROM staff_time_off
+         WHERE staff_id IN (${staff.map(() => '?').join(',')}) AND starts_at < ? AND ends_at > ?`,
+        [...staff.map((member) => member.id), rangeEnd, rangeStart]
+    );
+
+    return days.map((openingHours) => staff.map((member) => {
+        // Staff without working hours of their own work whenever the salon is open
+        const shifts: WeeklyInterval[] = member.working_hours.map((shift: StaffHoursInput) => ({
+            day_of_week: shift.day_of_week,
+            open_time: shift.start_time,
+            close_time: shift.end_time
+        }));
+        const working = shifts.length > 0
+            ? intersectIntervals(openingHours.intervals, getWeeklyIntervalsOn(shifts, openingHours.date))
+            : openingHours.intervals;
+
+        const absences = timeOff
+            .filter((entry: any) => entry.staff_id === member.id)
+            .map((entry: any) => ({ start: new Date(entry.starts_at), end: new Date(entry.ends_at) }));
+
+        return {
+            id: member.id,
+            name: member.name,
+            intervals: subtractIntervals(working, absences)
+        };
+    }));
+};
+
+/**
+ * Work out when each stylist of a saloon can take appointments on a date, before existing appointments are taken into account
+ * @param saloonId Saloon ID
+ * @param openingHours Opening hours of the saloon on the date
+ * @param serviceIds Only stylists who perform all of these services
+ * @param staffId Only this stylist
+ * @returns Null when the saloon has no active staff and works by chairs
+ */
+export const getStaffAvailability = async (
+    saloonId: number | string,
+    openingHours: OpeningHours,
+    serviceIds: number[] = [],
+    staffId?: number
+): Promise<StaffAvailability[] | null> => {
+    const days = await getStaffAvailabilityForDays(saloonId, [openingHours], serviceIds, staffId);
+    return days ? days[0] : null;
+};
@@ -1,16 +1,25 @@
 import jwt, { Secret, SignOptions } from 'jsonwebtoken';
+import crypto from 'crypto';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
 // Get secret key from environment variables or use default (only for development)
 const JWT_SECRET = process.env.JWT_SECRET || 'your_default_secret_key_for_development';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '24h';
+// Access tokens are short-lived, sessions are kept alive with refresh tokens
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_EXPIRES_IN_DAYS = parseInt(process.env.REFRESH_TOKEN_EXPIRES_IN_DAYS || '30');
 
 export interface TokenPayload {
     userId: number;
     email: string;
     roleId: number;
+    sessionId?: number;
+}
+
+export interface DecodedToken extends TokenPayload {
+    jti?: string;
+    exp?: number;
 }
 
 /**
@@ -22,9 +31,10 @@ export const generateToken = (payload: TokenPayload): string => {
     // Cast the secret key to the appropriate type
     const secretKey: Secret = JWT_SECRET;
 
-    // Create options with proper type for expiresIn
+    // Create options with proper type for expiresIn, every token gets a unique ID for revocation
     const options: SignOptions = {
-        expiresIn: JWT_EXPIRES_IN as unknown as number
+        expiresIn: JWT_EXPIRES_IN as unknown as number,
+        jwtid: crypto.randomUUID()
     };
 
     return jwt.sign(payload, secretKey, options);
@@ -35,12 +45,85 @@ export const generateToken = (payload: TokenPayload): string => {
  * @param token JWT token to verify
  * @returns Decoded token payload or null if invalid
  */
-export const verifyToken = (token: string): TokenPayload | null => {
+export const verifyToken = (token: string): DecodedToken | null => {
     try {
         const secretKey: Secret = JWT_SECRET;
-        const decoded = jwt.verify(token, secretKey) as TokenPayload;
+        const decoded = jwt.verify(token, secretKey) as DecodedToken;
         return decoded;
     } catch (error) {
         return null;
     }
 };
+
+/**
+ * Read the ID and expiry date of a JWT token without verifying it
+ * @param token JWT token
+ * @returns Token ID and expiry date, null when the claim is missing
+ */
+export const getTokenClaims = (token: string): { jti: string | null; expiresAt: Date | null } => {
+    const decoded = jwt.decode(token) as { jti?: string; exp?: number } | null;
+
+    return {
+        jti: decoded && decoded.jti ? decoded.jti : null,
+        expiresAt: decoded && decoded.exp ? new Date(decoded.exp * 1000) : null
+    };
+};
+
+/**
+ * Generate an opaque random refresh token
+ * @returns Refresh token string
+ */
+export const generateRefreshToken = (): string => {
+    return crypto.randomBytes(48).toString('hex');
+};
+
+/**
+ * Get the expiry date for a newly issued refresh token
+ */
+export const getRefreshTokenExpiry = (): Date => {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_EXPIRES_IN_DAYS);
+    return expiresAt;
+};
+
+/**
+ * Hash an opaque token before storing or looking it up in the database
+ * @param token Token to hash
+ * @returns Hex encoded HMAC-SHA256 digest
+ */
+export const hashToken = (token: string): string => {
+    return crypto.createHmac('sha256', JWT_SECRET).update(token).digest('hex');
+};
+
+/**
+ * Generate a signed single-purpose token, e.g. for email links. Each purpose
+ * uses its own signing key so these tokens are never accepted as access tokens.
+ * @param purpose What the token may be used for
+ * @param payload Data to include in the token
+ * @param expiresIn Token lifetime, e.g. '24h'
+ * @returns Signed token string
+ */
+export const generateActionToken = (purpose: string, payload: object, expiresIn: string): string => {
+    const secretKey: Secret = `${JWT_SECRET}:${purpose}`;
+    const options: SignOptions = {
+        expiresIn: expiresIn as unknown as number
+    };
+
+    return jwt.sign({ ...payload, purpose }, secretKey, options);
+};
+
+/**
+ * Verify a single-purpose token
+ * @param token Token to verify
+ * @param purpose Purpose the token must have been issued for
+ * @returns Decoded payload or null if invalid, expired or issued for another purpose
+ */
+export const verifyActionToken = <T extends object>(token: string, purpose: string): T | null => {
+    try {
+        const secretKey: Secret = `${JWT_SECRET}:${purpose}`;
+        const decoded = jwt.verify(token, secretKey) as T & { purpose?: string };
+        return decoded.purpose === purpose ? decoded : null;
+    } catch (error) {
+        return null;
+    }
+};
@@ -0,0 +1,397 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import pool from '../config/db';
+import logger, { securityLogger } from '../utils/logger';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { generateActionToken, getTokenClaims, hashToken, verifyActionToken } from './token.service';
+
+dotenv.config();
+
+const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || 'Saloon Guide';
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m';
+// Secrets are encrypted at rest, falls back to the JWT secret when no dedicated key is configured
+const ENCRYPTION_KEY = crypto
+    .createHash('sha256')
+    .update(process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'your_default_secret_key_for_development')
+    .digest();
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept codes from one step before and after the current one to allow for clock drift
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+const TWO_FACTOR_CHALLENGE_PURPOSE = 'two_factor_challenge';
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export type TwoFactorChallengeType = 'verify' | 'setup';
+
+export interface TwoFactorChallenge {
+    challengeToken: string;
+    challengeType: TwoFactorChallengeType;
+    expiresAt: string | null;
+}
+
+export interface TwoFactorChallengePayload {
+    userId: number;
+    type: TwoFactorChallengeType;
+    deviceName: string | null;
+}
+
+export interface TwoFactorEnrollment {
+    secret: string;
+    otpauthUri: string;
+}
+
+const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of input.replace(/=+$/, '').toUpperCase()) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            continue;
+        }
+
+        value = (value << 5) | index;
+        bits += 5;
+
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(bytes);
+};
+
+const encryptSecret = (secret: string): string => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+};
+
+const decryptSecret = (stored: string): string => {
+    const [iv, authTag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+/**
+ * Compute the HOTP value (RFC 4226) of a counter, TOTP uses the time step as counter
+ */
+const generateHotp = (secret: Buffer, counter: number): string => {
+    const counterBuffer = Buffer.alloc(8);
+    counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = crypto.createHmac('sha1', secret).update(counterBuffer).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % Math.pow(10, TOTP_DIGITS);
+
+    return binary.toString().padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Find the time step a TOTP code belongs to
+ * @returns The matching step, or null if the code is not valid right now
+ */
+const findTotpStep = (secret: string, code: string): number | null => {
+    const key = base32Decode(secret);
+    const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+
+    for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+        const expected = Buffer.from(generateHotp(key, currentStep + offset));
+        const actual = Buffer.from(code);
+
+        if (expected.length === actual.length && crypto.timingSafeEqual(expected, actual)) {
+            return currentStep + offset;
+        }
+    }
+
+    return null;
+};
+
+const normalizeRecoveryCode = (code: string): string => {
+    return code.replace(/[\s-]/g, '').toLowerCase();
+};
+
+/**
+ * Replace all recovery codes of a user with a fresh set
+ * @returns The new codes in plain text, they are only stored hashed
+ */
+const createRecoveryCodes = async (userId: number): Promise<string[]> => {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const raw = crypto.randomBytes(5).toString('hex');
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await pool.query('DELETE FROM two_factor_recovery_codes WHERE user_id = ?', [userId]);
+    await pool.query(
+        'INSERT INTO two_factor_recovery_codes (user_id, code_hash) VALUES ?',
+        [codes.map(code => [userId, hashToken(normalizeRecoveryCode(code))])]
+    );
+
+    return codes;
+};
+
+/**
+ * Check whether users of a role must use two-factor authentication
+ * @param roleId Role ID
+ */
+export const isTwoFactorRequiredForRole = async (roleId: number): Promise<boolean> => {
+    const [rows]: any = await pool.query('SELECT require_two_factor FROM user_roles WHERE id = ?', [roleId]);
+    return rows && rows.length > 0 && !!rows[0].require_two_factor;
+};
+
+/**
+ * Get the two-factor settings of a user
+ * @param userId User ID
+ */
+export const getTwoFactorStatus = async (userId: number): Promise<{
+    enabled: boolean;
+    enabledAt: Date | null;
+    requiredByRole: boolean;
+    recoveryCodesRemaining: number;
+}> => {
+    const [users]: any = await pool.query('SELECT role_id, two_factor_enabled_at FROM users WHERE id = ?', [userId]);
+    if (!users || users.length === 0) {
+        throw new NotFoundError(`User with ID ${userId} not found`);
+    }
+
+    const [codes]: any = await pool.query(
+        'SELECT COUNT(*) as count FROM two_factor_recovery_codes WHERE user_id = ? AND used_at IS NULL',
+        [userId]
+    );
+
+    return {
+        enabled: !!users[0].two_factor_enabled_at,
+        enabledAt: users[0].two_factor_enabled_at,
+        requiredByRole: await isTwoFactorRequiredForRole(users[0].role_id),
+        recoveryCodesRemaining: users[0].two_factor_enabled_at ? codes[0].count : 0
+    };
+};
+
+/**
+ * Generate a new secret for a user who has not enabled two-factor authentication yet.
+ * The secret only takes effect once it is confirmed with a code.
+ * @param userId User ID
+ * @param email Account name shown in the authenticator app
+ */
+export const startTwoFactorEnrollment = async (userId: number, email: string): Promise<TwoFactorEnrollment> => {
+    const [users]: any = await pool.query('SELECT two_factor_enabled_at FROM users WHERE id = ?', [userId]);
+    if (users && users.length > 0 && users[0].two_factor_enabled_at) {
+        throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    const secret = base32Encode(crypto.randomBytes(20));
+
+    await pool.query(
+        'UPDATE users SET two_factor_secret = ?, two_factor_enabled_at = NULL, two_factor_last_used_step = NULL WHERE id = ?',
+        [encryptSecret(secret), userId]
+    );
+
+    const label = encodeURIComponent(`${TWO_FACTOR_ISSUER}:${email}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: TWO_FACTOR_ISSUER,
+        algorithm: 'SHA1',
+        digits: TOTP_DIGITS.toString(),
+        period: TOTP_STEP_SECONDS.toString()
+    });
+
+    logger.info(`Two-factor enrollment started for user ID: ${userId}`);
+
+    return {
+        secret,
+        otpauthUri: `otpauth://totp/${label}?${params.toString()}`
+    };
+};
+
+/**
+ * Enable two-factor authentication once the user has proven their app generates valid codes
+ * @param userId User ID
+ * @param code Code from the authenticator app
+ * @returns Recovery codes, or null if the code is not valid
+ */
+export const confirmTwoFactorEnrollment = async (userId: number, code: string): Promise<string[] | null> => {
+    const [users]: any = await pool.query(
+        'SELECT two_factor_secret, two_factor_enabled_at FROM users WHERE id = ?',
+        [userId]
+    );
+
+    if (!users || users.length === 0 || !users[0].two_factor_secret) {
+        throw new ValidationError('Two-factor setup has not been started');
+    }
+
+    if (users[0].two_factor_enabled_at) {
+        throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    const step = findTotpStep(decryptSecret(users[0].two_factor_secret), code);
+    if (step === null) {
+        return null;
+    }
+
+    await pool.query(
+        'UPDATE users SET two_factor_enabled_at = NOW(), two_factor_last_used_step = ? WHERE id = ?',
+        [step, userId]
+    );
+
+    securityLogger.info('Two-factor authentication enabled', { userId });
+
+    return createRecoveryCodes(userId);
+};
+
+/**
+ * Check a code from the authenticator app or an unused recovery code.
+ * Each TOTP code and each recovery code can only be used once.
+ * @param userId User ID
+ * @param code TOTP code or recovery code
+ */
+export const verifyTwoFactorCode = async (userId: number, code: string): Promise<boolean> => {
+    const [users]: any = await pool.query(
+        'SELECT two_factor_secret, two_factor_enabled_at, two_factor_last_used_step FROM users WHERE id = ?',
+        [userId]
+    );
+
+    if (!users || users.length === 0 || !users[0].two_factor_enabled_at || !users[0].two_factor_secret) {
+        return false;
+    }
+
+    const user = users[0];
+
+    if (/^[0-9]{6}$/.test(code)) {
+        const step = findTotpStep(decryptSecret(user.two_factor_secret), code);
+        if (step === null) {
+            return false;
+        }
+
+        // Only a newer step may be used, so an intercepted code cannot be replayed
+        const [result]: any = await pool.query(
+            `UPDATE users SET two_factor_last_used_step = ?
+             WHERE id = ? AND (two_factor_last_used_step IS NULL OR two_factor_last_used_step < ?)`,
+            [step, userId, step]
+        );
+
+        return result.affectedRows > 0;
+    }
+
+    const [result]: any = await pool.query(
+        'UPDATE two_factor_recovery_codes SET used_at = NOW() WHERE user_id = ? AND code_hash = ? AND used_at IS NULL',
+        [userId, hashToken(normalizeRecoveryCode(code))]
+    );
+
+    if (result.affectedRows > 0) {
+        securityLogger.info('Two-factor recovery code used', { userId });
+        return true;
+    }
+
+    return false;
+};
+
+/**
+ * Replace the recovery codes of a user who has two-factor authentication enabled
+ * @param userId User ID
+ * @returns The new recovery codes
+ */
+export const regenerateRecoveryCodes = async (userId: number): Promise<string[]> => {
+    const codes = await createRecoveryCodes(userId);
+    securityLogger.info('Two-factor recovery codes regenerated', { userId });
+    return codes;
+};
+
+/**
+ * Turn off two-factor authentication and forget the secret and recovery codes
+ * @param userId User ID
+ * @param disabledBy Who disabled it, for the security log
+ * @returns Whether the user exists
+ */
+export const disableTwoFactor = async (userId: number, disabledBy: string): Promise<boolean> => {
+    const [result]: any = await pool.query(
+        'UPDATE users SET two_factor_secret = NULL, two_factor_enabled_at = NULL, two_factor_last_used_step = NULL WHERE id = ?',
+        [userId]
+    );
+
+    await pool.query('DELETE FROM two_factor_recovery_codes WHERE user_id = ?', [userId]);
+
+    if (result.affectedRows > 0) {
+        securityLogger.info('Two-factor authentication disabled', { userId, disabledBy });
+    }
+
+    return result.affectedRows > 0;
+};
+
+/**
+ * Decide whether a login needs a second step before a session is created
+ * @param userId User ID
+ * @param roleId Role of the user
+ * @param twoFactorEnabledAt When the user enabled two-factor authentication
+ * @param deviceName Device name to use for the session once the challenge is completed
+ * @returns A challenge for the client to complete, or null if the session can be created right away
+ */
+export const createLoginChallenge = async (
+    userId: number,
+    roleId: number,
+    twoFactorEnabledAt: Date | null,
+    deviceName: string | null
+): Promise<TwoFactorChallenge | null> => {
+    let type: TwoFactorChallengeType;
+
+    if (twoFactorEnabledAt) {
+        type = 'verify';
+    } else if (await isTwoFactorRequiredForRole(roleId)) {
+        // The role policy requires two-factor authentication, the user has to set it up first
+        type = 'setup';
+    } else {
+        return null;
+    }
+
+    const challengeToken = generateActionToken(
+        TWO_FACTOR_CHALLENGE_PURPOSE,
+        { userId, type, deviceName },
+        TWO_FACTOR_CHALLENGE_EXPIRES_IN
+    );
+    const { expiresAt } = getTokenClaims(challengeToken);
+
+    return {
+        challengeToken,
+        challengeType: type,
+        expiresAt: expiresAt ? expiresAt.toISOString() : null
+    };
+};
+
+/**
+ * Verify a challenge token handed out by createLoginChallenge
+ * @param token Challenge token
+ * @returns Decoded payload or null if invalid or expired
+ */
+export const verifyLoginChallenge = (token: string): TwoFactorChallengePayload | null => {
+    return verifyActionToken<TwoFactorChallengePayload>(token, TWO_FACTOR_CHALLENGE_PURPOSE);
+};
@@ -0,0 +1,570 @@
+import dotenv from 'dotenv';
+import pool from '../config/db';
+import logger from '../utils/logger';
+import { AuthorizationError, ConflictError, NotFoundError, SlotUnavailableError, ValidationError } from '../utils/errors';
+import { AppointmentStatus } from '../models/appointment.model';
+import { NoShowEnforcement } from '../models/saloon.model';
+import { WaitlistEntryStatus, WaitlistOfferStatus } from '../models/waitlist.model';
+import { Queryable, getBookedServices, isSlotAvailable, reserveSlot } from './availability.service';
+import { addDays, parseDateString, toDateString } from './businessHours.service';
+import { getGuestNoShowCount, getNoShowEnforcement, insertAppointment } from './appointment.service';
+import { generateActionToken, verifyActionToken } from './token.service';
+import { assertAccountActive } from './accountStatus.service';
+import { sendWaitlistOfferEmail } from './email.service';
+
+dotenv.config();
+
+const WAITLIST_OFFER_PURPOSE = 'waitlist_offer';
+// How long a guest has to claim a freed time before it is offered to the next guest
+const OFFER_TTL_MINUTES = parseInt(process.env.WAITLIST_OFFER_TTL_MINUTES || '30');
+// Longest date window of one entry, and how many entries a guest can have waiting at once
+const MAX_WINDOW_DAYS = 31;
+const MAX_ACTIVE_ENTRIES = 5;
+// Entries checked against a freed time, in the order they joined
+const MAX_CANDIDATES = 20;
+
+// Where the link in the email points to, e.g. a page of the web app that posts the token back
+const WAITLIST_CLAIM_URL = process.env.WAITLIST_CLAIM_URL
+    || `${process.env.HOST || 'http://localhost'}:${process.env.PORT || 3000}/api/v1/appointments/waitlist/claim`;
+
+const ENTRY_COLUMNS = 'e.id, e.saloon_id, s.name as saloon_name, e.staff_id, e.date_from, e.date_to, e.status, e.created_at';
+
+export interface WaitlistRequest {
+    serviceIds: number[];
+    staffId?: number | null;
+    dateFrom: string;
+    dateTo?: string;
+}
+
+export interface ClaimedOffer {
+    appointmentId: number;
+    saloonId: number;
+    appointmentDate: Date;
+    staffId: number | null;
+    status: AppointmentStatus;
+}
+
+interface WaitlistOfferPayload {
+    offerId: number;
+}
+
+/**
+ * Load the services of waitlist entries
+ * @param entryIds Entry IDs
+ * @param db Pool or transaction connection
+ * @returns Service IDs by entry ID
+ */
+const getEntryServiceIds = async (entryIds: number[], db: Queryable = pool): Promise<Map<number, number[]>> => {
+    const serviceIds = new Map<number, number[]>(entryIds.map((id) => [id, []]));
+    if (entryIds.length === 0) {
+        return serviceIds;
+    }
+
+    const [rows]: any = await db.query(
+        'SELECT entry_id, service_id FROM waitlist_entry_services WHERE entry_id IN (?) ORDER BY id',
+        [entryIds]
+    );
+
+    for (const row of rows) {
+        serviceIds.get(row.entry_id)?.push(row.service_id);
+    }
+
+    return serviceIds;
+};
+
+/**
+ * Get one waitlist entry of a guest with its services and open offer
+ * @param guestId User ID of the guest
+ * @param entryId Entry ID
+ */
+export const getWaitlistEntry = async (guestId: number, entryId: number | string): Promise<any> => {
+    const [rows]: any = await pool.query(
+        `SELECT ${ENTRY_COLUMNS}
+         FROM waitlist_entries e
+         JOIN saloons s ON e.saloon_id = s.id
+         WHERE e.id = ? AND e.guest_id = ?`,
+        [entryId, guestId]
+    );
+
+    if (!rows || rows.length === 0) {
+        throw new NotFoundError(`Waitlist entry with ID ${entryId} not found`);
+    }
+
+    return (await withServicesAndOffers(rows))[0];
+};
+
+/**
+ * Attach the service IDs and the open offer to waitlist entries
+ * @param entries Entries as selected with ENTRY_COLUMNS
+ */
+const withServicesAndOffers = async (entries: any[]): Promise<any[]> => {
+    const ids = entries.map((entry) => entry.id);
+    const serviceIds = await getEntryServiceIds(ids);
+
+    const [offers]: any = ids.length > 0
+        ? await pool.query(
+            'SELECT id, entry_id, appointment_date, expires_at FROM waitlist_offers WHERE entry_id IN (?) AND status = ?',
+            [ids, WaitlistOfferStatus.PENDING]
+        )
+        : [[]];
+
+    return entries.map((entry) => {
+        const offer = offers.find((row: any) => row.entry_id === entry.id);
+
+        return {
+            ...entry,
+            date_from: toDateString(new Date(entry.date_from)),
+            date_to: toDateString(new Date(entry.date_to)),
+            service_ids: serviceIds.get(entry.id) || [],
+            offer: offer ? { id: offer.id, appointment_date: offer.appointment_date, expires_at: offer.expires_at } : null
+        };
+    });
+};
+
+/**
+ * Put a guest on the waitlist of a saloon for a date window
+ * @param guestId User ID of the guest
+ * @param saloonId Saloon ID
+ * @param request Services, preferred stylist and dates
+ * @returns The new entry
+ */
+export const joinWaitlist = async (guestId: number, saloonId: number | string, request: WaitlistRequest): Promise<any> => {
+    const dateTo = request.dateTo || request.dateFrom;
+    const from = parseDateString(request.dateFrom);
+    const to = parseDateString(dateTo);
+
+    if (!from || !to) {
+        throw new ValidationError('Dates must be valid calendar dates');
+    }
+
+    if (to < from) {
+        throw new ValidationError('Date to must not be before date from');
+    }
+
+    if (request.dateFrom < toDateString(new Date())) {
+        throw new ValidationError('Date from must not be in the past');
+    }
+
+    if (addDays(request.dateFrom, MAX_WINDOW_DAYS - 1) < dateTo) {
+        throw new ValidationError(`The waitlist can cover at most ${MAX_WINDOW_DAYS} days`);
+    }
+
+    const [saloons]: any = await pool.query(
+        'SELECT id, no_show_threshold, no_show_enforcement FROM saloons WHERE id = ?',
+        [saloonId]
+    );
+
+    if (!saloons || saloons.length === 0) {
+        throw new NotFoundError(`Salon with ID ${saloonId} not found`);
+    }
+
+    if (getNoShowEnforcement(saloons[0], await getGuestNoShowCount(guestId)) === NoShowEnforcement.BLOCK) {
+        throw new AuthorizationError('This salon does not take online bookings after missed appointments, please contact the salon');
+    }
+
+    // Check that all services belong to the salon
+    await getBookedServices(saloonId, request.serviceIds);
+
+    if (request.staffId) {
+        const [staff]: any = await pool.query(
+            'SELECT id FROM saloon_staff WHERE id = ? AND saloon_id = ? AND is_active = TRUE',
+            [request.staffId, saloonId]
+        );
+
+        if (!staff || staff.length === 0) {
+            throw new ValidationError(`Stylist with ID ${request.staffId} does not work at this salon`);
+        }
+    }
+
+    const [active]: any = await pool.query(
+        'SELECT saloon_id, date_from, date_to FROM waitlist_entries WHERE guest_id = ? AND status IN (?, ?)',
+        [guestId, WaitlistEntryStatus.WAITING, WaitlistEntryStatus.OFFERED]
+    );
+
+    if (active.length >= MAX_ACTIVE_ENTRIES) {
+        throw new ConflictError(`You can be on at most ${MAX_ACTIVE_ENTRIES} waitlists at once`);
+    }
+
+    const overlapping = active.some((entry: any) =>
+        Number(entry.saloon_id) === Number(saloonId) &&
+        toDateString(new Date(entry.date_from)) <= dateTo &&
+        toDateString(new Date(entry.date_to)) >= request.dateFrom
+    );
+
+    if (overlapping) {
+        throw new ConflictError('You are already on the waitlist of this salon for some of these dates');
+    }
+
+    const connection = await pool.getConnection();
+    let entryId: number;
+
+    try {
+        await connection.beginTransaction();
+
+        const [result]: any = await connection.query(
+            'INSERT INTO waitlist_entries (guest_id, saloon_id, staff_id, date_from, date_to, status) VALUES (?, ?, ?, ?, ?, ?)',
+            [guestId, saloonId, request.staffId || null, request.dateFrom, dateTo, WaitlistEntryStatus.WAITING]
+        );
+        entryId = result.insertId;
+
+        await connection.query(
+            `INSERT INTO waitlist_entry_services (entry_id, service_id) VALUES ${request.serviceIds.map(() => '(?, ?)').join(', ')}`,
+            request.serviceIds.flatMap((serviceId) => [entryId, serviceId])
+        );
+
+        await connection.commit();
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+
+    logger.info(`Guest ID: ${guestId} joined the waitlist of salon ID: ${saloonId} for ${request.dateFrom} to ${dateTo}`);
+
+    return getWaitlistEntry(guestId, entryId);
+};
+
+/**
+ * List the waitlist entries of a guest that are still waiting or have an offer
+ * @param guestId User ID of the guest
+ */
+export const getGuestWaitlist = async (guestId: number): Promise<any[]> => {
+    const [rows]: any = await pool.query(
+        `SELECT ${ENTRY_COLUMNS}
+         FROM waitlist_entries e
+         JOIN saloons s ON e.saloon_id = s.id
+         WHERE e.guest_id = ? AND e.status IN (?, ?)
+         ORDER BY e.date_from, e.id`,
+        [guestId, WaitlistEntryStatus.WAITING, WaitlistEntryStatus.OFFERED]
+    );
+
+    return withServicesAndOffers(rows || []);
+};
+
+/**
+ * Take a guest off a waitlist. An open offer passes to the next guest.
+ * @param guestId User ID of the guest
+ * @param entryId Entry ID
+ */
+export const leaveWaitlist = async (guestId: number, entryId: number | string): Promise<void> => {
+    const entry = await getWaitlistEntry(guestId, entryId);
+
+    if (entry.status !== WaitlistEntryStatus.WAITING && entry.status !== WaitlistEntryStatus.OFFERED) {
+        throw new ConflictError(`Waitlist entry is ${entry.status} and cannot be removed`);
+    }
+
+    await pool.query('UPDATE waitlist_entries SET status = ? WHERE id = ?', [WaitlistEntryStatus.CANCELLED, entry.id]);
+
+    if (entry.offer) {
+        await pool.query(
+            'UPDATE waitlist_offers SET status = ? WHERE id = ? AND status = ?',
+            [WaitlistOfferStatus.EXPIRED, entry.offer.id, WaitlistOfferStatus.PENDING]
+        );
+
+        const [offers]: any = await pool.query('SELECT freed_appointment_id FROM waitlist_offers WHERE id = ?', [entry.offer.id]);
+        if (offers[0]?.freed_appointment_id) {
+            await offerFreedSlot(offers[0].freed_appointment_id);
+        }
+    }
+
+    logger.info(`Guest ID: ${guestId} left waitlist entry ID: ${entry.id}`);
+};
+
+/**
+ * Offer the time of a cancelled appointment to the first guest on the waitlist it suits. Guests who were
+ * already offered the same appointment's time are skipped, so an unclaimed offer falls through to the next guest.
+ * @param appointmentId ID of the cancelled appointment
+ * @returns ID of the offer, or null when nobody on the waitlist can take the time
+ */
+export const offerFreedSlot = async (appointmentId: number): Promise<number | null> => {
+    const connection = await pool.getConnection();
+    let offer: { id: number; entry: any; start: Date; expiresAt: Date } | null = null;
+
+    try {
+        await connection.beginTransaction();
+
+        const [appointments]: any = await connection.query(
+            'SELECT id, saloon_id, appointment_date FROM appointments WHERE id = ?',
+            [appointmentId]
+        );
+
+        const appointment = appointments[0];
+        const start = appointment ? new Date(appointment.appointment_date) : null;
+
+        if (!appointment || !start || start.getTime() <= Date.now()) {
+            await connection.commit();
+            return null;
+        }
+
+        // The offer keeps the time free like a booking, and offers for the same appointment wait for each other
+        await connection.query('SELECT id FROM saloons WHERE id = ? FOR UPDATE', [appointment.saloon_id]);
+
+        const [open]: any = await connection.query(
+            'SELECT id FROM waitlist_offers WHERE freed_appointment_id = ? AND status = ?',
+            [appointmentId, WaitlistOfferStatus.PENDING]
+        );
+
+        if (open.length > 0) {
+            await connection.commit();
+            return null;
+        }
+
+        const saloonId = appointment.saloon_id;
+        const date = toDateString(start);
+        const [entries]: any = await connection.query(
+            `SELECT e.id, e.guest_id, e.staff_id, u.name as guest_name, u.email as guest_email, s.name as saloon_name
+             FROM waitlist_entries e
+             JOIN users u ON e.guest_id = u.id
+             JOIN saloons s ON e.saloon_id = s.id
+             WHERE e.saloon_id = ? AND e.status = ? AND e.date_from <= ? AND e.date_to >= ?
+               AND NOT EXISTS (SELECT 1 FROM waitlist_offers o WHERE o.entry_id = e.id AND o.freed_appointment_id = ?)
+             ORDER BY e.created_at, e.id
+             LIMIT ?`,
+            [saloonId, WaitlistEntryStatus.WAITING, date, date, appointmentId, MAX_CANDIDATES]
+        );
+
+        const serviceIds = await getEntryServiceIds(entries.map((entry: any) => entry.id), connection);
+
+        for (const entry of entries) {
+            const entryServiceIds = serviceIds.get(entry.id) || [];
+            if (entryServiceIds.length === 0) {
+                continue;
+            }
+
+            const { duration } = await getBookedServices(saloonId, entryServiceIds, connection);
+            const slotOptions = { serviceIds: entryServiceIds, staffId: entry.staff_id, db: connection };
+
+            if (!(await isSlotAvailable(saloonId, start, duration, slotOptions))) {
+                continue;
+            }
+
+            const staffId = await reserveSlot(saloonId, start, duration, slotOptions);
+
+            // Another offer may have reached the entry in the meantime
+            const [claimed]: any = await connection.query(
+                'UPDATE waitlist_entries SET status = ? WHERE id = ? AND status = ?',
+                [WaitlistEntryStatus.OFFERED, entry.id, WaitlistEntryStatus.WAITING]
+            );
+
+            if (claimed.affectedRows === 0) {
+                continue;
+            }
+
+            // The offer cannot outlive the time it is for
+            const expiresAt = new Date(Math.min(Date.now() + OFFER_TTL_MINUTES * 60 * 1000, start.getTime()));
+            const [result]: any = await connection.query(
+                `INSERT INTO waitlist_offers (entry_id, saloon_id, freed_appointment_id, staff_id, appointment_date, duration, status, expires_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+                [entry.id, saloonId, appointmentId, staffId, start, duration, WaitlistOfferStatus.PENDING, expiresAt]
+            );
+
+            offer = { id: result.insertId, entry, start, expiresAt };
+            break;
+        }
+
+        await connection.commit();
+    } catch (error) {
+        await connection.rollback();
+        throw error;
+    } finally {
+        connection.release();
+    }
+
+    if (!offer) {
+        return null;
+    }
+
+    const { id, entry, start, expiresAt } = offer;
+    const expiresInSeconds = Math.max(Math.ceil((expiresAt.getTime() - Date.now()) / 1000), 1);
+    const token = generateActionToken(WAITLIST_OFFER_PURPOSE, { offerId: id }, `${expiresInSeconds}s`);
+    const separator = WAITLIST_CLAIM_URL.includes('?') ? '&' : '?';
+    const link = `${WAITLIST_CLAIM_URL}${separator}token=${encodeURIComponent(token)}`;
+
+    logger.info(`Offered ${start.toISOString()} of appointment ID: ${appointmentId} to waitlist entry ID: ${entry.id}`);
+
+    sendWaitlistOfferEmail(entry.guest_email, entry.guest_name, entry.saloon_name, start, link, expiresAt)
+        .catch((error) => logger.error('Error sending waitlist offer email:', error));
+
+    return id;
+};
+
+/**
+ * Give up an offer and put its entry back on the waitlist, then offer the time to the next guest
+ * @param offerId Offer ID
+ */
+const expireOffer = async (offerId: number): Promise<void> => {
+    const [offers]: any = await pool.query('SELECT entry_id, freed_appointment_id FROM waitlist_offers WHERE id = ?', [offerId]);
+    const offer = offers[0];
+
+    const [expired]: any = await pool.query(
+        'UPDATE waitlist_offers SET status = ? WHERE id = ? AND status = ?',
+        [WaitlistOfferStatus.EXPIRED, offerId, WaitlistOfferStatus.PENDING]
+    );
+
+    if (expired.affectedRows === 0) {
+        return;
+    }
+
+    await pool.query(
+        'UPDATE waitlist_entries SET status = ? WHERE id = ? AND status = ?',
+        [WaitlistEntryStatus.WAITING, offer.entry_id, WaitlistEntryStatus.OFFERED]
+    );
+
+    // The freed appointment is gone when it was deleted with its salon or guest
+    if (offer.freed_appointment_id) {
+        await offerFreedSlot(offer.freed_appointment_id);
+    }
+};
+
+/**
+ * Show what a waitlist offer is for without booking it, for the page the offer link opens
+ * @param token Token from the offer link
+ */
+export const getWaitlistOffer = async (token: string): Promise<any> => {
+    const payload = verifyActionToken<WaitlistOfferPayload>(token, WAITLIST_OFFER_PURPOSE);
+    if (!payload) {
+        throw new ValidationError('Invalid or expired offer link');
+    }
+
+    const [offers]: any = await pool.query(
+        `SELECT o.id, o.entry_id, o.saloon_id, s.name as saloon_name, o.staff_id, o.appointment_date, o.status, o.expires_at
+         FROM waitlist_offers o
+         JOIN saloons s ON o.saloon_id = s.id
+         WHERE o.id = ?`,
+        [payload.offerId]
+    );
+
+    if (!offers || offers.length === 0) {
+        throw new NotFoundError('This offer no longer exists');
+    }
+
+    const { entry_id: entryId, ...offer } = offers[0];
+
+    return {
+        ...offer,
+        service_ids: (await getEntryServiceIds([entryId])).get(entryId) || []
+    };
+};
+
+/**
+ * Book the time of a waitlist offer for its guest
+ * @param token Token from the offer link
+ * @returns The booked appointment
+ */
+export const claimWaitlistOffer = async (token: string): Promise<ClaimedOffer> => {
+    const payload = verifyActionToken<WaitlistOfferPayload>(token, WAITLIST_OFFER_PURPOSE);
+    if (!payload) {
+        throw new ValidationError('Invalid or expired offer link');
+    }
+
+    const connection = await pool.getConnection();
+    let claimed: ClaimedOffer & { guestId: number };
+
+    try {
+        await connection.beginTransaction();
+
+        const [offers]: any = await connection.query(
+            `SELECT o.id, o.entry_id, o.saloon_id, o.staff_id, o.appointment_date, o.status, o.expires_at, e.guest_id,
+                    u.status as guest_status, u.status_reason, u.status_expires_at,
+                    s.auto_confirm_bookings, s.no_show_threshold, s.no_show_enforcement
+             FROM waitlist_offers o
+             JOIN waitlist_entries e ON o.entry_id = e.id
+             JOIN users u ON e.guest_id = u.id
+             JOIN saloons s ON o.saloon_id = s.id
+             WHERE o.id = ?
+             FOR UPDATE`,
+            [payload.offerId]
+        );
+
+        if (!offers || offers.length === 0) {
+            throw new NotFoundError('This offer no longer exists');
+        }
+
+        const offer = offers[0];
+
+        if (offer.status !== WaitlistOfferStatus.PENDING || new Date(offer.expires_at) <= new Date()) {
+            throw new ConflictError('This offer has expired or was already used');
+        }
+
+        // The link books without a login, so the account is checked here like authenticate does
+        assertAccountActive({ status: offer.guest_status, status_reason: offer.status_reason, status_expires_at: offer.status_expires_at });
+
+        const enforcement = getNoShowEnforcement(offer, await getGuestNoShowCount(offer.guest_id, connection));
+        if (enforcement === NoShowEnforcement.BLOCK) {
+            throw new AuthorizationError('This salon does not take online bookings after missed appointments, please contact the salon');
+        }
+
+        const status = offer.auto_confirm_bookings && !enforcement ? AppointmentStatus.CONFIRMED : AppointmentStatus.PENDING;
+        const appointmentDate = new Date(offer.appointment_date);
+        const serviceIds = (await getEntryServiceIds([offer.entry_id], connection)).get(offer.entry_id) || [];
+
+        // Lock the saloon like a normal booking, the stylist may have become unavailable since the time was offered
+        await connection.query('SELECT id FROM saloons WHERE id = ? FOR UPDATE', [offer.saloon_id]);
+        const { duration } = await getBookedServices(offer.saloon_id, serviceIds, connection);
+        const staffId = await reserveSlot(offer.saloon_id, appointmentDate, duration, {
+            serviceIds,
+            staffId: offer.staff_id,
+            excludeOfferId: offer.id,
+            db: connection
+        });
+
+        const appointmentId = await insertAppointment(connection, {
+            guestId: offer.guest_id,
+            saloonId: offer.saloon_id,
+            staffId,
+            appointmentDate,
+            status,
+            serviceIds,
+            metadata: { waitlist_offer_id: offer.id }
+        });
+
+        await connection.query(
+            'UPDATE waitlist_offers SET status = ?, appointment_id = ? WHERE id = ?',
+            [WaitlistOfferStatus.CLAIMED, appointmentId, offer.id]
+        );
+        await connection.query('UPDATE waitlist_entries SET status = ? WHERE id = ?', [WaitlistEntryStatus.BOOKED, offer.entry_id]);
+
+        await connection.commit();
+
+        claimed = { appointmentId, saloonId: offer.saloon_id, appointmentDate, staffId, status, guestId: offer.guest_id };
+    } catch (error) {
+        await connection.rollback();
+
+        // The guest cannot take the time, it passes to the next guest and the guest keeps their place for other times
+        if (error instanceof SlotUnavailableError || error instanceof ValidationError || error instanceof AuthorizationError) {
+            await expireOffer(payload.offerId);
+        }
+        throw error;
+    } finally {
+        connection.release();
+    }
+
+    logger.info(`Waitlist offer ID: ${payload.offerId} claimed by guest ID: ${claimed.guestId}, appointment ID: ${claimed.appointmentId}`);
+
+    const { guestId, ...appointment } = claimed;
+    return appointment;
+};
+
+/**
+ * Pass unclaimed offers on to the next guest and close entries whose dates have passed
+ */
+export const expireWaitlistOffers = async (): Promise<void> => {
+    const [offers]: any = await pool.query(
+        'SELECT id FROM waitlist_offers WHERE status = ? AND expires_at <= NOW() ORDER BY expires_at LIMIT 100',
+        [WaitlistOfferStatus.PENDING]
+    );
+
+    for (const offer of offers) {
+        await expireOffer(offer.id);
+    }
+
+    const [result]: any = await pool.query(
+        'UPDATE waitlist_entries SET status = ? WHERE status = ? AND date_to < CURDATE()',
+        [WaitlistEntryStatus.EXPIRED, WaitlistEntryStatus.WAITING]
+    );
+
+    if (offers.length > 0 || result.affectedRows > 0) {
+        logger.info(`Expired ${offers.length} waitlist offer(s) and ${result.affectedRows} waitlist entry(ies)`);
+    }
+};
@@ -62,6 +62,74 @@ export class ConflictError extends AppError {
     }
 }
 
+// A time that could not be booked, kept so the free times around it can be looked up after the booking lock is released
+export interface RequestedSlot {
+    saloonId: number | string;
+    start: Date;
+    durationMinutes: number;
+    serviceIds?: number[];
+    staffId?: number | null;
+    excludeAppointmentId?: number;
+    excludeOfferId?: number;
+    excludeHoldId?: number;
+}
+
+// An occurrence of a recurring series that cannot be booked or moved, with the free times near it
+export interface OccurrenceConflict {
+    // Set for occurrences that are already booked
+    appointmentId?: number;
+    appointmentDate: Date;
+    reason: string;
+    alternatives: { time: Date; staffIds: number[] | null }[];
+    // Time to look up the alternatives for once the saloon is no longer locked
+    slot?: RequestedSlot;
+}
+
+/**
+ * Error for a booking time that is already taken (409), with other times that are still free
+ */
+export class SlotUnavailableError extends ConflictError {
+    alternatives: any[];
+    slot?: RequestedSlot;
+
+    constructor(message = 'The requested time is no longer available', alternatives: any[] = [], slot?: RequestedSlot) {
+        super(message);
+        this.alternatives = alternatives;
+        this.slot = slot;
+    }
+}
+
+/**
+ * Error for recurring series with occurrences that cannot be booked (409),
+ * each conflict names the occurrence and the nearby free times
+ */
+export class SeriesConflictError extends ConflictError {
+    conflicts: OccurrenceConflict[];
+
+    constructor(message = 'Some occurrences of the series cannot be booked', conflicts: OccurrenceConflict[] = []) {
+        super(message);
+        this.conflicts = conflicts;
+    }
+}
+
+/**
+ * Error for locked accounts (423)
+ */
+export class AccountLockedError extends AppError {
+    constructor(message = 'Account is temporarily locked') {
+        super(message, 423);
+    }
+}
+
+/**
+ * Error for rate limited requests (429)
+ */
+export class TooManyRequestsError extends AppError {
+    constructor(message = 'Too many requests, please try again later') {
+        super(message, 429);
+    }
+}
+
 /**
  * Error for database operation failures
  */
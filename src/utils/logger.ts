@@ -45,4 +45,13 @@ const logger = createLogger({
     ],
 });
 
+// Security events (failed logins, lockouts, unlocks) for support staff
+export const securityLogger = createLogger({
+    level: 'info',
+    format: logFormat,
+    transports: [
+        new transports.File({ filename: path.join(logDir, 'security.log') }),
+    ],
+});
+
 export default logger;
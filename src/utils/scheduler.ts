@@ -0,0 +1,25 @@
+import logger from './logger';
+
+/**
+ * Run a background job at a fixed interval. Failures are logged and the job
+ * keeps being scheduled; the timer does not keep the process alive on its own.
+ * @param name Job name used in log messages
+ * @param intervalMs Interval between runs in milliseconds
+ * @param job Job to run
+ * @returns The interval timer
+ */
+export const scheduleJob = (name: string, intervalMs: number, job: () => Promise<unknown>): NodeJS.Timeout => {
+    const run = async () => {
+        try {
+            await job();
+        } catch (error) {
+            logger.error(`Scheduled job '${name}' failed:`, error);
+        }
+    };
+
+    const timer = setInterval(run, intervalMs);
+    timer.unref();
+
+    logger.info(`Scheduled job '${name}' every ${Math.round(intervalMs / 1000)} seconds`);
+    return timer;
+};
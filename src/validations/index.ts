@@ -1,5 +1,11 @@
 export * from './schemas/user.schema';
 export * from './schemas/saloon.schema';
 export * from './schemas/appointment.schema';
+export * from './schemas/role.schema';
+export * from './schemas/audit.schema';
+export * from './schemas/apiKey.schema';
+export * from './schemas/businessHours.schema';
+export * from './schemas/staff.schema';
+export * from './schemas/waitlist.schema';
 
 // You can add exports from other validation schemas here as your application grows
@@ -0,0 +1,12 @@
+import Joi from 'joi';
+import { ApiKeyScope } from '../../models/apiKey.model';
+
+// API key creation validation schema
+export const createApiKeySchema = Joi.object({
+    name: Joi.string().trim().min(1).max(100).required(),
+    scopes: Joi.array()
+        .items(Joi.string().valid(...Object.values(ApiKeyScope)))
+        .min(1)
+        .required(),
+    expires_at: Joi.date().iso().greater('now').optional()
+});
@@ -1,18 +1,68 @@
 import Joi from 'joi';
 import { AppointmentStatus } from '../../models/appointment.model';
+import { RecurrenceFrequency } from '../../models/appointmentSeries.model';
+
+// Whether a change applies to one appointment of a series or to it and all later ones
+const seriesScopeSchema = Joi.string().valid('occurrence', 'following').default('occurrence');
 
 // Appointment creation validation schema
 export const createAppointmentSchema = Joi.object({
     saloon_id: Joi.number().integer().positive().required(),
-    service_ids: Joi.array().items(Joi.number().integer().positive()).min(1).required(),
+    service_ids: Joi.array().items(Joi.number().integer().positive()).min(1).unique().required(),
+    staff_id: Joi.number().integer().positive().allow(null).optional(),
     appointment_date: Joi.date().iso().greater('now').required(),
     notes: Joi.string().allow(null, '').max(500).optional()
 });
 
+// Slot hold validation schema, the same fields as a booking without the notes
+export const holdSlotSchema = Joi.object({
+    saloon_id: Joi.number().integer().positive().required(),
+    service_ids: Joi.array().items(Joi.number().integer().positive()).min(1).unique().required(),
+    staff_id: Joi.number().integer().positive().allow(null).optional(),
+    appointment_date: Joi.date().iso().greater('now').required()
+});
+
 // Appointment status update validation schema
 export const updateAppointmentStatusSchema = Joi.object({
+    // Appointments only start out as pending, they cannot be moved back to it
     status: Joi.string()
-        .valid(...Object.values(AppointmentStatus))
+        .valid(...Object.values(AppointmentStatus).filter((status) => status !== AppointmentStatus.PENDING))
         .required(),
-    notes: Joi.string().allow(null, '').max(500).optional()
+    notes: Joi.string().allow(null, '').max(500).optional(),
+    // Kept in the appointment history, e.g. why it was cancelled
+    reason: Joi.string().allow(null, '').max(500).optional(),
+    // Only cancellations can apply to the rest of a series
+    scope: seriesScopeSchema.when('status', {
+        is: AppointmentStatus.CANCELLED,
+        otherwise: Joi.invalid('following')
+    })
+});
+
+// Appointment reschedule validation schema
+export const rescheduleAppointmentSchema = Joi.object({
+    appointment_date: Joi.date().iso().greater('now').required(),
+    // Keeps the current stylist when left out, null lets any free stylist take it
+    staff_id: Joi.number().integer().positive().allow(null).optional(),
+    reason: Joi.string().allow(null, '').max(255).optional(),
+    // Following appointments move by the same number of days, to the same new time of day
+    scope: seriesScopeSchema
+});
+
+// Recurring appointment series creation validation schema
+export const createAppointmentSeriesSchema = Joi.object({
+    saloon_id: Joi.number().integer().positive().required(),
+    service_ids: Joi.array().items(Joi.number().integer().positive()).min(1).unique().required(),
+    staff_id: Joi.number().integer().positive().allow(null).optional(),
+    // First appointment of the series
+    appointment_date: Joi.date().iso().greater('now').required(),
+    notes: Joi.string().allow(null, '').max(500).optional(),
+    recurrence: Joi.object({
+        frequency: Joi.string().valid(...Object.values(RecurrenceFrequency)).required(),
+        // Every N weeks or months
+        interval: Joi.number().integer().min(1).max(12).default(1),
+        count: Joi.number().integer().min(2).max(52),
+        until: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).message('Until must be in YYYY-MM-DD format')
+    }).xor('count', 'until').required(),
+    // Book the free appointments and report the others instead of booking none
+    skip_conflicts: Joi.boolean().default(false)
 });
@@ -0,0 +1,13 @@
+import Joi from 'joi';
+
+// Audit log search validation schema
+export const auditEventQuerySchema = Joi.object({
+    actor_id: Joi.number().integer().positive().optional(),
+    type: Joi.string().max(64).pattern(/^[a-z_.]+$/).message('Event type must look like auth.login or auth.').optional(),
+    target_type: Joi.string().max(32).optional(),
+    target_id: Joi.string().max(64).optional(),
+    from: Joi.date().iso().optional(),
+    to: Joi.date().iso().min(Joi.ref('from')).optional(),
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(50)
+});
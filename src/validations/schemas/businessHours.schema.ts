@@ -0,0 +1,46 @@
+import Joi from 'joi';
+
+// Time pattern: HH:MM in 24-hour format
+const timePattern = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const timeSchema = (label: string) => Joi.string()
+    .pattern(timePattern)
+    .message(`${label} must be in HH:MM format (24-hour)`)
+    .required();
+
+// A closing time at or before the opening time means the salon closes after midnight
+const intervalSchema = {
+    open_time: timeSchema('Opening time'),
+    close_time: timeSchema('Closing time')
+};
+
+// Weekly schedule validation schema, days without intervals are closed
+export const weeklyHoursSchema = Joi.object({
+    hours: Joi.array()
+        .items(Joi.object({
+            day_of_week: Joi.number().integer().min(0).max(6).required()
+                .messages({ 'number.min': 'Day of week must be between 0 (Sunday) and 6 (Saturday)', 'number.max': 'Day of week must be between 0 (Sunday) and 6 (Saturday)' }),
+            ...intervalSchema
+        }))
+        .min(1)
+        .max(42)
+        .required()
+});
+
+// Holiday or special hours validation schema
+export const hoursExceptionSchema = Joi.object({
+    closed: Joi.boolean().default(false),
+    intervals: Joi.when('closed', {
+        is: true,
+        then: Joi.array().max(0).default([])
+            .messages({ 'array.max': 'A closed day cannot have opening hours' }),
+        otherwise: Joi.array().items(Joi.object(intervalSchema)).min(1).max(6).required()
+    }),
+    reason: Joi.string().trim().max(255).allow(null, '').optional()
+});
+
+// Date range validation schema for listing exceptions
+export const hoursExceptionQuerySchema = Joi.object({
+    from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).message('From must be in YYYY-MM-DD format').optional(),
+    to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).message('To must be in YYYY-MM-DD format').optional()
+});
@@ -0,0 +1,13 @@
+import Joi from 'joi';
+
+// Role two-factor policy validation schema
+export const twoFactorPolicySchema = Joi.object({
+    required: Joi.boolean().required()
+});
+
+// Role permissions validation schema
+export const rolePermissionsSchema = Joi.object({
+    permissions: Joi.array()
+        .items(Joi.string().pattern(/^[a-z_]+:[a-z_]+$/).message('Permission names must look like resource:action'))
+        .required()
+});
@@ -1,4 +1,5 @@
 import Joi from 'joi';
+import { NoShowEnforcement } from '../../models/saloon.model';
 
 // Time pattern: HH:MM in 24-hour format
 const timePattern = /^([01]\d|2[0-3]):([0-5]\d)$/;
@@ -44,7 +45,40 @@ export const createSaloonSchema = Joi.object({
             'number.max': 'Longitude must be between -180 and 180',
             'number.precision': 'Longitude can have at most 8 decimal places',
             'any.required': 'Longitude is required'
-        })
+        }),
+    parallel_chairs: Joi.number()
+        .integer()
+        .min(1)
+        .max(50)
+        .default(1)
+        .messages({
+            'number.min': 'Parallel chairs must be between 1 and 50',
+            'number.max': 'Parallel chairs must be between 1 and 50'
+        }),
+    reschedule_requires_confirmation: Joi.boolean().default(true),
+    auto_confirm_bookings: Joi.boolean().default(false),
+    cancellation_cutoff_hours: Joi.number()
+        .integer()
+        .min(0)
+        .max(168)
+        .default(0)
+        .messages({
+            'number.min': 'Cancellation cutoff must be between 0 and 168 hours',
+            'number.max': 'Cancellation cutoff must be between 0 and 168 hours'
+        }),
+    no_show_threshold: Joi.number()
+        .integer()
+        .min(1)
+        .max(20)
+        .allow(null)
+        .optional()
+        .messages({
+            'number.min': 'No-show threshold must be between 1 and 20',
+            'number.max': 'No-show threshold must be between 1 and 20'
+        }),
+    no_show_enforcement: Joi.string()
+        .valid(...Object.values(NoShowEnforcement))
+        .default(NoShowEnforcement.REQUIRE_APPROVAL)
 }).custom((value, helpers) => {
     // Validate that closing time is after opening time
     if (value.opening_time && value.closing_time) {
@@ -67,7 +101,8 @@ export const createSaloonServiceSchema = Joi.object({
     name: Joi.string().required().min(2).max(100),
     description: Joi.string().allow(null, '').optional(),
     price: Joi.number().required().positive(),
-    duration: Joi.number().integer().min(5).allow(null).optional()
+    duration: Joi.number().integer().min(5).allow(null).optional(),
+    buffer_minutes: Joi.number().integer().min(0).max(120).optional()
 });
 
 // Saloon service update validation schema
@@ -75,5 +110,6 @@ export const updateSaloonServiceSchema = Joi.object({
     name: Joi.string().min(2).max(100).optional(),
     description: Joi.string().allow(null, '').optional(),
     price: Joi.number().positive().optional(),
-    duration: Joi.number().integer().min(5).allow(null).optional()
+    duration: Joi.number().integer().min(5).allow(null).optional(),
+    buffer_minutes: Joi.number().integer().min(0).max(120).optional()
 }).min(1); // At least one field must be provided
@@ -0,0 +1,56 @@
+import Joi from 'joi';
+
+// Time pattern: HH:MM in 24-hour format
+const timePattern = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const serviceIdsSchema = Joi.array().items(Joi.number().integer().positive()).unique().max(100);
+
+// Staff member creation validation schema
+export const createStaffSchema = Joi.object({
+    name: Joi.string().trim().required().min(2).max(100),
+    email: Joi.string().email().allow(null, '').optional(),
+    phone: Joi.string()
+        .pattern(/^\+?[0-9]{10,15}$/)
+        .message('Invalid phone number format')
+        .allow(null, '')
+        .optional(),
+    bio: Joi.string().max(1000).allow(null, '').optional(),
+    user_id: Joi.number().integer().positive().allow(null).optional(),
+    service_ids: serviceIdsSchema.default([])
+});
+
+// Staff member update validation schema
+export const updateStaffSchema = Joi.object({
+    name: Joi.string().trim().min(2).max(100).optional(),
+    email: Joi.string().email().allow(null, '').optional(),
+    phone: Joi.string()
+        .pattern(/^\+?[0-9]{10,15}$/)
+        .message('Invalid phone number format')
+        .allow(null, '')
+        .optional(),
+    bio: Joi.string().max(1000).allow(null, '').optional(),
+    user_id: Joi.number().integer().positive().allow(null).optional(),
+    is_active: Joi.boolean().optional(),
+    service_ids: serviceIdsSchema.optional()
+}).min(1); // At least one field must be provided
+
+// Staff working hours validation schema, an empty list means the staff member works whenever the salon is open
+export const staffHoursSchema = Joi.object({
+    hours: Joi.array()
+        .items(Joi.object({
+            day_of_week: Joi.number().integer().min(0).max(6).required()
+                .messages({ 'number.min': 'Day of week must be between 0 (Sunday) and 6 (Saturday)', 'number.max': 'Day of week must be between 0 (Sunday) and 6 (Saturday)' }),
+            start_time: Joi.string().pattern(timePattern).message('Start time must be in HH:MM format (24-hour)').required(),
+            end_time: Joi.string().pattern(timePattern).message('End time must be in HH:MM format (24-hour)').required()
+        }))
+        .max(42)
+        .required()
+});
+
+// Staff time off validation schema
+export const staffTimeOffSchema = Joi.object({
+    starts_at: Joi.date().iso().required(),
+    ends_at: Joi.date().iso().greater(Joi.ref('starts_at')).greater('now').required()
+        .messages({ 'date.greater': 'End must be after the start and in the future' }),
+    reason: Joi.string().trim().max(255).allow(null, '').optional()
+});
@@ -1,4 +1,5 @@
 import Joi from 'joi';
+import { UserStatus } from '../../models/user.model';
 
 // User creation validation schema
 export const createUserSchema = Joi.object({
@@ -14,7 +15,8 @@ export const createUserSchema = Joi.object({
         .message('Invalid phone number format')
         .allow(null, '')
         .optional(),
-    role: Joi.string().valid('owner', 'guest').default('guest').optional()
+    role: Joi.string().valid('owner', 'guest').default('guest').optional(),
+    device_name: Joi.string().max(100).allow(null, '').optional()
 });
 
 // User update validation schema
@@ -36,11 +38,98 @@ export const updateUserSchema = Joi.object({
 // Login validation schema
 export const loginSchema = Joi.object({
     email: Joi.string().email().required(),
-    password: Joi.string().required()
+    password: Joi.string().required(),
+    device_name: Joi.string().max(100).allow(null, '').optional()
 });
 
-// Google auth validation schema
-export const googleAuthSchema = Joi.object({
+// External identity provider sign-in validation schema
+export const oauthLoginSchema = Joi.object({
     token: Joi.string().required(),
-    role: Joi.string().valid('owner', 'guest').default('guest').optional()
+    role: Joi.string().valid('owner', 'guest').default('guest').optional(),
+    device_name: Joi.string().max(100).allow(null, '').optional()
+});
+
+// Link external identity validation schema
+export const linkIdentitySchema = Joi.object({
+    token: Joi.string().required()
+});
+
+// Refresh token validation schema
+export const refreshTokenSchema = Joi.object({
+    refreshToken: Joi.string().required()
+});
+
+// Forgot password validation schema
+export const forgotPasswordSchema = Joi.object({
+    email: Joi.string().email().required()
+});
+
+// Password reset validation schema
+export const resetPasswordSchema = Joi.object({
+    email: Joi.string().email().required(),
+    code: Joi.string()
+        .pattern(/^[0-9]{6}$/)
+        .message('Reset code must be 6 digits')
+        .required(),
+    password: Joi.string()
+        .required()
+        .min(6)
+        .pattern(new RegExp('^(?=.*[a-zA-Z])(?=.*[0-9])'))
+        .message('Password must be at least 6 characters long and contain at least one letter and one number')
+});
+
+// Email verification validation schema
+export const verifyEmailSchema = Joi.object({
+    token: Joi.string().required()
+});
+
+// Account unlock validation schema
+export const unlockAccountSchema = Joi.object({
+    token: Joi.string().required()
+});
+
+// Code from an authenticator app or a recovery code
+const twoFactorCode = Joi.string()
+    .trim()
+    .pattern(/^([0-9]{6}|[0-9a-fA-F]{5}-?[0-9a-fA-F]{5})$/)
+    .message('Code must be a 6 digit authenticator code or a recovery code')
+    .required();
+
+// Two-factor code validation schema
+export const twoFactorCodeSchema = Joi.object({
+    code: twoFactorCode
+});
+
+// Two-factor login challenge validation schema
+export const twoFactorChallengeSchema = Joi.object({
+    challengeToken: Joi.string().required(),
+    code: twoFactorCode
+});
+
+// Two-factor setup during login validation schema
+export const twoFactorChallengeSetupSchema = Joi.object({
+    challengeToken: Joi.string().required()
+});
+
+// Disable two-factor authentication validation schema
+export const disableTwoFactorSchema = Joi.object({
+    password: Joi.string().required(),
+    code: twoFactorCode
+});
+
+// Account status change validation schema
+export const updateUserStatusSchema = Joi.object({
+    status: Joi.string().valid(UserStatus.ACTIVE, UserStatus.SUSPENDED, UserStatus.BANNED).required(),
+    reason: Joi.string().max(255).allow(null, '').optional(),
+    expires_at: Joi.date().iso().greater('now').allow(null).optional()
+});
+
+// Role change validation schema
+export const updateUserRoleSchema = Joi.object({
+    role_id: Joi.number().integer().positive().required()
+});
+
+// Account deletion validation schema, the password is required for accounts that have one
+export const deleteAccountSchema = Joi.object({
+    password: Joi.string().optional()
 });
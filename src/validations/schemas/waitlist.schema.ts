@@ -0,0 +1,18 @@
+import Joi from 'joi';
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+// Waitlist join validation schema
+export const joinWaitlistSchema = Joi.object({
+    saloon_id: Joi.number().integer().positive().required(),
+    service_ids: Joi.array().items(Joi.number().integer().positive()).min(1).unique().required(),
+    staff_id: Joi.number().integer().positive().allow(null).optional(),
+    date_from: Joi.string().pattern(datePattern).message('Date from must be in YYYY-MM-DD format').required(),
+    // Defaults to date_from, for a single day
+    date_to: Joi.string().pattern(datePattern).message('Date to must be in YYYY-MM-DD format').optional()
+});
+
+// Waitlist offer claim validation schema
+export const claimWaitlistOfferSchema = Joi.object({
+    token: Joi.string().required()
+});